@@ -0,0 +1,14 @@
+import tseslint from 'typescript-eslint';
+
+export default tseslint.config(
+  {
+    ignores: ['node_modules/', 'dist/', '.wrangler/', 'docling_serve/', 'public/'],
+  },
+  ...tseslint.configs.recommended,
+  {
+    rules: {
+      // D1 rows and provider responses are untyped JSON
+      '@typescript-eslint/no-explicit-any': 'off',
+    },
+  },
+);
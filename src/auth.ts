@@ -0,0 +1,152 @@
+import { ConversionError } from './convert';
+import { parseLimits } from './limits';
+import { ApiKey, ApiKeyScope, UsageLimits } from './models';
+
+// API keys and the scopes they grant. Only the SHA-256 hash of a key is stored.
+
+export interface ApiKeyRow {
+  id: string;
+  tenant_id: string;
+  name: string;
+  key_prefix: string; // First characters of the key, to tell keys apart
+  key_hash: string;
+  scopes: string; // Comma-separated
+  limits: string | null; // JSON overrides of the default limits
+  created_at: string;
+  last_used_at: string | null;
+}
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['convert', 'read', 'admin'];
+// Tenant of DOCLING_SERVE_API_KEY, and of every request when no key is configured
+export const DEFAULT_TENANT = 'default';
+const KEY_PREFIX = 'dsk_';
+const KEY_BYTES = 32;
+const MAX_KEY_NAME_LENGTH = 100;
+// Seconds a task token can be used to open the task's status WebSocket
+export const TASK_TOKEN_TTL_SECONDS = 300;
+
+// Key sent as `Authorization: Bearer <key>` or `X-Api-Key: <key>`
+export function requestApiKey(request: Request): string | null {
+  const match = request.headers.get('Authorization')?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match?.[1] || request.headers.get('X-Api-Key') || null;
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key)));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function generateApiKey(): string {
+  return KEY_PREFIX + base64Url(crypto.getRandomValues(new Uint8Array(KEY_BYTES)));
+}
+
+// What a task token grants: reading one task's status, in its tenant, until it expires
+export interface TaskTokenClaims {
+  task_id: string;
+  tenant_id: string;
+  client_id: string;
+  exp: number; // Unix time in seconds
+}
+
+// Short-lived token for the task status WebSocket, which browsers cannot send headers to.
+// Signed with HMAC-SHA256 of the secret: `<base64url claims>.<base64url signature>`.
+export async function createTaskToken(secret: string, claims: TaskTokenClaims): Promise<string> {
+  const payload = base64Url(new TextEncoder().encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await tokenKey(secret), new TextEncoder().encode(payload));
+  return `${payload}.${base64Url(new Uint8Array(signature))}`;
+}
+
+// Claims of a token signed with the secret for the task, or null if it is invalid or expired
+export async function verifyTaskToken(secret: string, token: string, taskId: string, now = new Date()): Promise<TaskTokenClaims | null> {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+  let claims: TaskTokenClaims;
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await tokenKey(secret), fromBase64Url(signature), new TextEncoder().encode(payload));
+    if (!valid) {
+      return null;
+    }
+    claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+  } catch {
+    return null;
+  }
+  return claims.task_id === taskId && claims.exp > now.getTime() / 1000 ? claims : null;
+}
+
+function tokenKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  return Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+}
+
+// Scope needed for a request, or null for routes that stay public. Converting and
+// reprocessing need convert; deleting documents and managing vectorizers, keys, migrations
+// and the raw tables need admin; everything else reads.
+export function requiredScope(method: string, pathname: string): ApiKeyScope | null {
+  if (pathname === '/') {
+    // The dashboard shows database contents
+    return 'admin';
+  }
+  if (!pathname.startsWith('/v1alpha/')) {
+    return null;
+  }
+  const path = pathname.slice('/v1alpha/'.length);
+  if (path.startsWith('table/') || path === 'api-keys' || path.startsWith('api-keys/') || path === 'migrations') {
+    return 'admin';
+  }
+  if (path.startsWith('vectorizers')) {
+    return method === 'GET' ? 'read' : 'admin';
+  }
+  if (path.startsWith('convert/') || path === 'callback/task/progress' || /^documents\/[^/]+\/reprocess$/.test(path)) {
+    return 'convert';
+  }
+  if (/^documents\/[^/]+$/.test(path) && method === 'PATCH') {
+    return 'convert';
+  }
+  if (/^documents\/[^/]+$/.test(path) && method === 'DELETE') {
+    return 'admin';
+  }
+  return 'read';
+}
+
+// admin grants every scope
+export function hasScope(scopes: ApiKeyScope[], scope: ApiKeyScope): boolean {
+  return scopes.includes('admin') || scopes.includes(scope);
+}
+
+export function parseApiKeyRequest(body: { name?: unknown; scopes?: unknown; tenant_id?: unknown; limits?: unknown }): { name: string; scopes: ApiKeyScope[]; tenantId?: string; limits?: Partial<UsageLimits> } {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_KEY_NAME_LENGTH) {
+    throw new ConversionError(`name must be a non-empty string of at most ${MAX_KEY_NAME_LENGTH} characters`, 400);
+  }
+  const scopes = body.scopes;
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(scope => API_KEY_SCOPES.includes(scope))) {
+    throw new ConversionError(`scopes must be a non-empty list of ${API_KEY_SCOPES.join(', ')}`, 400);
+  }
+  const tenantId = body.tenant_id;
+  if (tenantId !== undefined && (typeof tenantId !== 'string' || !/^[A-Za-z0-9_-]{1,64}$/.test(tenantId))) {
+    throw new ConversionError('tenant_id must be 1 to 64 letters, digits, hyphens or underscores', 400);
+  }
+  return { name, scopes: [...new Set(scopes as ApiKeyScope[])], tenantId, limits: parseLimits(body.limits) };
+}
+
+export function formatApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    tenant_id: row.tenant_id,
+    name: row.name,
+    prefix: row.key_prefix,
+    scopes: row.scopes.split(',') as ApiKeyScope[],
+    limits: row.limits ? JSON.parse(row.limits) : {},
+    created_at: row.created_at,
+    last_used_at: row.last_used_at,
+  };
+}
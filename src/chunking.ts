@@ -0,0 +1,235 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+import { DoclingDocument, DocumentChunk } from './models';
+import { renderBlocks, RenderedBlock } from './render';
+
+// Structure-aware chunking of converted documents, measured in cl100k_base tokens.
+// Chunks never span a section heading; each one starts with the headings of its section,
+// so that it can be embedded on its own. Blocks are kept whole when they fit and are
+// otherwise split between lines, sentences or words. While packing, the size of joined
+// text is taken as the sum of its parts plus one token per separator, which keeps the
+// tokenizer to one pass over each part.
+
+export interface ChunkingOptions {
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+export const TOKEN_ENCODING = 'cl100k_base';
+
+// Smallest chunk size accepted, so that the heading prefix always leaves room for content
+export const MIN_CHUNK_SIZE = 64;
+// Byte-pair merging is quadratic in the length of a word, so very long runs without
+// whitespace (such as inline base64 data) are encoded in slices of this many characters
+const MAX_WORD_LENGTH = 256;
+const LONG_WORD = new RegExp(`\\S{${MAX_WORD_LENGTH + 1}}`);
+const WORD_SLICE = new RegExp(`(\\S{${MAX_WORD_LENGTH}})`);
+
+let encoder: Tiktoken | undefined;
+
+// The rank table is large, so it is only parsed once per isolate
+function tokenizer(): Tiktoken {
+  encoder ??= new Tiktoken(cl100k_base);
+  return encoder;
+}
+
+function encode(text: string): number[] {
+  if (!LONG_WORD.test(text)) {
+    return tokenizer().encode(text);
+  }
+  const slices = text.split(WORD_SLICE).filter(Boolean);
+  return slices.flatMap(slice => tokenizer().encode(slice));
+}
+
+export function countTokens(text: string): number {
+  return encode(text).length;
+}
+
+export function chunkDocument(document: DoclingDocument, options: ChunkingOptions): DocumentChunk[] {
+  const chunkSize = Math.max(MIN_CHUNK_SIZE, Math.floor(options.chunkSize) || 0);
+  const overlap = Math.min(Math.max(0, Math.floor(options.chunkOverlap) || 0), Math.floor(chunkSize / 2));
+
+  const chunks: DocumentChunk[] = [];
+  const headings: { level: number; text: string }[] = [];
+  let prefix = '';
+  let prefixTokens = 0;
+  let parts: string[] = [];
+  let partTokens = 0;
+  let pages = new Set<number>();
+  let start = -1;
+  let end = -1;
+  // Content carried over from the end of the previous chunk of the same section
+  let carried = '';
+  let carriedTokens = 0;
+
+  const fits = (tokens: number) => prefixTokens + tokens + parts.length + 1 <= chunkSize;
+  const add = (part: string, tokens: number) => {
+    parts.push(part);
+    partTokens += tokens;
+  };
+
+  const emit = () => {
+    if (start >= 0) {
+      const text = [prefix, ...parts].filter(Boolean).join('\n\n');
+      chunks.push({
+        chunk_index: chunks.length,
+        text,
+        token_count: countTokens(text),
+        headings: headings.map(heading => heading.text.replace(/^#+\s*/, '')),
+        page_numbers: [...pages].sort((a, b) => a - b),
+        start_offset: start,
+        end_offset: end,
+      });
+      carried = overlap > 0 ? tokenTail(parts.join('\n\n'), overlap) : '';
+      carriedTokens = countTokens(carried);
+    }
+    parts = [];
+    partTokens = 0;
+    pages = new Set();
+    start = end = -1;
+  };
+
+  // Blocks are joined by blank lines in the Markdown output
+  let offset = 0;
+  for (const block of renderBlocks(document)) {
+    const blockStart = offset;
+    offset += block.text.length + 2;
+
+    if (block.kind === 'heading') {
+      emit();
+      carried = '';
+      const level = block.level ?? 1;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      headings.push({ level, text: block.text });
+      prefix = headingPrefix(headings, chunkSize);
+      prefixTokens = countTokens(prefix);
+      continue;
+    }
+
+    // Pieces of split blocks leave room for the overlap in front of them
+    const budget = Math.max(MIN_CHUNK_SIZE / 2, chunkSize - prefixTokens - overlap - 2);
+    const blockTokens = countTokens(block.text);
+    const pieces = blockTokens <= budget + overlap
+      ? [{ text: block.text, start: 0, end: block.text.length }]
+      : splitBlock(block, budget);
+    for (const piece of pieces) {
+      const tokens = pieces.length === 1 ? blockTokens : countTokens(piece.text);
+      if (parts.length > 0 && !fits(partTokens + tokens)) {
+        emit();
+      }
+      if (parts.length === 0 && carried && fits(carriedTokens + tokens + 1)) {
+        add(carried, carriedTokens);
+      }
+      add(piece.text, tokens);
+      block.pages.forEach(page => pages.add(page));
+      start = start < 0 ? blockStart + piece.start : start;
+      end = blockStart + piece.end;
+    }
+  }
+  emit();
+  return chunks;
+}
+
+// Heading lines of the current section; outer headings are dropped when they would take up
+// more than half of the chunk
+function headingPrefix(headings: { text: string }[], chunkSize: number): string {
+  for (let start = 0; start < headings.length; start++) {
+    const prefix = headings.slice(start).map(heading => heading.text).join('\n');
+    if (countTokens(prefix) <= chunkSize / 2) {
+      return prefix;
+    }
+  }
+  return '';
+}
+
+// Split a block that does not fit into a chunk. Tables repeat their header row in every piece;
+// offsets of the pieces point at their own rows.
+function splitBlock(block: RenderedBlock, maxTokens: number): Segment[] {
+  const whole = { text: block.text, start: 0, end: block.text.length };
+  if (block.kind === 'table' || block.kind === 'list' || block.kind === 'code') {
+    const lines = splitSegment(whole, /\n/g);
+    const headerLength = block.kind === 'table' ? lines.findIndex(line => /^\|( --- \|)+$/.test(line.text)) + 1 : 0;
+    const header = lines.slice(0, headerLength).map(line => line.text).join('\n');
+    const rowBudget = headerLength > 0 ? maxTokens - countTokens(header) - 1 : maxTokens;
+    if (rowBudget >= MIN_CHUNK_SIZE / 4) {
+      return pack(lines.slice(headerLength), '\n', rowBudget).map(rows => (header ? { ...rows, text: `${header}\n${rows.text}` } : rows));
+    }
+    return pack(lines, '\n', maxTokens);
+  }
+  return pack(splitSegment(whole, /(?<=[.!?])\s+/g), ' ', maxTokens);
+}
+
+// Text with its character range in the block it was cut from
+interface Segment {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function splitSegment(segment: Segment, separator: RegExp): Segment[] {
+  const parts: Segment[] = [];
+  let start = 0;
+  for (const match of segment.text.matchAll(separator)) {
+    parts.push({ text: segment.text.slice(start, match.index), start: segment.start + start, end: segment.start + match.index! });
+    start = match.index! + match[0].length;
+  }
+  parts.push({ text: segment.text.slice(start), start: segment.start + start, end: segment.end });
+  return parts.filter(part => part.text);
+}
+
+// Join units greedily into pieces of at most maxTokens, splitting oversized units into words
+function pack(units: Segment[], separator: string, maxTokens: number): Segment[] {
+  const pieces: Segment[] = [];
+  let current: Segment | undefined;
+  let currentTokens = 0;
+  for (const unit of units) {
+    const unitTokens = countTokens(unit.text);
+    if (current && currentTokens + unitTokens + 1 <= maxTokens) {
+      current = { text: `${current.text}${separator}${unit.text}`, start: current.start, end: unit.end };
+      currentTokens += unitTokens + 1;
+      continue;
+    }
+    if (current) {
+      pieces.push(current);
+      current = undefined;
+    }
+    if (unitTokens <= maxTokens) {
+      current = unit;
+      currentTokens = unitTokens;
+    } else if (/\s/.test(unit.text.trim())) {
+      pieces.push(...pack(splitSegment(unit, /\s+/g), ' ', maxTokens));
+    } else {
+      // A single word longer than a chunk can only be cut between tokens
+      const tokens = encode(unit.text);
+      let start = unit.start;
+      for (let index = 0; index < tokens.length; index += maxTokens) {
+        const text = tokenizer().decode(tokens.slice(index, index + maxTokens));
+        pieces.push({ text, start, end: Math.min(start + text.length, unit.end) });
+        start += text.length;
+      }
+    }
+  }
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+// The last tokens of a text, starting at a line boundary when the tail spans several lines
+// and at a word boundary otherwise
+function tokenTail(text: string, maxTokens: number): string {
+  const tokens = encode(text);
+  if (tokens.length <= maxTokens) {
+    return text;
+  }
+  let tail = tokenizer().decode(tokens.slice(-maxTokens));
+  const cut = text.length - tail.length;
+  if (tail.slice(0, -1).includes('\n')) {
+    tail = tail.slice(tail.indexOf('\n') + 1);
+  } else if (!/^\s/.test(tail) && !(cut > 0 && /\s/.test(text[cut - 1]))) {
+    tail = tail.replace(/^\S+/, '');
+  }
+  return tail.trim();
+}
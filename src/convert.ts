@@ -0,0 +1,421 @@
+import { DocumentBuilder, TableCellInput } from './document';
+import { convertHtml } from './html';
+import { convertMarkdown } from './markdown';
+import { ConvertDocumentsOptions, DocumentSource, InputFormat, OutputFormat } from './models';
+import { convertDocx, convertPptx, convertXlsx } from './ooxml';
+import { extractPdf, labelBlocks, PdfFormatError, PdfPageLimitError } from './pdf';
+import { ZipArchive } from './zip';
+
+// A document fetched from a source URL or read from an upload
+export interface SourceDocument {
+  name: string;
+  url?: string;
+  contentType: string;
+  data: ArrayBuffer;
+}
+
+// Summary of one source added to the document, ready to be stored in D1
+export interface ExtractedContent {
+  format?: InputFormat;
+  pages: number;
+}
+
+// Error raised while fetching or converting a document; carries the HTTP status to report
+export class ConversionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = 'ConversionError';
+    this.status = status;
+  }
+}
+
+// Extension to content type fallback for servers and uploads that don't send one
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  html: 'text/html',
+  htm: 'text/html',
+  md: 'text/markdown',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+  xml: 'application/xml',
+  adoc: 'text/asciidoc',
+  asciidoc: 'text/asciidoc',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  bmp: 'image/bmp',
+};
+
+const CONTENT_TYPE_FORMATS: Record<string, InputFormat> = {
+  'application/pdf': InputFormat.PDF,
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': InputFormat.DOCX,
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': InputFormat.PPTX,
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': InputFormat.XLSX,
+  'text/html': InputFormat.HTML,
+  'application/xhtml+xml': InputFormat.HTML,
+  'text/markdown': InputFormat.MD,
+  'text/x-markdown': InputFormat.MD,
+  'text/asciidoc': InputFormat.ASCIIDOC,
+  'text/csv': InputFormat.CSV,
+};
+
+const OUTPUT_FORMATS = Object.values(OutputFormat) as string[];
+
+// Requested output formats: to_formats (a list or a single value), else format, else Markdown
+export function resolveOutputFormats(options: ConvertDocumentsOptions): OutputFormat[] {
+  const requested = ([] as string[]).concat(options.to_formats || []).filter(Boolean);
+  if (requested.length === 0 && options.format) {
+    requested.push(options.format);
+  }
+
+  const formats: OutputFormat[] = [];
+  for (const value of requested) {
+    const format = value === 'markdown' ? OutputFormat.MARKDOWN : value;
+    if (!OUTPUT_FORMATS.includes(format)) {
+      throw new ConversionError(`Unsupported output format: ${value}. Allowed values: ${OUTPUT_FORMATS.join(', ')}`, 400);
+    }
+    if (!formats.includes(format as OutputFormat)) {
+      formats.push(format as OutputFormat);
+    }
+  }
+  return formats.length > 0 ? formats : [OutputFormat.MARKDOWN];
+}
+
+// Fetch a single source URL, forwarding any headers supplied with it
+export async function fetchSource(
+  source: string | DocumentSource,
+  options: ConvertDocumentsOptions,
+  maxFileSize: number
+): Promise<SourceDocument> {
+  const url = typeof source === 'string' ? source : source.url;
+  const headers = typeof source === 'string' ? undefined : source.headers;
+
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    throw new ConversionError(`Invalid source URL: ${url}`, 400);
+  }
+  if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
+    throw new ConversionError(`Unsupported source URL protocol: ${parsedUrl.protocol}`, 400);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(parsedUrl.toString(), {
+      headers,
+      redirect: 'follow',
+      signal: options.timeout ? AbortSignal.timeout(options.timeout * 1000) : undefined,
+    });
+  } catch (error) {
+    throw fetchError(url, error);
+  }
+
+  if (!response.ok) {
+    throw new ConversionError(`Failed to fetch ${url}: HTTP ${response.status}`, 502);
+  }
+
+  // Reject early when the server announces a body larger than the limit
+  const contentLength = parseInt(response.headers.get('Content-Length') || '0', 10);
+  if (maxFileSize > 0 && contentLength > maxFileSize) {
+    throw new ConversionError(`Source ${url} exceeds the maximum file size of ${maxFileSize} bytes`, 413);
+  }
+
+  let data: ArrayBuffer;
+  try {
+    data = await response.arrayBuffer();
+  } catch (error) {
+    throw fetchError(url, error);
+  }
+  if (maxFileSize > 0 && data.byteLength > maxFileSize) {
+    throw new ConversionError(`Source ${url} exceeds the maximum file size of ${maxFileSize} bytes`, 413);
+  }
+
+  const name = fileNameFromResponse(response, parsedUrl);
+  return {
+    name,
+    url: response.url || parsedUrl.toString(),
+    contentType: detectContentType(name, response.headers.get('Content-Type'), data),
+    data,
+  };
+}
+
+// Work out the content type from the declared type, magic bytes and file extension
+export function detectContentType(name: string, declared: string | null, data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, 512));
+
+  // Magic bytes win over whatever the server or browser claimed
+  if (startsWith(bytes, '%PDF-')) {
+    return 'application/pdf';
+  }
+
+  const mimeType = (declared || '').split(';')[0].trim().toLowerCase();
+  if (mimeType && mimeType !== 'application/octet-stream' && mimeType !== 'binary/octet-stream') {
+    return mimeType;
+  }
+
+  const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+  if (EXTENSION_CONTENT_TYPES[extension]) {
+    return EXTENSION_CONTENT_TYPES[extension];
+  }
+
+  const head = new TextDecoder().decode(bytes).trimStart().toLowerCase();
+  if (head.startsWith('<!doctype html') || head.startsWith('<html')) {
+    return 'text/html';
+  }
+
+  return mimeType || 'application/octet-stream';
+}
+
+// Work out the docling input format of a document, looking inside zip packages for Office documents
+export function detectInputFormat(document: SourceDocument): InputFormat | undefined {
+  if (document.contentType.startsWith('image/')) {
+    return InputFormat.IMAGE;
+  }
+  if (CONTENT_TYPE_FORMATS[document.contentType]) {
+    return CONTENT_TYPE_FORMATS[document.contentType];
+  }
+
+  if (ZipArchive.isZip(document.data)) {
+    try {
+      const zip = new ZipArchive(new Uint8Array(document.data));
+      if (zip.has('word/document.xml')) {
+        return InputFormat.DOCX;
+      }
+      if (zip.has('ppt/presentation.xml')) {
+        return InputFormat.PPTX;
+      }
+      if (zip.has('xl/workbook.xml')) {
+        return InputFormat.XLSX;
+      }
+    } catch {
+      // Not a readable zip archive
+    }
+  }
+  return undefined;
+}
+
+// Append a document to the builder (shared by file uploads and URL sources)
+export async function extractContent(
+  document: SourceDocument,
+  builder: DocumentBuilder,
+  maxPages: number,
+  fromFormats?: InputFormat[]
+): Promise<ExtractedContent> {
+  const format = detectInputFormat(document);
+  if (fromFormats?.length && (!format || !fromFormats.includes(format))) {
+    throw new ConversionError(
+      `${document.name}: input format ${format || document.contentType} is not one of ${fromFormats.join(', ')}`,
+      415
+    );
+  }
+
+  builder.beginSource({
+    mimetype: document.contentType,
+    binary_hash: await binaryHash(document.data),
+    filename: document.name,
+    ...(document.url ? { uri: document.url } : {}),
+  });
+
+  let pages = 1;
+  switch (format) {
+    case InputFormat.PDF:
+      pages = await extractPdfContent(document, builder, maxPages);
+      break;
+    case InputFormat.DOCX:
+    case InputFormat.PPTX:
+    case InputFormat.XLSX:
+      pages = await extractOfficeContent(document, builder, format, maxPages);
+      break;
+    case InputFormat.HTML:
+      convertHtml(new TextDecoder().decode(document.data), builder, document.url);
+      break;
+    case InputFormat.MD:
+      convertMarkdown(new TextDecoder().decode(document.data), builder, document.url);
+      break;
+    case InputFormat.CSV:
+      builder.table(csvRows(new TextDecoder().decode(document.data)));
+      break;
+    case InputFormat.IMAGE:
+      throw new ConversionError(`${document.name}: image input requires OCR, which is not available`, 415);
+    default:
+      if (!format && !isTextContentType(document.contentType)) {
+        throw new ConversionError(`${document.name}: unsupported content type ${document.contentType}`, 415);
+      }
+      for (const paragraph of new TextDecoder().decode(document.data).split(/\r?\n\s*\r?\n/)) {
+        builder.text(paragraph);
+      }
+  }
+
+  return { format, pages };
+}
+
+// Hash of the original bytes, cut to 48 bits so it survives as a JSON number
+async function binaryHash(data: ArrayBuffer): Promise<number> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return digest.slice(0, 6).reduce((hash, byte) => hash * 256 + byte, 0);
+}
+
+async function extractPdfContent(document: SourceDocument, builder: DocumentBuilder, maxPages: number): Promise<number> {
+  let pdf;
+  try {
+    pdf = await extractPdf(document.data, maxPages);
+  } catch (error) {
+    if (error instanceof PdfPageLimitError) {
+      throw new ConversionError(`${document.name}: ${error.message}`, 413);
+    }
+    if (error instanceof PdfFormatError) {
+      throw new ConversionError(`${document.name}: ${error.message}`, 422);
+    }
+    throw error;
+  }
+
+  const labels = labelBlocks(pdf.pages);
+  for (const [index, page] of pdf.pages.entries()) {
+    builder.page(page.page_no, page.width, page.height);
+    for (const [i, block] of page.blocks.entries()) {
+      const label = labels[index][i];
+      const location = { page_no: page.page_no, bbox: { ...block.bbox, coord_origin: 'TOPLEFT' as const } };
+      switch (label.label) {
+        case 'title':
+          builder.title(block.text, { location });
+          break;
+        case 'section_header':
+          builder.heading(block.text, label.level, { location });
+          break;
+        case 'list_item':
+          builder.listItem(label.text, 0, label.ordered, { location });
+          break;
+        case 'page_header':
+        case 'page_footer':
+          builder.text(block.text, label.label, { location, layer: 'furniture' });
+          break;
+        default:
+          builder.text(block.text, label.label, { location });
+      }
+    }
+  }
+  return pdf.pageCount;
+}
+
+async function extractOfficeContent(
+  document: SourceDocument,
+  builder: DocumentBuilder,
+  format: InputFormat,
+  maxPages: number
+): Promise<number> {
+  let pages: number;
+  try {
+    const zip = new ZipArchive(new Uint8Array(document.data));
+    pages = format === InputFormat.DOCX ? await convertDocx(zip, builder)
+      : format === InputFormat.PPTX ? await convertPptx(zip, builder)
+      : await convertXlsx(zip, builder);
+  } catch (error) {
+    throw new ConversionError(`${document.name}: invalid ${format} document: ${(error as Error).message}`, 422);
+  }
+
+  // Slides and sheets count as pages; Word page counts come from document metadata
+  if (maxPages > 0 && format !== InputFormat.DOCX && pages > maxPages) {
+    throw new ConversionError(`${document.name}: document has ${pages} pages, which exceeds the limit of ${maxPages}`, 413);
+  }
+  return pages;
+}
+
+function isTextContentType(contentType: string): boolean {
+  return contentType.startsWith('text/') || /[/+](json|xml)$/.test(contentType);
+}
+
+// RFC 4180 CSV (quoted fields, doubled quotes, embedded newlines) as table rows, the first being the header
+function csvRows(text: string): TableCellInput[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .filter(cells => cells.some(cell => cell.trim()))
+    .map((cells, r) => cells.map(cell => ({ text: cell.trim(), columnHeader: r === 0 })));
+}
+
+// The request or body download timed out (504) or failed (502)
+function fetchError(url: string, error: unknown): ConversionError {
+  const name = (error as Error).name;
+  if (name === 'TimeoutError' || name === 'AbortError') {
+    return new ConversionError(`Timed out fetching ${url}`, 504);
+  }
+  return new ConversionError(`Failed to fetch ${url}: ${(error as Error).message}`, 502);
+}
+
+// Build a document name from Content-Disposition or the last URL path segment
+function fileNameFromResponse(response: Response, url: URL): string {
+  const disposition = response.headers.get('Content-Disposition');
+  const match = disposition?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+  if (match) {
+    return decodeName(match[1]);
+  }
+
+  const segment = url.pathname.split('/').filter(Boolean).pop();
+  return segment ? decodeName(segment) : url.hostname;
+}
+
+// Malformed percent-encoding is kept as sent
+function decodeName(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function startsWith(bytes: Uint8Array, signature: string): boolean {
+  if (bytes.length < signature.length) {
+    return false;
+  }
+  for (let i = 0; i < signature.length; i++) {
+    if (bytes[i] !== signature.charCodeAt(i)) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,77 @@
+// Cross-origin policy, configured with CORS_ALLOWED_ORIGINS, CORS_ALLOW_CREDENTIALS and CORS_MAX_AGE
+
+export interface CorsConfig {
+  CORS_ALLOWED_ORIGINS?: string;
+  CORS_ALLOW_CREDENTIALS?: string;
+  CORS_MAX_AGE?: string;
+}
+
+export interface CorsPolicy {
+  // Without an allowlist every origin is allowed, without credentials
+  anyOrigin: boolean;
+  // Exact origins, and patterns whose first host label is `*`, such as https://*.example.com
+  origins: string[];
+  credentials: boolean;
+  // Seconds browsers may cache a preflight response
+  maxAge: number;
+}
+
+const DEFAULT_MAX_AGE = 86400;
+const ALLOWED_HEADERS = 'Content-Type, Authorization, X-Api-Key, X-Requested-With';
+
+export function corsPolicy(config: CorsConfig): CorsPolicy {
+  const origins = (config.CORS_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, '').toLowerCase())
+    .filter(Boolean);
+  const anyOrigin = origins.length === 0 || origins.includes('*');
+  const maxAge = parseInt(config.CORS_MAX_AGE || '', 10);
+  return {
+    anyOrigin,
+    origins: origins.filter(origin => origin !== '*'),
+    // Credentials are never allowed for every origin
+    credentials: !anyOrigin && config.CORS_ALLOW_CREDENTIALS === 'true',
+    maxAge: Number.isInteger(maxAge) && maxAge >= 0 ? maxAge : DEFAULT_MAX_AGE,
+  };
+}
+
+export function originAllowed(policy: CorsPolicy, origin: string): boolean {
+  if (policy.anyOrigin) {
+    return true;
+  }
+  const normalized = origin.toLowerCase();
+  return policy.origins.some(allowed => {
+    const wildcard = allowed.match(/^([a-z][a-z0-9+.-]*:\/\/)\*(\..+)$/);
+    if (!wildcard) {
+      return allowed === normalized;
+    }
+    // One or more labels in place of the `*`
+    const [, scheme, suffix] = wildcard;
+    return normalized.startsWith(scheme) && normalized.endsWith(suffix) && normalized.length > scheme.length + suffix.length;
+  });
+}
+
+// Headers for a response to a request from an allowed origin (or with no Origin header)
+export function allowOriginHeaders(policy: CorsPolicy, origin: string | null): Record<string, string> {
+  if (policy.anyOrigin) {
+    return { 'Access-Control-Allow-Origin': '*' };
+  }
+  if (!origin) {
+    return { 'Vary': 'Origin' };
+  }
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Vary': 'Origin',
+    ...(policy.credentials ? { 'Access-Control-Allow-Credentials': 'true' } : {}),
+  };
+}
+
+// Headers for a preflight response listing the methods routed for the requested path
+export function preflightHeaders(policy: CorsPolicy, origin: string | null, methods: string[]): Record<string, string> {
+  return {
+    ...allowOriginHeaders(policy, origin),
+    'Access-Control-Allow-Methods': [...methods, 'OPTIONS'].join(', '),
+    'Access-Control-Allow-Headers': ALLOWED_HEADERS,
+    'Access-Control-Max-Age': String(policy.maxAge),
+  };
+}
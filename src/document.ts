@@ -0,0 +1,411 @@
+import {
+  BoundingBox,
+  ContentLayer,
+  DoclingDocument,
+  DocTextItem,
+  DocumentOrigin,
+  GroupItem,
+  NodeItem,
+  PictureItem,
+  ProvenanceItem,
+  TableCell,
+  TableItem,
+  TextItem,
+} from './models';
+
+// Builder for DoclingDocument trees, shared by all converters
+
+// Inline text, optionally linked
+export interface TextRun {
+  text: string;
+  href?: string;
+}
+
+// Location of an item on a page, before page numbers are offset for multi-source documents
+export interface ItemLocation {
+  page_no: number;
+  bbox: BoundingBox;
+}
+
+export interface ItemOptions {
+  location?: ItemLocation;
+  layer?: ContentLayer;
+}
+
+// One table cell as read from the source; grid positions are worked out by the builder
+export interface TableCellInput {
+  text: string;
+  rowSpan?: number;
+  colSpan?: number;
+  columnHeader?: boolean;
+  rowHeader?: boolean;
+}
+
+// Image bytes found inside a source document, waiting to be stored and linked from its picture
+export interface EmbeddedImage {
+  picture: PictureItem;
+  data: Uint8Array;
+  mimetype: string;
+}
+
+type NodeOf<T> = Omit<T, 'self_ref' | 'parent' | 'children' | 'content_layer'>;
+
+export const DOCLING_DOCUMENT_VERSION = '1.3.0';
+
+export class DocumentBuilder {
+  readonly document: DoclingDocument;
+  readonly embeddedImages: EmbeddedImage[] = [];
+  // Open lists, innermost last
+  private lists: { group: GroupItem; level: number; ordered: boolean; count: number; lastItem?: NodeItem }[] = [];
+  private pageOffset = 0;
+
+  constructor(name: string) {
+    const root = (layer: ContentLayer): GroupItem => ({
+      self_ref: `#/${layer}`,
+      children: [],
+      content_layer: layer,
+      name: '_root_',
+      label: 'unspecified',
+    });
+    this.document = {
+      schema_name: 'DoclingDocument',
+      version: DOCLING_DOCUMENT_VERSION,
+      name,
+      furniture: root('furniture'),
+      body: root('body'),
+      groups: [],
+      texts: [],
+      pictures: [],
+      tables: [],
+      key_value_items: [],
+      form_items: [],
+      pages: {},
+    };
+  }
+
+  // Start appending another source; its pages are numbered after those already added
+  beginSource(origin?: DocumentOrigin) {
+    this.lists = [];
+    this.pageOffset = Math.max(0, ...Object.values(this.document.pages).map(page => page.page_no));
+    if (origin && !this.document.origin) {
+      this.document.origin = origin;
+    }
+  }
+
+  page(pageNo: number, width: number, height: number) {
+    const page_no = pageNo + this.pageOffset;
+    this.document.pages[String(page_no)] = { size: { width, height }, page_no };
+  }
+
+  get hasTitle(): boolean {
+    return this.document.texts.some(item => item.label === 'title');
+  }
+
+  title(content: string | TextRun[], options: ItemOptions = {}) {
+    return this.addText(content, { label: 'title' }, options);
+  }
+
+  heading(content: string | TextRun[], level: number, options: ItemOptions = {}) {
+    return this.addText(content, { label: 'section_header', level: Math.max(1, level) }, options);
+  }
+
+  // HTML/Markdown heading levels: the first h1 is the document title, h2-h6 become section levels 1-5
+  markupHeading(content: string | TextRun[], level: number, options: ItemOptions = {}) {
+    if (level === 1 && !this.hasTitle) {
+      return this.title(content, options);
+    }
+    return this.heading(content, Math.max(1, level - 1), options);
+  }
+
+  text(
+    content: string | TextRun[],
+    label: TextItem['label'] = 'paragraph',
+    options: ItemOptions = {}
+  ) {
+    return this.addText(content, { label }, options);
+  }
+
+  listItem(content: string | TextRun[], level: number, ordered: boolean, options: ItemOptions = {}) {
+    const lists = this.lists;
+    while (lists.length > 0 && (lists[lists.length - 1].level > level ||
+      (lists[lists.length - 1].level === level && lists[lists.length - 1].ordered !== ordered))) {
+      lists.pop();
+    }
+
+    let list = lists[lists.length - 1];
+    if (!list || list.level < level) {
+      // Nested lists hang off the item they follow
+      const owner = list?.lastItem || this.document.body;
+      list = { group: this.addGroup(owner, ordered ? 'ordered_list' : 'list'), level, ordered, count: 0 };
+      lists.push(list);
+    }
+
+    const item = this.addText(
+      content,
+      { label: 'list_item', enumerated: ordered, marker: ordered ? `${list.count + 1}.` : '-' },
+      options,
+      list.group
+    );
+    if (item) {
+      list.count++;
+      list.lastItem = item;
+    }
+    return item;
+  }
+
+  code(text: string, language?: string, options: ItemOptions = {}) {
+    this.lists = [];
+    if (!text.trim()) {
+      return undefined;
+    }
+    return this.attachText(this.document.body, {
+      label: 'code',
+      prov: this.provenance(options.location, text),
+      orig: text,
+      text,
+      ...(language ? { code_language: language } : {}),
+    }, options.layer);
+  }
+
+  // Lay out rows of cells on a grid, honouring row and column spans
+  table(rows: TableCellInput[][], options: ItemOptions & { caption?: string } = {}) {
+    this.lists = [];
+    const grid: TableCell[][] = [];
+    const cells: TableCell[] = [];
+
+    rows.forEach((row, r) => {
+      grid[r] = grid[r] || [];
+      let c = 0;
+      for (const input of row) {
+        while (grid[r][c]) {
+          c++;
+        }
+        const rowSpan = Math.max(1, Math.min(input.rowSpan || 1, rows.length - r));
+        const colSpan = Math.max(1, Math.min(input.colSpan || 1, 1000));
+        const cell: TableCell = {
+          text: input.text,
+          row_span: rowSpan,
+          col_span: colSpan,
+          start_row_offset_idx: r,
+          end_row_offset_idx: r + rowSpan,
+          start_col_offset_idx: c,
+          end_col_offset_idx: c + colSpan,
+          column_header: Boolean(input.columnHeader),
+          row_header: Boolean(input.rowHeader),
+          row_section: false,
+        };
+        cells.push(cell);
+        for (let i = r; i < r + rowSpan; i++) {
+          grid[i] = grid[i] || [];
+          for (let j = c; j < c + colSpan; j++) {
+            grid[i][j] = cell;
+          }
+        }
+        c += colSpan;
+      }
+    });
+
+    const numRows = grid.length;
+    const numCols = Math.max(0, ...grid.map(row => row.length));
+    if (numRows === 0 || numCols === 0) {
+      return undefined;
+    }
+
+    // Fill holes left by ragged rows with empty cells
+    for (let r = 0; r < numRows; r++) {
+      for (let c = 0; c < numCols; c++) {
+        if (!grid[r][c]) {
+          grid[r][c] = {
+            text: '',
+            row_span: 1,
+            col_span: 1,
+            start_row_offset_idx: r,
+            end_row_offset_idx: r + 1,
+            start_col_offset_idx: c,
+            end_col_offset_idx: c + 1,
+            column_header: false,
+            row_header: false,
+            row_section: false,
+          };
+        }
+      }
+    }
+
+    const table = this.attach(this.document.body, this.document.tables, 'tables', {
+      label: 'table',
+      prov: this.provenance(options.location, ''),
+      captions: [],
+      references: [],
+      footnotes: [],
+      data: { table_cells: cells, num_rows: numRows, num_cols: numCols, grid },
+    } as NodeOf<TableItem>, options.layer);
+
+    if (options.caption) {
+      const caption = this.attachText(table, { label: 'caption', prov: [], orig: options.caption, text: options.caption });
+      table.captions.push({ $ref: caption.self_ref });
+    }
+    return table;
+  }
+
+  // Pictures either link to an image by URI or carry its bytes, to be stored later
+  picture(
+    uri: string | undefined,
+    options: ItemOptions & { caption?: string; data?: Uint8Array; mimetype?: string } = {}
+  ) {
+    this.lists = [];
+    const picture = this.attach(this.document.body, this.document.pictures, 'pictures', {
+      label: 'picture',
+      prov: this.provenance(options.location, ''),
+      captions: [],
+      references: [],
+      footnotes: [],
+      ...(uri ? { image: { mimetype: imageMimeType(uri), dpi: 72, size: { width: 0, height: 0 }, uri } } : {}),
+      annotations: [],
+    } as NodeOf<PictureItem>, options.layer);
+
+    if (options.data) {
+      this.embeddedImages.push({ picture, data: options.data, mimetype: options.mimetype || 'application/octet-stream' });
+    }
+
+    const captionText = options.caption?.trim();
+    if (captionText) {
+      const caption = this.attachText(picture, { label: 'caption', prov: [], orig: captionText, text: captionText });
+      picture.captions.push({ $ref: caption.self_ref });
+    }
+    return picture;
+  }
+
+  build(): DoclingDocument {
+    return this.document;
+  }
+
+  private addText(
+    content: string | TextRun[],
+    fields: Partial<DocTextItem> & Pick<DocTextItem, 'label'>,
+    options: ItemOptions,
+    parent: NodeItem = this.document.body
+  ): DocTextItem | undefined {
+    if (fields.label !== 'list_item') {
+      this.lists = [];
+    }
+
+    const runs = normalizeRuns(typeof content === 'string' ? [{ text: content }] : content);
+    const text = runs.map(run => run.text).join('');
+    if (!text) {
+      return undefined;
+    }
+
+    const item = this.attachText(parent, {
+      ...fields,
+      prov: this.provenance(options.location, text),
+      orig: text,
+      text,
+    } as NodeOf<DocTextItem>, options.layer);
+
+    if (runs.some(run => run.href)) {
+      if (runs.length === 1) {
+        item.hyperlink = runs[0].href;
+      } else {
+        // Text with hyperlinks keeps its linked runs in an inline group
+        const inline = this.addGroup(item, 'inline');
+        for (const run of runs) {
+          this.attachText(inline, {
+            label: 'text',
+            prov: [],
+            orig: run.text,
+            text: run.text,
+            ...(run.href ? { hyperlink: run.href } : {}),
+          });
+        }
+      }
+    }
+    return item;
+  }
+
+  private addGroup(parent: NodeItem, label: GroupItem['label']): GroupItem {
+    return this.attach(parent, this.document.groups, 'groups', { name: label, label });
+  }
+
+  private attachText(parent: NodeItem, item: NodeOf<DocTextItem>, layer?: ContentLayer): DocTextItem {
+    return this.attach(parent, this.document.texts, 'texts', item, layer);
+  }
+
+  private attach<T extends NodeItem>(parent: NodeItem, collection: T[], name: string, item: NodeOf<T>, layer?: ContentLayer): T {
+    // Top-level furniture hangs off the furniture root rather than the body
+    if (layer === 'furniture' && parent === this.document.body) {
+      parent = this.document.furniture;
+    }
+    const node = {
+      self_ref: `#/${name}/${collection.length}`,
+      parent: { $ref: parent.self_ref },
+      children: [],
+      content_layer: layer || parent.content_layer,
+      ...item,
+    } as unknown as T;
+    collection.push(node);
+    parent.children.push({ $ref: node.self_ref });
+    return node;
+  }
+
+  private provenance(location: ItemLocation | undefined, text: string): ProvenanceItem[] {
+    if (!location) {
+      return [];
+    }
+    return [{ page_no: location.page_no + this.pageOffset, bbox: location.bbox, charspan: [0, text.length] }];
+  }
+}
+
+// Collapse whitespace across runs and merge neighbours with the same link
+export function normalizeRuns(runs: TextRun[]): TextRun[] {
+  const normalized: TextRun[] = [];
+  for (const run of runs) {
+    let text = run.text.replace(/\s+/g, ' ');
+    const previous = normalized[normalized.length - 1];
+    if (!previous || previous.text.endsWith(' ')) {
+      text = text.replace(/^ /, '');
+    }
+    if (!text) {
+      continue;
+    }
+    if (previous && previous.href === run.href) {
+      previous.text += text;
+    } else {
+      normalized.push(run.href ? { text, href: run.href } : { text });
+    }
+  }
+
+  const last = normalized[normalized.length - 1];
+  if (last) {
+    last.text = last.text.replace(/ $/, '');
+    if (!last.text) {
+      normalized.pop();
+    }
+  }
+  return normalized;
+}
+
+export function imageMimeType(uri: string): string {
+  const extension = uri.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg';
+    case 'gif':
+      return 'image/gif';
+    case 'svg':
+      return 'image/svg+xml';
+    case 'webp':
+      return 'image/webp';
+    case 'bmp':
+      return 'image/bmp';
+    case 'tif':
+    case 'tiff':
+      return 'image/tiff';
+    case 'emf':
+      return 'image/x-emf';
+    case 'wmf':
+      return 'image/x-wmf';
+    default:
+      return 'image/png';
+  }
+}
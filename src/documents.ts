@@ -0,0 +1,82 @@
+import { ConversionError } from './convert';
+import { DocumentFilters, documentFilters, parseDocumentFilters } from './search';
+
+// Query parsing and cursors for /v1alpha/documents
+
+export interface DocumentListQuery extends DocumentFilters {
+  // Case-insensitive substring of the document name
+  name?: string;
+  vectorizerId?: string;
+  // Position after which the page starts
+  after?: DocumentCursor;
+}
+
+// Documents are listed newest first, ordered by (created_at, id)
+export interface DocumentCursor {
+  createdAt: string;
+  id: string;
+}
+
+const MAX_NAME_FILTER_LENGTH = 200;
+export const MAX_DOCUMENT_NAME_LENGTH = 255;
+
+export function parseDocumentListQuery(params: URLSearchParams): DocumentListQuery {
+  // formats may be repeated or comma-separated
+  const formats = params.getAll('formats').flatMap(value => value.split(',')).map(format => format.trim()).filter(Boolean);
+  const filters = parseDocumentFilters({
+    formats: formats.length ? formats : undefined,
+    created_after: params.get('created_after') ?? undefined,
+    created_before: params.get('created_before') ?? undefined,
+  });
+
+  const name = params.get('name') || undefined;
+  if (name && name.length > MAX_NAME_FILTER_LENGTH) {
+    throw new ConversionError(`name must be at most ${MAX_NAME_FILTER_LENGTH} characters`, 400);
+  }
+  const cursor = params.get('cursor');
+  return {
+    ...filters,
+    name,
+    vectorizerId: params.get('vectorizer_id') || undefined,
+    after: cursor ? decodeCursor(cursor) : undefined,
+  };
+}
+
+// SQL conditions on the documents table (aliased `d`) for the query
+export function documentListFilters(query: DocumentListQuery): { sql: string; params: (string | number)[] } {
+  const { sql, params } = documentFilters(query);
+  const conditions: string[] = [];
+  if (query.name) {
+    conditions.push("d.name LIKE ? ESCAPE '\\'");
+    params.push(`%${query.name.replace(/[\\%_]/g, '\\$&')}%`);
+  }
+  if (query.vectorizerId) {
+    conditions.push('d.vectorizer_id = ?');
+    params.push(query.vectorizerId);
+  }
+  if (query.after) {
+    conditions.push('(d.created_at < ? OR (d.created_at = ? AND d.id < ?))');
+    params.push(query.after.createdAt, query.after.createdAt, query.after.id);
+  }
+  return { sql: sql + conditions.map(condition => ` AND ${condition}`).join(''), params };
+}
+
+// Opaque cursor for the page after the given document
+export function encodeCursor(document: { id: string; created_at: string }): string {
+  const json = JSON.stringify([document.created_at, document.id]);
+  return btoa(String.fromCharCode(...new TextEncoder().encode(json)))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeCursor(cursor: string): DocumentCursor {
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const [createdAt, id] = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0))));
+    if (typeof createdAt === 'string' && typeof id === 'string') {
+      return { createdAt, id };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new ConversionError('cursor is invalid', 400);
+}
@@ -0,0 +1,115 @@
+// Client for OpenAI-compatible `/embeddings` endpoints, used to embed document chunks
+
+// Queued embedding of a document's chunks with one vectorizer
+export interface EmbeddingJob {
+  document_id: string;
+  vectorizer_id: string;
+}
+
+export interface EmbeddingConfig {
+  // Base URL of the API, such as https://api.openai.com/v1
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  dimensions?: number;
+  batchSize?: number;
+}
+
+interface EmbeddingsResponse {
+  data: { index: number; embedding: number[] }[];
+}
+
+export class EmbeddingError extends Error {
+  // Whether the request is worth repeating later
+  retryable: boolean;
+  status?: number;
+
+  constructor(message: string, retryable: boolean, status?: number) {
+    super(message);
+    this.name = 'EmbeddingError';
+    this.retryable = retryable;
+    this.status = status;
+  }
+}
+
+export const DEFAULT_EMBEDDINGS_URL = 'https://api.openai.com/v1';
+export const EMBEDDING_MAX_ATTEMPTS = 5;
+const DEFAULT_BATCH_SIZE = 64;
+// Rate-limited requests are repeated in place up to this many times before the job is requeued
+const MAX_REQUEST_ATTEMPTS = 4;
+const MAX_RETRY_DELAY_MS = 20_000;
+const REQUEST_TIMEOUT_MS = 60_000;
+
+// Embed texts in batches, returning one vector per text in the same order
+export async function embedTexts(config: EmbeddingConfig, texts: string[]): Promise<Float32Array[]> {
+  const batchSize = Math.max(1, config.batchSize || DEFAULT_BATCH_SIZE);
+  const vectors: Float32Array[] = [];
+  for (let start = 0; start < texts.length; start += batchSize) {
+    vectors.push(...await embedBatch(config, texts.slice(start, start + batchSize)));
+  }
+  return vectors;
+}
+
+async function embedBatch(config: EmbeddingConfig, input: string[]): Promise<Float32Array[]> {
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/embeddings`;
+  const body = JSON.stringify({
+    model: config.model,
+    input,
+    ...(config.dimensions ? { dimensions: config.dimensions } : {}),
+  });
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${config.apiKey}`,
+        },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new EmbeddingError(`Embedding request failed: ${(error as Error).message}`, true);
+    }
+
+    if (response.ok) {
+      const result = await response.json() as EmbeddingsResponse;
+      if (!Array.isArray(result.data) || result.data.length !== input.length) {
+        throw new EmbeddingError(`Expected ${input.length} embeddings, got ${result.data?.length ?? 0}`, false);
+      }
+      return [...result.data].sort((a, b) => a.index - b.index).map(item => Float32Array.from(item.embedding));
+    }
+
+    const message = `Embedding request failed with HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`;
+    const retryable = response.status === 429 || response.status >= 500;
+    if (!retryable || attempt >= MAX_REQUEST_ATTEMPTS) {
+      throw new EmbeddingError(message, retryable, response.status);
+    }
+    await new Promise(resolve => setTimeout(resolve, retryDelay(response, attempt)));
+  }
+}
+
+// Wait asked for by Retry-After, or 1s, 2s, 4s, ... when the server does not say
+function retryDelay(response: Response, attempt: number): number {
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  const delay = Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : 1000 * 2 ** (attempt - 1);
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+// Vectors are stored in D1 as little-endian float32 BLOBs
+export function vectorToBlob(vector: Float32Array): ArrayBuffer {
+  return vector.buffer.slice(vector.byteOffset, vector.byteOffset + vector.byteLength) as ArrayBuffer;
+}
+
+// D1 may return BLOB columns as arrays of byte values
+export function blobToVector(blob: ArrayBuffer | number[]): Float32Array {
+  const bytes = new Uint8Array(blob);
+  return new Float32Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 4));
+}
+
+// Seconds before a requeued embedding job runs again: 1m, 2m, 4m, ... capped at one hour
+export function embeddingBackoff(attempt: number): number {
+  return Math.min(60 * 2 ** (attempt - 1), 3600);
+}
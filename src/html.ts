@@ -0,0 +1,373 @@
+import { DocumentBuilder, TableCellInput, TextRun } from './document';
+import { childElement, childElements, decodeXmlEntities, findElement, parseAttributes, textContent, XmlElement } from './xml';
+
+// Forgiving HTML parser and HTML-to-document conversion for web pages
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title', 'noscript', 'xmp']);
+
+// Elements whose start tag closes an open <p>
+const CLOSES_PARAGRAPH = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figcaption', 'figure', 'footer',
+  'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul',
+]);
+
+const LATIN1_ENTITIES = (
+  'nbsp iexcl cent pound curren yen brvbar sect uml copy ordf laquo not shy reg macr deg plusmn sup2 sup3 acute micro ' +
+  'para middot cedil sup1 ordm raquo frac14 frac12 frac34 iquest Agrave Aacute Acirc Atilde Auml Aring AElig Ccedil ' +
+  'Egrave Eacute Ecirc Euml Igrave Iacute Icirc Iuml ETH Ntilde Ograve Oacute Ocirc Otilde Ouml times Oslash Ugrave ' +
+  'Uacute Ucirc Uuml Yacute THORN szlig agrave aacute acirc atilde auml aring aelig ccedil egrave eacute ecirc euml ' +
+  'igrave iacute icirc iuml eth ntilde ograve oacute ocirc otilde ouml divide oslash ugrave uacute ucirc uuml yacute ' +
+  'thorn yuml'
+).split(' ');
+
+const HTML_ENTITIES: Record<string, string> = {
+  lt: '<', gt: '>', amp: '&', quot: '"', apos: "'",
+  ensp: '\u2002', emsp: '\u2003', thinsp: '\u2009', zwnj: '\u200c', zwj: '\u200d', lrm: '\u200e',
+  rlm: '\u200f', ndash: '\u2013', mdash: '\u2014', lsquo: '\u2018', rsquo: '\u2019', sbquo: '\u201a',
+  ldquo: '\u201c', rdquo: '\u201d', bdquo: '\u201e', dagger: '\u2020', Dagger: '\u2021', bull: '\u2022',
+  hellip: '\u2026', permil: '\u2030', prime: '\u2032', lsaquo: '\u2039', rsaquo: '\u203a', euro: '\u20ac',
+  trade: '\u2122', larr: '\u2190', uarr: '\u2191', rarr: '\u2192', darr: '\u2193', harr: '\u2194',
+  minus: '\u2212', infin: '\u221e', ne: '\u2260', le: '\u2264', ge: '\u2265',
+  ...Object.fromEntries(LATIN1_ENTITIES.map((name, index) => [name, String.fromCharCode(160 + index)])),
+};
+
+// Parse HTML into a synthetic '#document' element with lower-case tag and attribute names
+export function parseHtml(html: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  let pos = 0;
+
+  // Pop the innermost open element named in `names`, unless a `boundary` element is nearer
+  const closeOpen = (names: string[], boundary: string[]) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (names.includes(stack[i].name)) {
+        stack.length = i;
+        return;
+      }
+      if (boundary.includes(stack[i].name)) {
+        return;
+      }
+    }
+  };
+
+  while (pos < html.length) {
+    const open = html.indexOf('<', pos);
+    if (open < 0) {
+      appendText(current(), html.slice(pos));
+      break;
+    }
+    if (open > pos) {
+      appendText(current(), html.slice(pos, open));
+    }
+
+    if (html.startsWith('<!--', open)) {
+      const end = html.indexOf('-->', open + 4);
+      pos = end < 0 ? html.length : end + 3;
+      continue;
+    }
+    if (html[open + 1] === '!' || html[open + 1] === '?') {
+      const end = html.indexOf('>', open);
+      pos = end < 0 ? html.length : end + 1;
+      continue;
+    }
+
+    const tagMatch = html.slice(open, open + 256).match(/^<(\/?)([a-zA-Z][\w:-]*)/);
+    if (!tagMatch) {
+      appendText(current(), '<');
+      pos = open + 1;
+      continue;
+    }
+
+    const name = tagMatch[2].toLowerCase();
+    const end = findTagEnd(html, open + tagMatch[0].length);
+    if (tagMatch[1]) {
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (index > 0) {
+        stack.length = index;
+      }
+      pos = end + 1;
+      continue;
+    }
+
+    if (CLOSES_PARAGRAPH.has(name)) {
+      closeOpen(['p'], ['button', 'table', 'td', 'th', 'caption']);
+    }
+    if (name === 'li') {
+      closeOpen(['li'], ['ul', 'ol']);
+    } else if (name === 'dt' || name === 'dd') {
+      closeOpen(['dt', 'dd'], ['dl']);
+    } else if (name === 'tr') {
+      closeOpen(['tr'], ['table', 'thead', 'tbody', 'tfoot']);
+    } else if (name === 'td' || name === 'th') {
+      closeOpen(['td', 'th'], ['tr', 'table']);
+    } else if (name === 'thead' || name === 'tbody' || name === 'tfoot') {
+      closeOpen(['thead', 'tbody', 'tfoot'], ['table']);
+    }
+
+    const source = html.slice(open + tagMatch[0].length, end);
+    const selfClosing = /(^|[\s"'])\/$/.test(source);
+    const attributes: Record<string, string> = {};
+    for (const [key, value] of Object.entries(parseAttributes(selfClosing ? source.slice(0, -1) : source, HTML_ENTITIES))) {
+      attributes[key.toLowerCase()] = value;
+    }
+
+    const element: XmlElement = { name, attributes, children: [] };
+    current().children.push(element);
+    pos = end + 1;
+
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      const closeTag = new RegExp(`</${name}`, 'gi');
+      closeTag.lastIndex = pos;
+      const close = closeTag.exec(html)?.index ?? -1;
+      const text = html.slice(pos, close < 0 ? html.length : close);
+      element.children.push(name === 'textarea' || name === 'title' ? decodeXmlEntities(text, HTML_ENTITIES) : text);
+      pos = close < 0 ? html.length : findTagEnd(html, close) + 1;
+    } else if (!VOID_ELEMENTS.has(name) && !selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+function findTagEnd(html: string, start: number): number {
+  let quote = '';
+  for (let i = start; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) {
+        quote = '';
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return html.length;
+}
+
+function appendText(parent: XmlElement, text: string) {
+  parent.children.push(decodeXmlEntities(text, HTML_ENTITIES));
+}
+
+// Page chrome and non-content elements dropped during conversion
+const SKIPPED_ELEMENTS = new Set([
+  'head', 'script', 'style', 'noscript', 'template', 'nav', 'footer', 'aside', 'form', 'iframe', 'svg', 'canvas',
+  'button', 'select', 'input', 'textarea', 'object', 'embed', 'dialog', 'map',
+]);
+const SKIPPED_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'search', 'complementary', 'menu', 'menubar']);
+
+// Elements that start a new block; anything else is treated as inline content
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'blockquote', 'body', 'center', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset', 'figcaption',
+  'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'html', 'li', 'main', 'ol', 'p', 'pre', 'section',
+  'summary', 'table', 'ul',
+]);
+
+type PendingText =
+  | { type: 'paragraph' }
+  | { type: 'heading'; level: number }
+  | { type: 'list_item'; level: number; ordered: boolean };
+
+// Convert an HTML page into the document, keeping the main content only.
+// Relative links and image sources are resolved against baseUrl when given.
+export function convertHtml(html: string, builder: DocumentBuilder, baseUrl?: string) {
+  const document = parseHtml(html);
+  const main = findElement(document, 'main') || findElement(document, 'article');
+  const converter = new HtmlConverter(builder, baseUrl, !main);
+  converter.container(main || findElement(document, 'body') || document);
+}
+
+class HtmlConverter {
+  private runs: TextRun[] = [];
+  private images: { src: string; alt: string }[] = [];
+
+  // Site headers are only dropped when the page has no <main> or <article> to start from
+  constructor(
+    private readonly builder: DocumentBuilder,
+    private readonly baseUrl: string | undefined,
+    private readonly skipHeaders: boolean
+  ) {}
+
+  container(element: XmlElement) {
+    this.children(element);
+    this.flushParagraph();
+  }
+
+  // Walk child nodes, leaving trailing inline content pending for the caller to flush
+  private children(element: XmlElement) {
+    for (const child of element.children) {
+      if (typeof child === 'string') {
+        this.runs.push({ text: child });
+      } else if (!this.skipped(child)) {
+        if (BLOCK_ELEMENTS.has(child.name)) {
+          this.flushParagraph();
+          this.block(child);
+        } else {
+          this.inline(child);
+        }
+      }
+    }
+  }
+
+  private skipped(element: XmlElement): boolean {
+    return SKIPPED_ELEMENTS.has(element.name) ||
+      (this.skipHeaders && element.name === 'header') ||
+      SKIPPED_ROLES.has(element.attributes.role) ||
+      element.attributes['aria-hidden'] === 'true' ||
+      'hidden' in element.attributes;
+  }
+
+  private block(element: XmlElement) {
+    const heading = element.name.match(/^h([1-6])$/);
+    if (heading) {
+      this.children(element);
+      this.flush({ type: 'heading', level: parseInt(heading[1], 10) });
+    } else if (element.name === 'ul' || element.name === 'ol') {
+      this.list(element, 0);
+    } else if (element.name === 'table') {
+      const caption = textContent(childElement(element, 'caption')).replace(/\s+/g, ' ').trim();
+      this.builder.table(this.tableRows(element), caption ? { caption } : {});
+    } else if (element.name === 'pre') {
+      const text = textContent(element).replace(/^\n/, '').replace(/\s+$/, '');
+      const code = childElements(element, 'code')[0];
+      const language = `${element.attributes.class || ''} ${code?.attributes.class || ''}`.match(/(?:lang|language)-([\w+-]+)/)?.[1];
+      this.builder.code(text, language);
+    } else if (element.name === 'figure' && findElement(element, 'img') && !findElement(element, 'table')) {
+      const image = findElement(element, 'img')!;
+      const src = this.resolve(image.attributes.src);
+      const caption = textContent(findElement(element, 'figcaption')) || image.attributes.alt || '';
+      this.builder.picture(src && !src.startsWith('data:') ? src : undefined, { caption: caption.replace(/\s+/g, ' ') });
+    } else if (element.name !== 'hr') {
+      this.container(element);
+    }
+  }
+
+  private inline(element: XmlElement, href?: string) {
+    if (element.name === 'br') {
+      this.runs.push({ text: ' ', href });
+      return;
+    }
+    if (element.name === 'img') {
+      const src = this.resolve(element.attributes.src);
+      if (src && !src.startsWith('data:')) {
+        this.images.push({ src, alt: element.attributes.alt || '' });
+      }
+      return;
+    }
+    if (element.name === 'a') {
+      href = this.resolve(element.attributes.href) || href;
+    }
+
+    for (const child of element.children) {
+      if (typeof child === 'string') {
+        this.runs.push({ text: child, href });
+      } else if (!this.skipped(child)) {
+        if (child.name === 'ul' || child.name === 'ol' || child.name === 'table') {
+          // Block content inside inline markup (e.g. a list in a <span>) still becomes its own block
+          this.flushParagraph();
+          this.block(child);
+        } else {
+          this.inline(child, href);
+        }
+      }
+    }
+  }
+
+  private list(element: XmlElement, level: number) {
+    const ordered = element.name === 'ol';
+    for (const item of childElements(element)) {
+      if (item.name === 'ul' || item.name === 'ol') {
+        this.list(item, level + 1);
+      } else if (!this.skipped(item)) {
+        this.listItem(item, level, ordered);
+        this.flush({ type: 'list_item', level, ordered });
+      }
+    }
+  }
+
+  // Collect an item's own text, emitting nested lists as deeper items
+  private listItem(element: XmlElement, level: number, ordered: boolean) {
+    for (const child of element.children) {
+      if (typeof child === 'string') {
+        this.runs.push({ text: child });
+      } else if (this.skipped(child)) {
+        continue;
+      } else if (child.name === 'ul' || child.name === 'ol') {
+        this.flush({ type: 'list_item', level, ordered });
+        this.list(child, level + 1);
+      } else if (child.name === 'table' || child.name === 'pre') {
+        this.flush({ type: 'list_item', level, ordered });
+        this.block(child);
+      } else if (BLOCK_ELEMENTS.has(child.name)) {
+        this.runs.push({ text: ' ' });
+        this.listItem(child, level, ordered);
+      } else {
+        this.inline(child);
+      }
+    }
+  }
+
+  private tableRows(table: XmlElement): TableCellInput[][] {
+    const rows: TableCellInput[][] = [];
+    const visit = (element: XmlElement) => {
+      for (const child of childElements(element)) {
+        if (child.name === 'thead' || child.name === 'tbody' || child.name === 'tfoot') {
+          visit(child);
+        } else if (child.name === 'tr') {
+          const elements = childElements(child).filter(cell => cell.name === 'td' || cell.name === 'th');
+          // <th> cells are column headers in <thead> or all-header rows, row headers otherwise
+          const headerRow = element.name === 'thead' || elements.every(cell => cell.name === 'th');
+          const cells = elements.map(cell => ({
+            text: textContent(cell).replace(/\s+/g, ' ').trim(),
+            colSpan: parseInt(cell.attributes.colspan || '1', 10) || 1,
+            rowSpan: parseInt(cell.attributes.rowspan || '1', 10) || 1,
+            columnHeader: cell.name === 'th' && headerRow && cell.attributes.scope !== 'row',
+            rowHeader: cell.name === 'th' && (!headerRow || cell.attributes.scope === 'row'),
+          }));
+          if (cells.length > 0) {
+            rows.push(cells);
+          }
+        }
+      }
+    };
+    visit(table);
+    return rows;
+  }
+
+  private flushParagraph() {
+    this.flush({ type: 'paragraph' });
+  }
+
+  private flush(pending: PendingText) {
+    if (pending.type === 'heading') {
+      this.builder.markupHeading(this.runs, pending.level);
+    } else if (pending.type === 'list_item') {
+      this.builder.listItem(this.runs, pending.level, pending.ordered);
+    } else {
+      this.builder.text(this.runs);
+    }
+    for (const image of this.images) {
+      this.builder.picture(image.src, { caption: image.alt });
+    }
+    this.runs = [];
+    this.images = [];
+  }
+
+  private resolve(url: string | undefined): string | undefined {
+    const trimmed = url?.trim();
+    if (!trimmed || trimmed.startsWith('#') || /^javascript:/i.test(trimmed)) {
+      return undefined;
+    }
+    try {
+      return new URL(trimmed, this.baseUrl).toString();
+    } catch {
+      return trimmed;
+    }
+  }
+}
@@ -1,21 +1,126 @@
 import { Router } from 'itty-router';
 import {
+  ApiKeyRequest,
+  ApiKeyScope,
   ConvertDocumentResponse,
   ConvertDocumentsOptions,
   ConvertDocumentsRequest,
+  CreatedApiKey,
+  DailyUsage,
+  DoclingDocument,
+  DocumentChunk,
+  DocumentChunksResponse,
+  DocumentDetailsResponse,
+  DocumentInfo,
+  DocumentListResponse,
+  DocumentUpdateRequest,
   HealthCheckResponse,
+  InputFormat,
   MessageKind,
+  MigrationsResponse,
+  OutputFormat,
   ProgressCallbackRequest,
   ProgressCallbackResponse,
+  SearchMode,
+  SearchRequest,
+  SearchResponse,
+  SearchResult,
   TaskStatusResponse,
+  TaskTokenResponse,
+  UsageLimits,
+  UsageResponse,
+  VectorizerRequest,
+  WebsocketMessage,
 } from './models';
+import {
+  ApiKeyRow,
+  createTaskToken,
+  DEFAULT_TENANT,
+  formatApiKey,
+  generateApiKey,
+  hashApiKey,
+  hasScope,
+  parseApiKeyRequest,
+  requestApiKey,
+  requiredScope,
+  TASK_TOKEN_TTL_SECONDS,
+  verifyTaskToken,
+} from './auth';
+import { allowOriginHeaders, corsPolicy, originAllowed, preflightHeaders } from './cors';
+import { ConversionError, detectContentType, extractContent, fetchSource, resolveOutputFormats, SourceDocument } from './convert';
+import { chunkDocument, TOKEN_ENCODING } from './chunking';
+import { DocumentBuilder, EmbeddedImage } from './document';
+import { documentListFilters, encodeCursor, MAX_DOCUMENT_NAME_LENGTH, parseDocumentListQuery } from './documents';
+import {
+  blobToVector,
+  DEFAULT_EMBEDDINGS_URL,
+  EMBEDDING_MAX_ATTEMPTS,
+  embeddingBackoff,
+  EmbeddingConfig,
+  EmbeddingError,
+  EmbeddingJob,
+  embedTexts,
+  vectorToBlob,
+} from './embeddings';
+import { defaultLimits, exceededQuota, keyLimits, quotaRoute, secondsUntilNextDay, usageDay } from './limits';
+import { appliedMigrations, d1MigrationDatabase, migrate, pendingMigrations } from './migrate';
+import { MIGRATIONS } from './migrations';
+import { convertMarkdown } from './markdown';
+import { renderOutputs } from './render';
+import {
+  cosineSimilarity,
+  documentFilters,
+  fuseRankings,
+  keywordExpression,
+  matchesFilters,
+  MAX_TOP_K,
+  parseSearchMode,
+  parseSearchRequest,
+  SearchQuery,
+} from './search';
+import { attachmentDisposition, documentPrefix, FILES_PATH, originalKey, outputContentType, outputKey, putFile, putImages, putOutput, readText, StoredFile } from './storage';
+import {
+  formatVectorizer,
+  OCR_ENGINES,
+  validateVectorizer,
+  VectorizerRow,
+  VectorizerSettings,
+  vectorizerParameters,
+} from './vectorizers';
+import { sendWebhook, validateCallbackUrl, WEBHOOK_MAX_ATTEMPTS, webhookBackoff, WebhookJob } from './webhooks';
 
 // Initialize router
 const router = Router();
+// Pending migrations applied by this isolate, once
+let schemaReady: Promise<unknown> | undefined;
 
 // Configuration constants
 const MAX_FILE_SIZE_MB = 5; // 5 MB
-const CHUNK_SIZE_TOKENS = 1000; // Now using tiktoken for 1000 tokens
+const CHUNK_SIZE_TOKENS = 1000; // Default chunk size in cl100k_base tokens
+const CHUNK_OVERLAP_TOKENS = 200; // Default overlap between consecutive chunks of a section
+const MAX_INLINE_CONTENT_LENGTH = 1000; // Longer Markdown content is only kept in R2
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small'; // Used when neither the vectorizer nor VECTOR_MODEL names one
+// Parameters of vectorizers created without explicit settings
+const DEFAULT_VECTORIZER_PARAMETERS = {
+  chunk_overlap: CHUNK_OVERLAP_TOKENS,
+  max_tokens: 8192,
+  token_encoding: TOKEN_ENCODING,
+  enable_summarization: true,
+  enable_metadata_extraction: true
+};
+const MAX_DOCUMENT_JSON_LENGTH = 1_000_000; // Keep document rows well under the D1 row size limit
+const MAX_QUEUE_ATTEMPTS = 3; // Deliveries of a conversion job before its task is marked failed
+const MAX_POLL_WAIT_SECONDS = 30; // Upper bound for the `wait` parameter of the poll endpoint
+const DEFAULT_PAGE_SIZE = 20; // Items per page of paginated endpoints
+const MAX_PAGE_SIZE = 100;
+const VECTORIZE_DELETE_BATCH = 1000; // Vector IDs per Vectorize deleteByIds call
+const REINDEX_PAGE_SIZE = 10; // Documents reprocessed per reindex queue message
+const MAX_USAGE_DAYS = 31; // Days of history returned by /v1alpha/usage
+const DOCUMENT_COLUMNS = 'd.id, d.name, d.format, d.source_format, d.pages, d.vectorizer_id, d.created_at';
+// Stored documents of a vectorizer (bound three times: its ID, 1 to include unlinked documents,
+// then its tenant)
+const VECTORIZER_DOCUMENTS = `(d.vectorizer_id = ? OR (? = 1 AND d.vectorizer_id IS NULL AND d.tenant_id = ?)) 
+  AND (d.document_json IS NOT NULL OR EXISTS (SELECT 1 FROM files f WHERE f.document_id = d.id AND f.kind = 'output'))`;
 
 // Define database result types
 interface TaskResult {
@@ -37,11 +142,88 @@ interface DocumentResult {
   format: string;
   pages: number;
   content?: string;
+  document_json?: string;
+}
+
+// Queued conversion of an async task; the task and document rows already exist
+interface ConversionJob {
+  task_id: string;
+  document_id: string;
+  // URL sources, or an uploaded file already stored in R2 under `key`
+  sources?: ConvertDocumentsRequest['sources'];
+  upload?: { key: string; name: string; content_type: string };
+  options: ConvertDocumentsOptions;
+  // Client whose daily usage the converted pages and bytes count against
+  client_id?: string;
+}
+
+// Queued re-chunking and re-embedding of one stored document, tracked by a task
+interface ReprocessJob {
+  task_id: string;
+  reprocess: {
+    document_id: string;
+    vectorizer_id: string;
+    // Whether the document is linked to the vectorizer, when it was named by the request
+    link: boolean;
+  };
+}
+
+// Queued reprocessing of every stored document of a vectorizer, one page per message. Each
+// message processes the documents after `after` (by ID) and queues the next page.
+interface ReindexJob {
+  task_id: string;
+  reindex: {
+    vectorizer_id: string;
+    // Documents linked to the source vectorizer, and unlinked ones when it was the default
+    source_vectorizer_id: string;
+    include_unlinked: boolean;
+    link: boolean;
+    after: string;
+    done: number;
+    failed: number;
+    total: number;
+  };
+}
+
+// New embeddings stored along with the chunks they were made from, in the same order
+interface ChunkEmbeddings {
+  vectorizer_id: string;
+  model: string;
+  vectors: Float32Array[];
+}
+
+// Row of document_chunks; headings and page_numbers are JSON arrays
+interface ChunkRow {
+  chunk_index: number;
+  content: string;
+  token_count: number;
+  headings: string;
+  page_numbers: string;
+  start_offset: number;
+  end_offset: number;
+}
+
+interface ConvertedSources {
+  document: DoclingDocument;
+  pages: number;
+  // Source files and the images found in them, stored alongside the document
+  sources: SourceDocument[];
+  images: EmbeddedImage[];
+  // Detected input formats of the sources
+  formats: InputFormat[];
+}
+
+// Chunk matched by a search, before its text is loaded
+interface SearchMatch {
+  document_id: string;
+  chunk_index: number;
+  score: number;
 }
 
 // Environment variables and interfaces
 interface Env {
   DB: D1Database; // D1 database binding
+  FILES: R2Bucket; // R2 bucket for original files, rendered outputs and extracted images
   DOCLING_SERVE_ENABLE_UI: string;
   DOCLING_SERVE_API_HOST: string;
   DOCLING_SERVE_MAX_NUM_PAGES: string;
@@ -51,12 +233,56 @@ interface Env {
   TEMPERATURE: string;
   MAX_TOKENS: string;
   OPENAI_API_KEY: string;
+  OPENAI_BASE_URL?: string; // OpenAI-compatible API used for embeddings
+  // Queue feeding the chunk embedding consumer
+  EMBEDDING_QUEUE: Queue<EmbeddingJob>;
+  // Optional Vectorize index for /v1alpha/search; without it, embeddings are scanned in D1
+  VECTORIZE?: Vectorize;
+  // Queue feeding the background conversion consumer
+  CONVERSION_QUEUE: Queue<ConversionJob | ReprocessJob | ReindexJob>;
+  // Durable Objects pushing task status to WebSocket clients
+  TASK_STATUS: DurableObjectNamespace;
+  // Queue delivering signed callback_url notifications, and the HMAC secret they are signed with
+  WEBHOOK_QUEUE: Queue<WebhookJob>;
+  WEBHOOK_SECRET?: string;
+  // Admin API key; once set, requests need it or a key from the api_keys table
+  DOCLING_SERVE_API_KEY?: string;
+  // Comma-separated origins allowed to call the API (every origin when unset), whether they
+  // may send credentials ("true"), and how long browsers cache preflight responses
+  CORS_ALLOWED_ORIGINS?: string;
+  CORS_ALLOW_CREDENTIALS?: string;
+  CORS_MAX_AGE?: string;
+  // Requests per minute, and tasks, pages and bytes per day, allowed to each API key or client
+  // IP; unset or 0 means unlimited. API keys can override them.
+  RATE_LIMIT_PER_MINUTE?: string;
+  DAILY_TASK_QUOTA?: string;
+  DAILY_PAGE_QUOTA?: string;
+  DAILY_BYTE_QUOTA?: string;
+  // Set to "false" to apply schema migrations only with POST /v1alpha/migrations, instead of
+  // before the first request each Worker instance handles
+  DOCLING_SERVE_AUTO_MIGRATE?: string;
   // Access to static assets
   __STATIC_CONTENT: KVNamespace;
 }
 
+// Caller of a request, as identified by its API key. Documents, tasks and vectorizers are only
+// visible to the tenant that created them.
+interface RequestClient {
+  tenantId: string;
+  // Made with DOCLING_SERVE_API_KEY, or without API keys configured
+  rootKey: boolean;
+  // Whose rate limit and quotas the request counts against: "key:<id>", "root" or "ip:<address>"
+  clientId: string;
+  limits: UsageLimits;
+}
+
+// Routed request, with its client
+interface TenantRequest extends Request, RequestClient {}
+
 // Root path - serve the index.html file
-router.get('/', async (request: Request, env: Env) => {
+router.get('/', async (request: TenantRequest, env: Env) => {
+  const { tenantId } = request;
+
   // Get database stats
   interface TableStats {
     count: number;
@@ -64,7 +290,7 @@ router.get('/', async (request: Request, env: Env) => {
     lastRecord?: any;
   }
   
-  let dbStats: {
+  const dbStats: {
     documents: TableStats;
     tasks: TableStats;
     sources: TableStats;
@@ -80,11 +306,11 @@ router.get('/', async (request: Request, env: Env) => {
   
   try {
     // Query counts from each table - use first() for count queries
-    const documentsCountResult = await env.DB.prepare('SELECT COUNT(*) as count FROM documents').first<{count: number}>();
-    const tasksCountResult = await env.DB.prepare('SELECT COUNT(*) as count FROM tasks').first<{count: number}>();
-    const sourcesCountResult = await env.DB.prepare('SELECT COUNT(*) as count FROM sources').first<{count: number}>();
-    const chunksCountResult = await env.DB.prepare('SELECT COUNT(*) as count FROM file_chunks').first<{count: number}>();
-    const vectorizersCountResult = await env.DB.prepare('SELECT COUNT(*) as count FROM vectorizers').first<{count: number}>();
+    const documentsCountResult = await env.DB.prepare('SELECT COUNT(*) as count FROM documents WHERE tenant_id = ?').bind(tenantId).first<{count: number}>();
+    const tasksCountResult = await env.DB.prepare('SELECT COUNT(*) as count FROM tasks WHERE tenant_id = ?').bind(tenantId).first<{count: number}>();
+    const sourcesCountResult = await env.DB.prepare('SELECT COUNT(*) as count FROM sources WHERE tenant_id = ?').bind(tenantId).first<{count: number}>();
+    const chunksCountResult = await env.DB.prepare('SELECT COUNT(*) as count FROM file_chunks WHERE tenant_id = ?').bind(tenantId).first<{count: number}>();
+    const vectorizersCountResult = await env.DB.prepare('SELECT COUNT(*) as count FROM vectorizers WHERE tenant_id = ?').bind(tenantId).first<{count: number}>();
     
     // Make sure we properly handle null values and ensure numbers
     dbStats.documents.count = documentsCountResult?.count ? Number(documentsCountResult.count) : 0;
@@ -108,11 +334,11 @@ router.get('/', async (request: Request, env: Env) => {
     });
     
     // Get most recent created times
-    const latestDocumentResult = await env.DB.prepare('SELECT created_at FROM documents ORDER BY created_at DESC LIMIT 1').all();
-    const latestTaskResult = await env.DB.prepare('SELECT created_at FROM tasks ORDER BY created_at DESC LIMIT 1').all();
-    const latestVectorizerResult = await env.DB.prepare('SELECT created_at FROM vectorizers ORDER BY created_at DESC LIMIT 1').all();
-    const latestSourceResult = await env.DB.prepare('SELECT created_at FROM sources ORDER BY created_at DESC LIMIT 1').all();
-    const latestChunkResult = await env.DB.prepare('SELECT created_at FROM file_chunks ORDER BY created_at DESC LIMIT 1').all();
+    const latestDocumentResult = await env.DB.prepare('SELECT created_at FROM documents WHERE tenant_id = ? ORDER BY created_at DESC LIMIT 1').bind(tenantId).all();
+    const latestTaskResult = await env.DB.prepare('SELECT created_at FROM tasks WHERE tenant_id = ? ORDER BY created_at DESC LIMIT 1').bind(tenantId).all();
+    const latestVectorizerResult = await env.DB.prepare('SELECT created_at FROM vectorizers WHERE tenant_id = ? ORDER BY created_at DESC LIMIT 1').bind(tenantId).all();
+    const latestSourceResult = await env.DB.prepare('SELECT created_at FROM sources WHERE tenant_id = ? ORDER BY created_at DESC LIMIT 1').bind(tenantId).all();
+    const latestChunkResult = await env.DB.prepare('SELECT created_at FROM file_chunks WHERE tenant_id = ? ORDER BY created_at DESC LIMIT 1').bind(tenantId).all();
     
     if (latestDocumentResult?.results?.[0]?.created_at) {
       dbStats.documents.latest = String(latestDocumentResult.results[0].created_at);
@@ -136,27 +362,27 @@ router.get('/', async (request: Request, env: Env) => {
     
     // Get the latest record from each table for tooltip examples
     if (dbStats.documents.count > 0) {
-      const lastDocumentResult = await env.DB.prepare('SELECT * FROM documents ORDER BY created_at DESC LIMIT 1').all();
+      const lastDocumentResult = await env.DB.prepare('SELECT * FROM documents WHERE tenant_id = ? ORDER BY created_at DESC LIMIT 1').bind(tenantId).all();
       dbStats.documents.lastRecord = lastDocumentResult?.results?.[0] || null;
     }
     
     if (dbStats.tasks.count > 0) {
-      const lastTaskResult = await env.DB.prepare('SELECT * FROM tasks ORDER BY created_at DESC LIMIT 1').all();
+      const lastTaskResult = await env.DB.prepare('SELECT * FROM tasks WHERE tenant_id = ? ORDER BY created_at DESC LIMIT 1').bind(tenantId).all();
       dbStats.tasks.lastRecord = lastTaskResult?.results?.[0] || null;
     }
     
     if (dbStats.sources.count > 0) {
-      const lastSourceResult = await env.DB.prepare('SELECT * FROM sources ORDER BY created_at DESC LIMIT 1').all();
+      const lastSourceResult = await env.DB.prepare('SELECT * FROM sources WHERE tenant_id = ? ORDER BY created_at DESC LIMIT 1').bind(tenantId).all();
       dbStats.sources.lastRecord = lastSourceResult?.results?.[0] || null;
     }
     
     if (dbStats.file_chunks.count > 0) {
-      const lastChunkResult = await env.DB.prepare('SELECT id, document_id, chunk_index, created_at FROM file_chunks ORDER BY created_at DESC LIMIT 1').all();
+      const lastChunkResult = await env.DB.prepare('SELECT id, document_id, chunk_index, created_at FROM file_chunks WHERE tenant_id = ? ORDER BY created_at DESC LIMIT 1').bind(tenantId).all();
       dbStats.file_chunks.lastRecord = lastChunkResult?.results?.[0] || null;
     }
     
     if (dbStats.vectorizers.count > 0) {
-      const lastVectorizerResult = await env.DB.prepare('SELECT * FROM vectorizers ORDER BY created_at DESC LIMIT 1').all();
+      const lastVectorizerResult = await env.DB.prepare('SELECT * FROM vectorizers WHERE tenant_id = ? ORDER BY created_at DESC LIMIT 1').bind(tenantId).all();
       dbStats.vectorizers.lastRecord = lastVectorizerResult?.results?.[0] || null;
     }
   } catch (error) {
@@ -728,7 +954,7 @@ router.get('/', async (request: Request, env: Env) => {
                                         data.vectorizers.forEach((v, index) => {
                                             const bgColor = index % 2 === 0 ? '#f9f9f9' : '';
                                             tableHtml += '<tr style="background-color: ' + bgColor + ';">';
-                                            tableHtml += '<td style="padding: 8px; text-align: left; border: 1px solid #ddd;"><code>' + v.model_name + '</code></td>';
+                                            tableHtml += '<td style="padding: 8px; text-align: left; border: 1px solid #ddd;"><code>' + v.model_name + '</code>' + (v.is_default ? ' (default)' : '') + '</td>';
                                             tableHtml += '<td style="padding: 8px; text-align: left; border: 1px solid #ddd;">' + v.engine_type + '</td>';
                                             tableHtml += '<td style="padding: 8px; text-align: left; border: 1px solid #ddd;">' + v.chunk_size + ' tokens</td>';
                                             tableHtml += '<td style="padding: 8px; text-align: left; border: 1px solid #ddd;">' + (v.ocr_engine || 'N/A') + '</td>';
@@ -1075,7 +1301,7 @@ router.get('/', async (request: Request, env: Env) => {
 });
 
 // Health check endpoint
-router.get('/health', async (request: Request, env: Env) => {
+router.get('/health', async () => {
   const response: HealthCheckResponse = {
     status: 'healthy',
     version: '0.9.0',
@@ -1089,7 +1315,7 @@ router.get('/health', async (request: Request, env: Env) => {
 });
 
 // API readiness compatibility for OpenShift AI Workbench
-router.get('/api', async (request: Request, env: Env) => {
+router.get('/api', async () => {
   const response: HealthCheckResponse = {
     status: 'healthy',
     version: '0.9.0',
@@ -1103,7 +1329,7 @@ router.get('/api', async (request: Request, env: Env) => {
 });
 
 // Convert a document from URL(s)
-router.post('/v1alpha/convert/source', async (request: Request, env: Env) => {
+router.post('/v1alpha/convert/source', async (request: TenantRequest, env: Env) => {
   try {
     const data = await request.json() as ConvertDocumentsRequest;
     
@@ -1120,31 +1346,93 @@ router.post('/v1alpha/convert/source', async (request: Request, env: Env) => {
     // Generate IDs
     const taskId = crypto.randomUUID();
     const documentId = crypto.randomUUID();
-    
-    // Insert document record
+    const options: ConvertDocumentsOptions = data.options || {};
+
+    let outputFormats: OutputFormat[];
+    let callbackUrl: string | undefined;
+    try {
+      outputFormats = resolveOutputFormats(options);
+      callbackUrl = validateCallbackUrl(data.callback_url, env.WEBHOOK_SECRET);
+    } catch (error) {
+      return new Response(JSON.stringify({
+        error: (error as Error).message
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    let vectorizer: VectorizerRow | null;
+    try {
+      vectorizer = await conversionVectorizer(env, request.tenantId, data.vectorizer_id, options.model, options.ocr_engine);
+    } catch (error) {
+      return new Response(JSON.stringify({
+        error: (error as Error).message
+      }), {
+        status: error instanceof ConversionError ? error.status : 500,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    let converted: ConvertedSources;
+    try {
+      converted = await convertSources(env, data.sources, options);
+    } catch (error) {
+      const status = error instanceof ConversionError ? error.status : 500;
+      const message = (error as Error).message;
+
+      await env.DB.prepare(
+        `INSERT INTO tasks (id, status, message, error, callback_url, tenant_id) 
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .bind(taskId, 'failed', 'Document conversion failed', message, callbackUrl ?? null, request.tenantId)
+      .run();
+      await queueTaskWebhook(env, taskId);
+
+      const response: ConvertDocumentResponse = {
+        task_id: taskId,
+        status: 'failed',
+        message: 'Document conversion failed',
+        error: message
+      };
+
+      return new Response(JSON.stringify(response), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { document, pages } = converted;
+    const format = outputFormats.join(',');
+
+    // Insert document record, then store its content and files
     await env.DB.prepare(
-      `INSERT INTO documents (id, name, format, pages, content) 
-       VALUES (?, ?, ?, ?, ?)`
+      `INSERT INTO documents (id, name, format, pages, vectorizer_id, tenant_id) 
+       VALUES (?, ?, ?, ?, ?, ?)`
     )
-    .bind(documentId, 'url-document', 'json', data.sources.length, JSON.stringify({source: 'url'}))
+    .bind(documentId, document.name, format, pages, vectorizer?.id ?? null, request.tenantId)
     .run();
+
+    const fileKeys = await storeDocument(env, documentId, converted, outputFormats);
+    await recordUsage(env, request.clientId, conversionUsage(converted));
     
     // Insert task record
     await env.DB.prepare(
-      `INSERT INTO tasks (id, status, document_id, message) 
-       VALUES (?, ?, ?, ?)`
+      `INSERT INTO tasks (id, status, document_id, message, progress, callback_url, tenant_id) 
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
     )
-    .bind(taskId, 'completed', documentId, 'Document conversion started')
+    .bind(taskId, 'completed', documentId, 'Document converted successfully', 1, callbackUrl ?? null, request.tenantId)
     .run();
+    await queueTaskWebhook(env, taskId);
     
     // Insert source records
     for (const source of data.sources) {
       const sourceUrl = typeof source === 'string' ? source : source.url;
       await env.DB.prepare(
-        `INSERT INTO sources (document_id, url) 
-         VALUES (?, ?)`
+        `INSERT INTO sources (document_id, url, tenant_id) 
+         VALUES (?, ?, ?)`
       )
-      .bind(documentId, sourceUrl)
+      .bind(documentId, sourceUrl, request.tenantId)
       .run();
     }
 
@@ -1152,11 +1440,14 @@ router.post('/v1alpha/convert/source', async (request: Request, env: Env) => {
     const response: ConvertDocumentResponse = {
       task_id: taskId,
       status: 'completed',
-      message: 'Document conversion started',
+      message: 'Document converted successfully',
+      progress: 1,
       result: {
         document_id: documentId,
-        pages: data.sources.length,
-        format: 'json'
+        pages,
+        format,
+        content: renderOutputs(document, outputFormats),
+        file_keys: fileKeys
       }
     };
 
@@ -1175,23 +1466,11 @@ router.post('/v1alpha/convert/source', async (request: Request, env: Env) => {
 });
 
 // File upload processing endpoint
-router.post('/v1alpha/convert/file', async (request: Request, env: Env) => {
+router.post('/v1alpha/convert/file', async (request: TenantRequest, env: Env) => {
   try {
     const formData = await request.formData();
     const files = formData.getAll('file');
-    
-    // Extract options from formData
-    const options: ConvertDocumentsOptions = {
-      format: formData.get('format') as string || 'json',
-      keep_image: formData.get('keep_image') === 'true',
-      orientation_detection: formData.get('orientation_detection') === 'true',
-      enable_ocr: formData.get('enable_ocr') === 'true',
-      ocr_engine: formData.get('ocr_engine') as string || 'easyocr',
-      max_pages: parseInt(formData.get('max_pages') as string || '0', 10) || parseInt(env.DOCLING_SERVE_MAX_NUM_PAGES, 10),
-    };
-    
-    // Get the model to use for vectorization
-    const modelName = formData.get('model') as string || env.DEFAULT_MODEL || 'gpt-4o-mini';
+    const options = formOptions(formData);
     
     if (!files || files.length === 0) {
       return new Response(JSON.stringify({
@@ -1218,92 +1497,45 @@ router.post('/v1alpha/convert/file', async (request: Request, env: Env) => {
     const taskId = crypto.randomUUID();
     const documentId = crypto.randomUUID();
 
-    // Process the file
-    const fileName = file.name;
+    // Process the file through the same extraction path as URL sources
+    const outputFormats = resolveOutputFormats(options);
+    const callbackUrl = validateCallbackUrl(formData.get('callback_url') as string || undefined, env.WEBHOOK_SECRET);
+    // The vectorizer, whose settings decide how the document is chunked, is named by ID or model
+    const vectorizer = await conversionVectorizer(
+      env,
+      request.tenantId,
+      formData.get('vectorizer_id') as string || undefined,
+      formData.get('model') as string || undefined,
+      options.ocr_engine
+    );
+    const fileData = await file.arrayBuffer();
+    const converted = await convertDocuments(env, [{
+      name: file.name,
+      contentType: detectContentType(file.name, file.type, fileData),
+      data: fileData,
+    }], options);
+    const { document, pages } = converted;
     
-    // Read the file content as text (for small files)
-    // In a real implementation, you might handle different file types differently
-    const contentText = await file.text();
-    
-    // Insert document record
+    // Insert document record, then store its content and files
     await env.DB.prepare(
-      `INSERT INTO documents (id, name, format, pages, content) 
-       VALUES (?, ?, ?, ?, ?)`
+      `INSERT INTO documents (id, name, format, pages, vectorizer_id, tenant_id) 
+       VALUES (?, ?, ?, ?, ?, ?)`
     )
-    .bind(documentId, fileName, options.format || 'json', files.length, contentText.length <= CHUNK_SIZE_TOKENS ? contentText : null)
+    .bind(documentId, file.name, outputFormats.join(','), pages, vectorizer?.id ?? null, request.tenantId)
     .run();
     
-    // For larger content, store in chunks
-    if (contentText.length > CHUNK_SIZE_TOKENS) {
-      // Use CHUNK_SIZE_TOKENS as a rough character estimate since we don't have actual token counting here
-      const chunks = Math.ceil(contentText.length / CHUNK_SIZE_TOKENS);
-      
-      for (let i = 0; i < chunks; i++) {
-        const start = i * CHUNK_SIZE_TOKENS;
-        const end = Math.min((i + 1) * CHUNK_SIZE_TOKENS, contentText.length);
-        const chunk = contentText.substring(start, end);
-        
-        await env.DB.prepare(
-          `INSERT INTO file_chunks (document_id, chunk_index, content) 
-           VALUES (?, ?, ?)`
-        )
-        .bind(documentId, i, chunk)
-        .run();
-      }
-    }
+    const fileKeys = await storeDocument(env, documentId, converted, outputFormats);
+    await recordUsage(env, request.clientId, conversionUsage(converted));
     
     // Insert task record
     await env.DB.prepare(
-      `INSERT INTO tasks (id, status, document_id, message) 
-       VALUES (?, ?, ?, ?)`
+      `INSERT INTO tasks (id, status, document_id, message, callback_url, tenant_id) 
+       VALUES (?, ?, ?, ?, ?, ?)`
     )
-    .bind(taskId, 'completed', documentId, 'Files processed successfully')
+    .bind(taskId, 'completed', documentId, 'Files processed successfully', callbackUrl ?? null, request.tenantId)
     .run();
+    await queueTaskWebhook(env, taskId);
     
-    // Check if we need to create a vectorizer record for this model
-    const existingVectorizer = await env.DB.prepare(
-      `SELECT id FROM vectorizers WHERE model_name = ?`
-    )
-    .bind(modelName)
-    .first();
-    
-    let vectorizerId;
-    
-    if (existingVectorizer) {
-      vectorizerId = existingVectorizer.id;
-    } else {
-      // Create a new vectorizer record
-      vectorizerId = crypto.randomUUID();
-      const defaultParameters = {
-        chunk_overlap: 200,
-        max_tokens: 8192,
-        token_encoding: 'cl100k_base',
-        enable_summarization: true,
-        enable_metadata_extraction: true
-      };
-      
-      await env.DB.prepare(
-        `INSERT INTO vectorizers (id, model_name, engine_type, chunk_size, ocr_engine, parameters) 
-         VALUES (?, ?, ?, ?, ?, ?)`
-      )
-      .bind(
-        vectorizerId,
-        modelName,
-        'openai',
-        CHUNK_SIZE_TOKENS,
-        options.ocr_engine || 'easyocr',
-        JSON.stringify(defaultParameters)
-      )
-      .run();
-    }
-    
-    // Link the document to the vectorizer
-    await env.DB.prepare(
-      `UPDATE documents SET vectorizer_id = ? WHERE id = ?`
-    )
-    .bind(vectorizerId, documentId)
-    .run();
-
     // Response
     const response: ConvertDocumentResponse = {
       task_id: taskId,
@@ -1311,8 +1543,10 @@ router.post('/v1alpha/convert/file', async (request: Request, env: Env) => {
       message: 'Files processed successfully',
       result: {
         document_id: documentId,
-        pages: files.length,
-        format: options.format || 'json'
+        pages,
+        format: outputFormats.join(','),
+        content: renderOutputs(document, outputFormats),
+        file_keys: fileKeys
       }
     };
 
@@ -1324,14 +1558,103 @@ router.post('/v1alpha/convert/file', async (request: Request, env: Env) => {
       error: 'Failed to process files',
       message: (error as Error).message
     }), {
-      status: 500,
+      status: error instanceof ConversionError ? error.status : 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Async file upload endpoint: the upload is stored in R2 and converted by the queue consumer
+router.post('/v1alpha/convert/file/async', async (request: TenantRequest, env: Env) => {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') {
+      return new Response(JSON.stringify({
+        error: 'No files provided'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const maxFileSize = parseInt(env.DOCLING_SERVE_MAX_FILE_SIZE || '0', 10);
+    if (maxFileSize > 0 && file.size > maxFileSize) {
+      return new Response(JSON.stringify({
+        error: `File size exceeds the maximum file size of ${maxFileSize} bytes`
+      }), {
+        status: 413,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const options = formOptions(formData);
+    const outputFormats = resolveOutputFormats(options);
+    const callbackUrl = validateCallbackUrl(formData.get('callback_url') as string || undefined, env.WEBHOOK_SECRET);
+    const vectorizer = await conversionVectorizer(
+      env,
+      request.tenantId,
+      formData.get('vectorizer_id') as string || undefined,
+      formData.get('model') as string || undefined,
+      options.ocr_engine
+    );
+
+    const taskId = crypto.randomUUID();
+    const documentId = crypto.randomUUID();
+
+    await env.DB.prepare(
+      `INSERT INTO documents (id, name, format, pages, vectorizer_id, tenant_id) 
+       VALUES (?, ?, ?, ?, ?, ?)`
+    )
+    .bind(documentId, file.name, outputFormats.join(','), 0, vectorizer?.id ?? null, request.tenantId)
+    .run();
+
+    await env.DB.prepare(
+      `INSERT INTO tasks (id, status, document_id, message, callback_url, tenant_id) 
+       VALUES (?, ?, ?, ?, ?, ?)`
+    )
+    .bind(taskId, 'pending', documentId, 'Document conversion queued', callbackUrl ?? null, request.tenantId)
+    .run();
+
+    // The upload is kept as the document's original file. The task fails, notifying its
+    // callback_url, if the upload cannot be stored or the conversion queued.
+    try {
+      const original = await putFile(env.FILES, originalKey(documentId, 0, file.name), 'original', await file.arrayBuffer(), file.type || 'application/octet-stream');
+      await recordFile(env, documentId, original);
+      await env.CONVERSION_QUEUE.send({
+        task_id: taskId,
+        document_id: documentId,
+        upload: { key: original.key, name: file.name, content_type: file.type },
+        options,
+        client_id: request.clientId,
+      });
+    } catch (error) {
+      await updateTask(env, taskId, { status: 'failed', message: 'Document conversion could not be queued', error: (error as Error).message });
+      throw error;
+    }
+
+    const response: TaskStatusResponse = {
+      task_id: taskId,
+      status: 'pending',
+      message: 'Document conversion queued'
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to process files',
+      message: (error as Error).message
+    }), {
+      status: error instanceof ConversionError ? error.status : 500,
       headers: { 'Content-Type': 'application/json' }
     });
   }
 });
 
 // Async conversion endpoint
-router.post('/v1alpha/convert/source/async', async (request: Request, env: Env) => {
+router.post('/v1alpha/convert/source/async', async (request: TenantRequest, env: Env) => {
   try {
     const data = await request.json() as ConvertDocumentsRequest;
     
@@ -1344,77 +1667,57 @@ router.post('/v1alpha/convert/source/async', async (request: Request, env: Env)
       });
     }
 
+    const outputFormats = resolveOutputFormats(data.options || {});
+    const callbackUrl = validateCallbackUrl(data.callback_url, env.WEBHOOK_SECRET);
+
     // Generate IDs
     const taskId = crypto.randomUUID();
     const documentId = crypto.randomUUID();
     
-    // Get model name from options or use default
-    const modelName = data.options?.model as string || env.DEFAULT_MODEL || 'gpt-4o-mini';
-    
-    // Check if we need to create a vectorizer record for this model
-    const existingVectorizer = await env.DB.prepare(
-      `SELECT id FROM vectorizers WHERE model_name = ?`
-    )
-    .bind(modelName)
-    .first();
-    
-    let vectorizerId;
-    
-    if (existingVectorizer) {
-      vectorizerId = existingVectorizer.id;
-    } else {
-      // Create a new vectorizer record
-      vectorizerId = crypto.randomUUID();
-      const defaultParameters = {
-        chunk_overlap: 200,
-        max_tokens: 8192,
-        token_encoding: 'cl100k_base',
-        enable_summarization: true,
-        enable_metadata_extraction: true
-      };
-      
-      await env.DB.prepare(
-        `INSERT INTO vectorizers (id, model_name, engine_type, chunk_size, ocr_engine, parameters) 
-         VALUES (?, ?, ?, ?, ?, ?)`
-      )
-      .bind(
-        vectorizerId,
-        modelName,
-        'openai',
-        CHUNK_SIZE_TOKENS,
-        data.options?.ocr_engine as string || 'easyocr',
-        JSON.stringify(defaultParameters)
-      )
-      .run();
-    }
+    // Vectorizer named by ID or by the model in the options
+    const vectorizer = await conversionVectorizer(env, request.tenantId, data.vectorizer_id, data.options?.model, data.options?.ocr_engine);
     
     // Insert document record with vectorizer reference
     await env.DB.prepare(
-      `INSERT INTO documents (id, name, format, pages, vectorizer_id) 
-       VALUES (?, ?, ?, ?, ?)`
+      `INSERT INTO documents (id, name, format, pages, vectorizer_id, tenant_id) 
+       VALUES (?, ?, ?, ?, ?, ?)`
     )
-    .bind(documentId, 'async-document', 'json', data.sources.length, vectorizerId)
+    .bind(documentId, 'async-document', outputFormats.join(','), data.sources.length, vectorizer?.id ?? null, request.tenantId)
     .run();
     
     // Insert task record as pending
     await env.DB.prepare(
-      `INSERT INTO tasks (id, status, document_id, message) 
-       VALUES (?, ?, ?, ?)`
+      `INSERT INTO tasks (id, status, document_id, message, callback_url, tenant_id) 
+       VALUES (?, ?, ?, ?, ?, ?)`
     )
-    .bind(taskId, 'pending', documentId, 'Document conversion queued')
+    .bind(taskId, 'pending', documentId, 'Document conversion queued', callbackUrl ?? null, request.tenantId)
     .run();
     
     // Insert source records
     for (const source of data.sources) {
       const sourceUrl = typeof source === 'string' ? source : source.url;
       await env.DB.prepare(
-        `INSERT INTO sources (document_id, url) 
-         VALUES (?, ?)`
+        `INSERT INTO sources (document_id, url, tenant_id) 
+         VALUES (?, ?, ?)`
       )
-      .bind(documentId, sourceUrl)
+      .bind(documentId, sourceUrl, request.tenantId)
       .run();
     }
 
+    // Hand the conversion to the queue consumer
+    try {
+      await env.CONVERSION_QUEUE.send({
+        task_id: taskId,
+        document_id: documentId,
+        sources: data.sources,
+        options: data.options || {},
+        client_id: request.clientId,
+      });
+    } catch (error) {
+      await updateTask(env, taskId, { status: 'failed', message: 'Document conversion could not be queued', error: (error as Error).message });
+      throw error;
+    }
+
     const response: TaskStatusResponse = {
       task_id: taskId,
       status: 'pending',
@@ -1429,14 +1732,14 @@ router.post('/v1alpha/convert/source/async', async (request: Request, env: Env)
       error: 'Failed to process request',
       message: (error as Error).message
     }), {
-      status: 500,
+      status: error instanceof ConversionError ? error.status : 500,
       headers: { 'Content-Type': 'application/json' }
     });
   }
 });
 
 // Task status polling endpoint
-router.get('/v1alpha/status/poll/:taskId', async (request: Request, env: Env) => {
+router.get('/v1alpha/status/poll/:taskId', async (request: TenantRequest, env: Env) => {
   try {
     // Extract taskId from URL using itty-router pattern
     // Note: Update to use URLPattern API
@@ -1452,13 +1755,19 @@ router.get('/v1alpha/status/poll/:taskId', async (request: Request, env: Env) =>
       });
     }
     
+    // Optional long poll: hold the request until the task changes or `wait` seconds pass
+    const wait = parseFloat(url.searchParams.get('wait') || '0');
+    if (!Number.isFinite(wait) || wait < 0) {
+      return new Response(JSON.stringify({
+        error: 'wait must be a non-negative number of seconds'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
     // Query task from DB
-    const taskResult = await env.DB.prepare(
-      `SELECT id, status, message, progress, error
-       FROM tasks WHERE id = ?`
-    )
-    .bind(taskId)
-    .first<TaskResult>();
+    let taskResult = await readTask(env, taskId, request.tenantId);
     
     if (!taskResult) {
       return new Response(JSON.stringify({
@@ -1468,6 +1777,14 @@ router.get('/v1alpha/status/poll/:taskId', async (request: Request, env: Env) =>
         headers: { 'Content-Type': 'application/json' }
       });
     }
+
+    if (wait > 0 && taskResult.status !== 'completed' && taskResult.status !== 'failed') {
+      const waitUrl = new URL(`https://task-status/wait/${taskId}`);
+      waitUrl.searchParams.set('timeout', String(Math.round(Math.min(wait, MAX_POLL_WAIT_SECONDS) * 1000)));
+      waitUrl.searchParams.set('state', taskState(taskResult));
+      await env.TASK_STATUS.get(env.TASK_STATUS.idFromName(taskId)).fetch(waitUrl.toString());
+      taskResult = await readTask(env, taskId, request.tenantId) || taskResult;
+    }
     
     const response: TaskStatusResponse = {
       task_id: taskResult.id,
@@ -1492,7 +1809,7 @@ router.get('/v1alpha/status/poll/:taskId', async (request: Request, env: Env) =>
 });
 
 // Get task result endpoint
-router.get('/v1alpha/result/:taskId', async (request: Request, env: Env) => {
+router.get('/v1alpha/result/:taskId', async (request: TenantRequest, env: Env) => {
   try {
     // Extract taskId from URL using URLPattern API
     const url = new URL(request.url);
@@ -1507,18 +1824,8 @@ router.get('/v1alpha/result/:taskId', async (request: Request, env: Env) => {
       });
     }
     
-    // Query task and document from DB
-    const task = await env.DB.prepare(
-      `SELECT t.id as task_id, t.status, t.message, t.progress, t.error, 
-              d.id as document_id, d.name, d.format, d.pages, d.content
-       FROM tasks t
-       JOIN documents d ON t.document_id = d.id
-       WHERE t.id = ?`
-    )
-    .bind(taskId)
-    .first<DocumentResult>();
-    
-    if (!task) {
+    const response = await loadTaskResult(env, taskId, request.tenantId);
+    if (!response) {
       return new Response(JSON.stringify({
         error: 'Task or document not found'
       }), {
@@ -1526,37 +1833,6 @@ router.get('/v1alpha/result/:taskId', async (request: Request, env: Env) => {
         headers: { 'Content-Type': 'application/json' }
       });
     }
-    
-    let content = task.content;
-    
-    // If content is null, try to fetch from chunks
-    if (!content && task.document_id) {
-      const chunks = await env.DB.prepare(
-        `SELECT content FROM file_chunks 
-         WHERE document_id = ? 
-         ORDER BY chunk_index ASC`
-      )
-      .bind(task.document_id)
-      .all();
-      
-      if (chunks.results.length > 0) {
-        content = chunks.results.map((chunk: any) => chunk.content as string).join('');
-      }
-    }
-    
-    const response: ConvertDocumentResponse = {
-      task_id: task.task_id,
-      status: task.status,
-      message: task.message,
-      progress: task.progress,
-      error: task.error,
-      result: {
-        document_id: task.document_id,
-        pages: task.pages,
-        format: task.format,
-        content: content ? { text: content } : undefined
-      }
-    };
 
     return new Response(JSON.stringify(response), {
       headers: { 'Content-Type': 'application/json' }
@@ -1572,60 +1848,43 @@ router.get('/v1alpha/result/:taskId', async (request: Request, env: Env) => {
   }
 });
 
-// Callback for progress updates
-router.post('/v1alpha/callback/task/progress', async (request: Request, env: Env) => {
+// Stored file download: originals, rendered outputs and extracted images listed in file_keys
+router.get(`${FILES_PATH}*`, async (request: TenantRequest, env: Env) => {
   try {
-    const data = await request.json() as ProgressCallbackRequest;
-    
-    if (!data.task_id || data.progress === undefined) {
-      return new Response(JSON.stringify({
-        error: 'Invalid progress data'
-      }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
+    const key = decodeURIComponent(new URL(request.url).pathname.slice(FILES_PATH.length));
 
-    // Update task progress in DB
-    const updateResult = await env.DB.prepare(
-      `UPDATE tasks 
-       SET progress = ?, 
-           message = COALESCE(?, message),
-           error = COALESCE(?, error),
-           status = COALESCE(?, status),
-           updated_at = CURRENT_TIMESTAMP
-       WHERE id = ?`
-    )
-    .bind(
-      data.progress,
-      data.message || null,
-      data.error || null,
-      data.status || null,
-      data.task_id
+    // Only keys recorded for a document are served
+    const file = await env.DB.prepare(
+      `SELECT f.content_type FROM files f 
+       JOIN documents d ON f.document_id = d.id 
+       WHERE f.key = ? AND d.tenant_id = ?`
     )
-    .run();
-    
-    if (updateResult.meta.changes === 0) {
+    .bind(key, request.tenantId)
+    .first<{ content_type: string }>();
+    const object = file ? await env.FILES.get(key) : null;
+    if (!file || !object) {
       return new Response(JSON.stringify({
-        error: 'Task not found'
+        error: 'File not found'
       }), {
         status: 404,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    const response: ProgressCallbackResponse = {
-      success: true,
-      task_id: data.task_id,
-      progress: data.progress
-    };
-
-    return new Response(JSON.stringify(response), {
-      headers: { 'Content-Type': 'application/json' }
+    // Uploads and rendered HTML could hold script, so files are downloaded rather than shown
+    // on this origin; images embedded with <img> still display
+    return new Response(object.body, {
+      headers: {
+        'Content-Type': file.content_type,
+        'Content-Length': String(object.size),
+        'Content-Disposition': attachmentDisposition(key),
+        'X-Content-Type-Options': 'nosniff',
+        'ETag': object.httpEtag,
+      }
     });
   } catch (error) {
     return new Response(JSON.stringify({
-      error: 'Failed to update progress',
+      error: 'Failed to get file',
       message: (error as Error).message
     }), {
       status: 500,
@@ -1634,39 +1893,1120 @@ router.post('/v1alpha/callback/task/progress', async (request: Request, env: Env
   }
 });
 
-// Vectorizers list endpoint
-router.get('/v1alpha/vectorizers', async (request: Request, env: Env) => {
-  try {
-    const vectorizers = await env.DB.prepare(
-      'SELECT * FROM vectorizers ORDER BY created_at DESC'
-    ).all();
-    
-    return new Response(JSON.stringify({ vectorizers: vectorizers.results }), {
-      headers: {
-        'Content-Type': 'application/json'
-      }
-    });
-  } catch (error) {
-    console.error('Error fetching vectorizers:', error);
-    return new Response(JSON.stringify({ error: 'Error fetching vectorizers' }), {
-      status: 500,
-      headers: {
-        'Content-Type': 'application/json'
-      }
+// Task status stream: the task's Durable Object accepts the socket and pushes a
+// WebsocketMessage on every status or progress change
+router.get('/v1alpha/status/ws/:taskId', async (request: TenantRequest, env: Env) => {
+  const taskId = new URL(request.url).pathname.split('/').pop();
+  if (request.headers.get('Upgrade') !== 'websocket') {
+    return new Response(JSON.stringify({
+      error: 'Expected a WebSocket upgrade request'
+    }), {
+      status: 426,
+      headers: { 'Content-Type': 'application/json', 'Upgrade': 'websocket' }
     });
   }
-});
 
-// Add endpoint to fetch table data
-router.get('/v1alpha/table/:tableName', async (request: Request, env: Env) => {
-  try {
+  const task = taskId
+    ? await env.DB.prepare('SELECT id FROM tasks WHERE id = ? AND tenant_id = ?').bind(taskId, request.tenantId).first()
+    : null;
+  if (!taskId || !task) {
+    return new Response(JSON.stringify({
+      error: 'Task not found'
+    }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  return env.TASK_STATUS.get(env.TASK_STATUS.idFromName(taskId)).fetch(request);
+});
+
+// Token for opening the task status WebSocket as `?token=<token>`, for browsers, which
+// cannot send an API key with the upgrade request
+router.post('/v1alpha/status/ws/:taskId/token', async (request: TenantRequest, env: Env) => {
+  try {
+    const taskId = new URL(request.url).pathname.split('/')[4];
+    if (!env.DOCLING_SERVE_API_KEY) {
+      return new Response(JSON.stringify({
+        error: 'Task tokens are only needed once DOCLING_SERVE_API_KEY is set'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const task = await env.DB.prepare('SELECT id FROM tasks WHERE id = ? AND tenant_id = ?').bind(taskId, request.tenantId).first();
+    if (!task) {
+      return new Response(JSON.stringify({
+        error: 'Task not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const exp = Math.floor(Date.now() / 1000) + TASK_TOKEN_TTL_SECONDS;
+    const response: TaskTokenResponse = {
+      token: await createTaskToken(env.DOCLING_SERVE_API_KEY, { task_id: taskId, tenant_id: request.tenantId, client_id: request.clientId, exp }),
+      expires_at: new Date(exp * 1000).toISOString(),
+    };
+    return new Response(JSON.stringify(response), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to create task token',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Callback for progress updates
+router.post('/v1alpha/callback/task/progress', async (request: TenantRequest, env: Env) => {
+  try {
+    const data = await request.json() as ProgressCallbackRequest;
+    
+    if (!data.task_id || data.progress === undefined) {
+      return new Response(JSON.stringify({
+        error: 'Invalid progress data'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Update task progress in DB
+    const updateResult = await env.DB.prepare(
+      `UPDATE tasks 
+       SET progress = ?, 
+           message = COALESCE(?, message),
+           error = COALESCE(?, error),
+           status = COALESCE(?, status),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND tenant_id = ?`
+    )
+    .bind(
+      data.progress,
+      data.message || null,
+      data.error || null,
+      data.status || null,
+      data.task_id,
+      request.tenantId
+    )
+    .run();
+    
+    if (updateResult.meta.changes === 0) {
+      return new Response(JSON.stringify({
+        error: 'Task not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    await notifyTaskStatus(env, data.task_id);
+    if (data.status === 'completed' || data.status === 'failed') {
+      await queueTaskWebhook(env, data.task_id);
+    }
+
+    const response: ProgressCallbackResponse = {
+      success: true,
+      task_id: data.task_id,
+      progress: data.progress
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to update progress',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Stored documents, newest first, with cursor pagination
+router.get('/v1alpha/documents', async (request: TenantRequest, env: Env) => {
+  try {
+    const url = new URL(request.url);
+    const limit = Number(url.searchParams.get('limit') || DEFAULT_PAGE_SIZE);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return new Response(JSON.stringify({
+        error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    let filters: { sql: string; params: (string | number)[] };
+    try {
+      filters = documentListFilters({ ...parseDocumentListQuery(url.searchParams), tenantId: request.tenantId });
+    } catch (error) {
+      return new Response(JSON.stringify({
+        error: (error as Error).message
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // One extra row tells whether there is a next page
+    const rows = await env.DB.prepare(
+      `SELECT ${DOCUMENT_COLUMNS} 
+       FROM documents d 
+       WHERE 1 = 1${filters.sql} 
+       ORDER BY d.created_at DESC, d.id DESC 
+       LIMIT ?`
+    )
+    .bind(...filters.params, limit + 1)
+    .all<DocumentInfo>();
+    const documents = rows.results.slice(0, limit);
+
+    const response: DocumentListResponse = {
+      documents,
+      next_cursor: rows.results.length > limit ? encodeCursor(documents[documents.length - 1]) : null
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to list documents',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Document metadata with its sources and stored files
+router.get('/v1alpha/documents/:documentId', async (request: TenantRequest, env: Env) => {
+  try {
+    const documentId = new URL(request.url).pathname.split('/')[3];
+    const document = await readDocumentInfo(env, documentId, request.tenantId);
+    if (!document) {
+      return new Response(JSON.stringify({
+        error: 'Document not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const [sources, chunks] = await env.DB.batch([
+      env.DB.prepare('SELECT url FROM sources WHERE document_id = ? ORDER BY id').bind(documentId),
+      env.DB.prepare('SELECT COUNT(*) as count FROM document_chunks WHERE document_id = ?').bind(documentId),
+    ]);
+
+    const response: DocumentDetailsResponse = {
+      ...document,
+      sources: (sources.results as { url: string }[]).map(source => source.url),
+      file_keys: await documentFileKeys(env, documentId),
+      chunk_count: (chunks.results[0] as { count: number } | undefined)?.count || 0
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to get document',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Document content in one output format (?format=, Markdown by default). The rendering
+// stored at conversion time is served when there is one.
+router.get('/v1alpha/documents/:documentId/content', async (request: TenantRequest, env: Env) => {
+  try {
+    const url = new URL(request.url);
+    const documentId = url.pathname.split('/')[3];
+    const [format] = resolveOutputFormats({ format: url.searchParams.get('format') || undefined });
+    if (!await readDocumentInfo(env, documentId, request.tenantId)) {
+      throw new ConversionError(`Document ${documentId} not found`, 404);
+    }
+
+    let content = await readText(env.FILES, outputKey(documentId, format));
+    if (content === undefined) {
+      const rendered = renderOutputs(await readStoredDocument(env, documentId), [format]);
+      content = format === OutputFormat.JSON ? JSON.stringify(rendered.json) : rendered[format];
+    }
+
+    return new Response(content, {
+      headers: { 'Content-Type': outputContentType(format) }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to get document content',
+      message: (error as Error).message
+    }), {
+      status: error instanceof ConversionError ? error.status : 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Rename a document; keyword search picks up the new name
+router.patch('/v1alpha/documents/:documentId', async (request: TenantRequest, env: Env) => {
+  try {
+    const documentId = new URL(request.url).pathname.split('/')[3];
+    let name: string;
+    try {
+      const data = await request.json() as DocumentUpdateRequest;
+      name = typeof data?.name === 'string' ? data.name.trim() : '';
+    } catch {
+      return new Response(JSON.stringify({
+        error: 'Invalid JSON body'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    if (!name || name.length > MAX_DOCUMENT_NAME_LENGTH) {
+      return new Response(JSON.stringify({
+        error: `name must be a non-empty string of at most ${MAX_DOCUMENT_NAME_LENGTH} characters`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    await env.DB.prepare('UPDATE documents SET name = ? WHERE id = ? AND tenant_id = ?').bind(name, documentId, request.tenantId).run();
+    const document = await readDocumentInfo(env, documentId, request.tenantId);
+    if (!document) {
+      return new Response(JSON.stringify({
+        error: 'Document not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify(document), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to update document',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Delete a document with its sources, chunks, embeddings, tasks and stored files. Documents
+// whose conversion or reprocessing is still running cannot be deleted.
+router.delete('/v1alpha/documents/:documentId', async (request: TenantRequest, env: Env) => {
+  try {
+    const documentId = new URL(request.url).pathname.split('/')[3];
+    const document = await readDocumentInfo(env, documentId, request.tenantId);
+    if (!document) {
+      return new Response(JSON.stringify({
+        error: 'Document not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const running = await env.DB.prepare(
+      "SELECT id FROM tasks WHERE document_id = ? AND status IN ('pending', 'processing') LIMIT 1"
+    )
+    .bind(documentId)
+    .first<{ id: string }>();
+    if (running) {
+      return new Response(JSON.stringify({
+        error: `Task ${running.id} is still running for this document; delete it once the task has finished`
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Stored objects and vectors go first, so that a failed delete can be retried
+    await deleteVectors(env, env.VECTORIZE ? await embeddingIds(env, 'document_id = ?', documentId) : []);
+    await deleteDocumentFiles(env, documentId);
+    await env.DB.batch([
+      env.DB.prepare('DELETE FROM webhook_deliveries WHERE task_id IN (SELECT id FROM tasks WHERE document_id = ?)').bind(documentId),
+      env.DB.prepare('DELETE FROM tasks WHERE document_id = ?').bind(documentId),
+      env.DB.prepare('DELETE FROM chunk_embeddings WHERE document_id = ?').bind(documentId),
+      env.DB.prepare('DELETE FROM document_chunks WHERE document_id = ?').bind(documentId),
+      env.DB.prepare('DELETE FROM sources WHERE document_id = ?').bind(documentId),
+      env.DB.prepare('DELETE FROM file_chunks WHERE document_id = ?').bind(documentId),
+      env.DB.prepare('DELETE FROM files WHERE document_id = ?').bind(documentId),
+      env.DB.prepare('DELETE FROM documents WHERE id = ?').bind(documentId),
+    ]);
+
+    return new Response(JSON.stringify({ id: documentId, deleted: true }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to delete document',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Chunks of a converted document, in reading order
+router.get('/v1alpha/documents/:documentId/chunks', async (request: TenantRequest, env: Env) => {
+  try {
+    const url = new URL(request.url);
+    const documentId = url.pathname.split('/')[3];
+    const limit = Number(url.searchParams.get('limit') || DEFAULT_PAGE_SIZE);
+    const offset = Number(url.searchParams.get('offset') || 0);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE || !Number.isInteger(offset) || offset < 0) {
+      return new Response(JSON.stringify({
+        error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}, and offset a non-negative integer`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const document = await env.DB.prepare('SELECT id FROM documents WHERE id = ? AND tenant_id = ?').bind(documentId, request.tenantId).first();
+    if (!document) {
+      return new Response(JSON.stringify({
+        error: 'Document not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const chunks = await env.DB.prepare(
+      `SELECT chunk_index, content, token_count, headings, page_numbers, start_offset, end_offset 
+       FROM document_chunks 
+       WHERE document_id = ? 
+       ORDER BY chunk_index ASC 
+       LIMIT ? OFFSET ?`
+    )
+    .bind(documentId, limit, offset)
+    .all<ChunkRow>();
+    const count = await env.DB.prepare('SELECT COUNT(*) as count FROM document_chunks WHERE document_id = ?')
+      .bind(documentId)
+      .first<{ count: number }>();
+
+    const response: DocumentChunksResponse = {
+      document_id: documentId,
+      chunks: chunks.results.map(chunk => ({
+        chunk_index: chunk.chunk_index,
+        text: chunk.content,
+        token_count: chunk.token_count,
+        headings: JSON.parse(chunk.headings),
+        page_numbers: JSON.parse(chunk.page_numbers),
+        start_offset: chunk.start_offset,
+        end_offset: chunk.end_offset,
+      })),
+      total: count?.count || 0,
+      limit,
+      offset
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to get document chunks',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Re-chunk and re-embed a stored document, with another vectorizer when one is named
+router.post('/v1alpha/documents/:documentId/reprocess', async (request: TenantRequest, env: Env) => {
+  try {
+    const documentId = new URL(request.url).pathname.split('/')[3];
+    let data: { vectorizer_id?: string };
+    try {
+      const body = await request.text();
+      data = body ? JSON.parse(body) : {};
+    } catch {
+      return new Response(JSON.stringify({
+        error: 'Invalid JSON body'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const document = await env.DB.prepare('SELECT id FROM documents WHERE id = ? AND tenant_id = ?').bind(documentId, request.tenantId).first();
+    if (!document) {
+      return new Response(JSON.stringify({
+        error: 'Document not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const vectorizer = data.vectorizer_id
+      ? await readVectorizer(env, data.vectorizer_id, request.tenantId)
+      : await documentVectorizer(env, documentId);
+    if (!vectorizer) {
+      return new Response(JSON.stringify({
+        error: data.vectorizer_id ? `Vectorizer ${data.vectorizer_id} not found` : 'No vectorizer is available'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const taskId = crypto.randomUUID();
+    await env.DB.prepare(
+      `INSERT INTO tasks (id, status, document_id, message, tenant_id) 
+       VALUES (?, ?, ?, ?, ?)`
+    )
+    .bind(taskId, 'pending', documentId, 'Reprocessing queued', request.tenantId)
+    .run();
+
+    try {
+      await env.CONVERSION_QUEUE.send({
+        task_id: taskId,
+        reprocess: { document_id: documentId, vectorizer_id: vectorizer.id, link: Boolean(data.vectorizer_id) },
+      });
+    } catch (error) {
+      await updateTask(env, taskId, { status: 'failed', message: 'Reprocessing could not be queued', error: (error as Error).message });
+      throw error;
+    }
+
+    const response: TaskStatusResponse = {
+      task_id: taskId,
+      status: 'pending',
+      message: 'Reprocessing queued'
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to reprocess document',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Chunks closest to a query, embedded with the same vectorizer as the chunks (mode=vector),
+// matching its words (mode=keyword), or both (mode=hybrid)
+router.post('/v1alpha/search', async (request: TenantRequest, env: Env) => {
+  try {
+    let mode: SearchMode;
+    let query: SearchQuery;
+    try {
+      mode = parseSearchMode(new URL(request.url).searchParams.get('mode'));
+      query = { ...parseSearchRequest(await request.json() as SearchRequest), tenantId: request.tenantId };
+    } catch (error) {
+      return new Response(JSON.stringify({
+        error: error instanceof ConversionError ? error.message : 'Invalid JSON body'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    let vectorizer: VectorizerRow | null = null;
+    let results: SearchResult[];
+    if (mode === 'keyword') {
+      results = await keywordSearch(env, query, query.topK);
+    } else {
+      if (!env.OPENAI_API_KEY) {
+        return new Response(JSON.stringify({
+          error: `${mode} search is not available: OPENAI_API_KEY is not set`
+        }), {
+          status: 503,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      vectorizer = query.vectorizerId
+        ? await readVectorizer(env, query.vectorizerId, request.tenantId)
+        : query.documentIds?.length === 1
+          ? await documentVectorizer(env, query.documentIds[0], request.tenantId)
+          : await defaultVectorizer(env, request.tenantId);
+      if (!vectorizer) {
+        return new Response(JSON.stringify({
+          error: query.vectorizerId ? `Vectorizer ${query.vectorizerId} not found` : 'No vectorizer is available'
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (mode === 'vector') {
+        results = await vectorSearch(env, vectorizer, query, query.topK);
+      } else {
+        // Both rankings contribute their best MAX_TOP_K chunks to the fusion
+        const [vectorResults, keywordResults] = await Promise.all([
+          vectorSearch(env, vectorizer, query, MAX_TOP_K),
+          keywordSearch(env, query, MAX_TOP_K),
+        ]);
+        results = fuseRankings([vectorResults, keywordResults], query.topK);
+      }
+    }
+
+    const response: SearchResponse = {
+      query: query.query,
+      mode,
+      vectorizer_id: vectorizer?.id ?? null,
+      results
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to search documents',
+      message: (error as Error).message
+    }), {
+      status: error instanceof EmbeddingError ? 502 : 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Vectorizers list endpoint
+router.get('/v1alpha/vectorizers', async (request: TenantRequest, env: Env) => {
+  try {
+    const vectorizers = await env.DB.prepare(
+      'SELECT * FROM vectorizers WHERE tenant_id = ? ORDER BY created_at DESC'
+    ).bind(request.tenantId).all<VectorizerRow>();
+    
+    return new Response(JSON.stringify({ vectorizers: vectorizers.results.map(formatVectorizer) }), {
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching vectorizers:', error);
+    return new Response(JSON.stringify({ error: 'Error fetching vectorizers' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+  }
+});
+
+// Create a vectorizer; settings that are left out take the defaults
+router.post('/v1alpha/vectorizers', async (request: TenantRequest, env: Env) => {
+  try {
+    let body: VectorizerRequest;
+    let settings: VectorizerSettings;
+    try {
+      body = await request.json() as VectorizerRequest;
+      settings = validateVectorizer(body, defaultVectorizerSettings(''));
+    } catch (error) {
+      return new Response(JSON.stringify({
+        error: error instanceof ConversionError ? error.message : 'Invalid JSON body'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const vectorizer = await createVectorizer(env, request.tenantId, settings, body.is_default === true);
+    return new Response(JSON.stringify(formatVectorizer(vectorizer)), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to create vectorizer',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+router.get('/v1alpha/vectorizers/:vectorizerId', async (request: TenantRequest, env: Env) => {
+  try {
+    const vectorizerId = new URL(request.url).pathname.split('/')[3];
+    const vectorizer = await readVectorizer(env, vectorizerId, request.tenantId);
+    if (!vectorizer) {
+      return new Response(JSON.stringify({
+        error: 'Vectorizer not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify(formatVectorizer(vectorizer)), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to get vectorizer',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Update some of a vectorizer's settings. Documents keep their chunks and embeddings until
+// they are converted again.
+router.patch('/v1alpha/vectorizers/:vectorizerId', async (request: TenantRequest, env: Env) => {
+  try {
+    const vectorizerId = new URL(request.url).pathname.split('/')[3];
+    const current = await readVectorizer(env, vectorizerId, request.tenantId);
+    if (!current) {
+      return new Response(JSON.stringify({
+        error: 'Vectorizer not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    let body: VectorizerRequest;
+    let settings: VectorizerSettings;
+    try {
+      body = await request.json() as VectorizerRequest;
+      settings = validateVectorizer(body, {
+        model_name: current.model_name,
+        engine_type: current.engine_type,
+        chunk_size: current.chunk_size,
+        ocr_engine: current.ocr_engine,
+        parameters: vectorizerParameters(current),
+      });
+      if (body.is_default === false && current.is_default) {
+        throw new ConversionError('The default vectorizer cannot be unset; make another vectorizer the default instead', 400);
+      }
+    } catch (error) {
+      return new Response(JSON.stringify({
+        error: error instanceof ConversionError ? error.message : 'Invalid JSON body'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    await env.DB.prepare(
+      `UPDATE vectorizers 
+       SET model_name = ?, engine_type = ?, chunk_size = ?, ocr_engine = ?, parameters = ?, updated_at = CURRENT_TIMESTAMP 
+       WHERE id = ?`
+    )
+    .bind(settings.model_name, settings.engine_type, settings.chunk_size, settings.ocr_engine, JSON.stringify(settings.parameters), vectorizerId)
+    .run();
+    if (body.is_default) {
+      await setDefaultVectorizer(env, request.tenantId, vectorizerId);
+    }
+
+    return new Response(JSON.stringify(formatVectorizer((await readVectorizer(env, vectorizerId, request.tenantId))!)), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to update vectorizer',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Make a vectorizer the default for documents converted without one
+router.post('/v1alpha/vectorizers/:vectorizerId/default', async (request: TenantRequest, env: Env) => {
+  try {
+    const vectorizerId = new URL(request.url).pathname.split('/')[3];
+    if (!await readVectorizer(env, vectorizerId, request.tenantId)) {
+      return new Response(JSON.stringify({
+        error: 'Vectorizer not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    await setDefaultVectorizer(env, request.tenantId, vectorizerId);
+    return new Response(JSON.stringify(formatVectorizer((await readVectorizer(env, vectorizerId, request.tenantId))!)), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to set default vectorizer',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Reprocess every stored document of a vectorizer after its settings changed, or move the
+// documents of from_vectorizer_id to it. Progress is reported on a task without a document.
+router.post('/v1alpha/vectorizers/:vectorizerId/reindex', async (request: TenantRequest, env: Env) => {
+  try {
+    const vectorizerId = new URL(request.url).pathname.split('/')[3];
+    let data: { from_vectorizer_id?: string };
+    try {
+      const body = await request.text();
+      data = body ? JSON.parse(body) : {};
+    } catch {
+      return new Response(JSON.stringify({
+        error: 'Invalid JSON body'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const vectorizer = await readVectorizer(env, vectorizerId, request.tenantId);
+    const source = data.from_vectorizer_id ? await readVectorizer(env, data.from_vectorizer_id, request.tenantId) : vectorizer;
+    if (!vectorizer || !source) {
+      return new Response(JSON.stringify({
+        error: `Vectorizer ${vectorizer ? data.from_vectorizer_id : vectorizerId} not found`
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const includeUnlinked = Boolean(source.is_default);
+    const count = await env.DB.prepare(`SELECT COUNT(*) as count FROM documents d WHERE ${VECTORIZER_DOCUMENTS}`)
+      .bind(source.id, includeUnlinked ? 1 : 0, request.tenantId)
+      .first<{ count: number }>();
+
+    const taskId = crypto.randomUUID();
+    await env.DB.prepare(
+      `INSERT INTO tasks (id, status, message, tenant_id) 
+       VALUES (?, ?, ?, ?)`
+    )
+    .bind(taskId, 'pending', 'Reindex queued', request.tenantId)
+    .run();
+
+    try {
+      await env.CONVERSION_QUEUE.send({
+        task_id: taskId,
+        reindex: {
+          vectorizer_id: vectorizer.id,
+          source_vectorizer_id: source.id,
+          include_unlinked: includeUnlinked,
+          link: source.id !== vectorizer.id,
+          after: '',
+          done: 0,
+          failed: 0,
+          total: count?.count || 0,
+        },
+      });
+    } catch (error) {
+      await updateTask(env, taskId, { status: 'failed', message: 'Reindex could not be queued', error: (error as Error).message });
+      throw error;
+    }
+
+    const response: TaskStatusResponse = {
+      task_id: taskId,
+      status: 'pending',
+      message: 'Reindex queued'
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to reindex vectorizer',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Delete a vectorizer and its embeddings. Documents linked to it fall back to the default
+// vectorizer, which itself cannot be deleted.
+router.delete('/v1alpha/vectorizers/:vectorizerId', async (request: TenantRequest, env: Env) => {
+  try {
+    const vectorizerId = new URL(request.url).pathname.split('/')[3];
+    const vectorizer = await readVectorizer(env, vectorizerId, request.tenantId);
+    if (!vectorizer) {
+      return new Response(JSON.stringify({
+        error: 'Vectorizer not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    if (vectorizer.is_default) {
+      return new Response(JSON.stringify({
+        error: 'The default vectorizer cannot be deleted; make another vectorizer the default first'
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const vectorIds = env.VECTORIZE ? await embeddingIds(env, 'vectorizer_id = ?', vectorizerId) : [];
+    await env.DB.batch([
+      env.DB.prepare('UPDATE documents SET vectorizer_id = NULL WHERE vectorizer_id = ?').bind(vectorizerId),
+      env.DB.prepare('DELETE FROM chunk_embeddings WHERE vectorizer_id = ?').bind(vectorizerId),
+      env.DB.prepare('DELETE FROM vectorizers WHERE id = ?').bind(vectorizerId),
+    ]);
+    await deleteVectors(env, vectorIds);
+
+    return new Response(JSON.stringify({ id: vectorizerId, deleted: true }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to delete vectorizer',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Usage endpoint: the caller's limits, requests this minute and daily usage, for today and the
+// `days` - 1 days before it (at most 31)
+router.get('/v1alpha/usage', async (request: TenantRequest, env: Env) => {
+  try {
+    const days = parseInt(new URL(request.url).searchParams.get('days') || '1', 10);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS) {
+      return new Response(JSON.stringify({
+        error: `days must be an integer between 1 and ${MAX_USAGE_DAYS}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const now = new Date();
+    const dayList = Array.from({ length: days }, (_, index) => usageDay(new Date(now.getTime() - index * 86400000)));
+    const [rows, counter] = await Promise.all([
+      env.DB.prepare('SELECT day, tasks, pages, bytes FROM usage WHERE client_id = ? AND day >= ?')
+        .bind(request.clientId, dayList[dayList.length - 1])
+        .all<DailyUsage>(),
+      env.DB.prepare('SELECT requests FROM rate_limits WHERE client_id = ? AND window_start = ?')
+        .bind(request.clientId, Math.floor(now.getTime() / 60000) * 60)
+        .first<{ requests: number }>(),
+    ]);
+    const usageByDay = new Map(rows.results.map(row => [row.day, row]));
+
+    const response: UsageResponse = {
+      client_id: request.clientId,
+      limits: request.limits,
+      requests_this_minute: counter?.requests ?? 0,
+      days: dayList.map(day => usageByDay.get(day) ?? { day, tasks: 0, pages: 0, bytes: 0 }),
+      resets_at: new Date(now.getTime() + secondsUntilNextDay(now) * 1000).toISOString(),
+    };
+    return new Response(JSON.stringify(response), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to read usage',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// API keys list endpoint: the keys of the caller's tenant, or of every tenant for
+// DOCLING_SERVE_API_KEY
+router.get('/v1alpha/api-keys', async (request: TenantRequest, env: Env) => {
+  try {
+    const keys = await env.DB.prepare('SELECT * FROM api_keys WHERE ? = 1 OR tenant_id = ? ORDER BY created_at DESC')
+      .bind(request.rootKey ? 1 : 0, request.tenantId)
+      .all<ApiKeyRow>();
+
+    return new Response(JSON.stringify({ api_keys: keys.results.map(formatApiKey) }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to list API keys',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Create an API key; the response is the only place the key appears. Keys are created in the
+// caller's tenant; DOCLING_SERVE_API_KEY can name any tenant_id, which starts a new tenant.
+router.post('/v1alpha/api-keys', async (request: TenantRequest, env: Env) => {
+  try {
+    let settings: ReturnType<typeof parseApiKeyRequest>;
+    try {
+      settings = parseApiKeyRequest(await request.json() as ApiKeyRequest);
+    } catch (error) {
+      return new Response(JSON.stringify({
+        error: error instanceof ConversionError ? error.message : 'Invalid JSON body'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const tenantId = settings.tenantId ?? request.tenantId;
+    if (tenantId !== request.tenantId && !request.rootKey) {
+      return new Response(JSON.stringify({
+        error: 'Only DOCLING_SERVE_API_KEY can create keys for another tenant'
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    // Tenant admins could otherwise lift their own limits
+    if (settings.limits && !request.rootKey) {
+      return new Response(JSON.stringify({
+        error: 'Only DOCLING_SERVE_API_KEY can set limits'
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const key = generateApiKey();
+    const row = await env.DB.prepare(
+      `INSERT INTO api_keys (id, tenant_id, name, key_prefix, key_hash, scopes, limits) 
+       VALUES (?, ?, ?, ?, ?, ?, ?) 
+       RETURNING *`
+    )
+    .bind(
+      crypto.randomUUID(), tenantId, settings.name, key.slice(0, 12), await hashApiKey(key), settings.scopes.join(','),
+      settings.limits ? JSON.stringify(settings.limits) : null
+    )
+    .first<ApiKeyRow>();
+
+    const response: CreatedApiKey = { ...formatApiKey(row!), key };
+    return new Response(JSON.stringify(response), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to create API key',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Revoke an API key
+router.delete('/v1alpha/api-keys/:keyId', async (request: TenantRequest, env: Env) => {
+  try {
+    const keyId = new URL(request.url).pathname.split('/')[3];
+    const result = await env.DB.prepare('DELETE FROM api_keys WHERE id = ? AND (? = 1 OR tenant_id = ?)')
+      .bind(keyId, request.rootKey ? 1 : 0, request.tenantId)
+      .run();
+    if (!result.meta.changes) {
+      return new Response(JSON.stringify({
+        error: 'API key not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify({ id: keyId, deleted: true }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to delete API key',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Migrations endpoint: applied and pending schema migrations. Migrations change the database of
+// every tenant, so only DOCLING_SERVE_API_KEY can list or apply them.
+router.get('/v1alpha/migrations', async (request: TenantRequest, env: Env) => {
+  try {
+    if (!request.rootKey) {
+      return rootKeyRequired();
+    }
+    return new Response(JSON.stringify(await migrationsStatus(env)), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to read migrations',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Apply the pending schema migrations
+router.post('/v1alpha/migrations', async (request: TenantRequest, env: Env) => {
+  try {
+    if (!request.rootKey) {
+      return rootKeyRequired();
+    }
+    const applied = await migrate(d1MigrationDatabase(env.DB), MIGRATIONS);
+    const response: MigrationsResponse = { ...await migrationsStatus(env), applied: applied.map(migration => migration.version) };
+    return new Response(JSON.stringify(response), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Failed to apply migrations',
+      message: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+// Add endpoint to fetch table data
+router.get('/v1alpha/table/:tableName', async (request: TenantRequest, env: Env) => {
+  try {
     // Extract table name from path
     const url = new URL(request.url);
     const pathParts = url.pathname.split('/');
     const tableName = pathParts[pathParts.length - 1];
     
     // Validate table name to prevent SQL injection
-    const validTables = ['documents', 'tasks', 'sources', 'file_chunks', 'vectorizers'];
+    const validTables = ['documents', 'tasks', 'sources', 'file_chunks', 'files', 'document_chunks', 'chunk_embeddings', 'vectorizers'];
     
     if (!tableName || !validTables.includes(tableName)) {
       return new Response(JSON.stringify({ error: 'Invalid table name' }), {
@@ -1676,81 +3016,1274 @@ router.get('/v1alpha/table/:tableName', async (request: Request, env: Env) => {
         }
       });
     }
-    
-    // Get limit and offset from query parameters
-    const limit = parseInt(url.searchParams.get('limit') || '20', 10);
-    const offset = parseInt(url.searchParams.get('offset') || '0', 10);
-    
-    // Fetch table data with pagination
-    const tableData = await env.DB.prepare(
-      `SELECT * FROM ${tableName} ORDER BY created_at DESC LIMIT ? OFFSET ?`
-    ).bind(limit, offset).all();
-    
-    // Get total count for pagination
-    const countResult = await env.DB.prepare(
-      `SELECT COUNT(*) as count FROM ${tableName}`
-    ).first<{count: number}>();
-    
-    return new Response(JSON.stringify({ 
-      results: tableData.results,
-      total: countResult?.count || 0,
-      limit,
-      offset
+    
+    // Get limit and offset from query parameters
+    const limit = parseInt(url.searchParams.get('limit') || '20', 10);
+    const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+    
+    // Rows of the caller's tenant; the chunk, embedding and file tables are scoped by document
+    const tenantFilter = ['documents', 'tasks', 'sources', 'file_chunks', 'vectorizers'].includes(tableName)
+      ? 'tenant_id = ?'
+      : 'document_id IN (SELECT id FROM documents WHERE tenant_id = ?)';
+
+    // Fetch table data with pagination
+    const tableData = await env.DB.prepare(
+      `SELECT * FROM ${tableName} WHERE ${tenantFilter} ORDER BY created_at DESC LIMIT ? OFFSET ?`
+    ).bind(request.tenantId, limit, offset).all();
+    
+    // Get total count for pagination
+    const countResult = await env.DB.prepare(
+      `SELECT COUNT(*) as count FROM ${tableName} WHERE ${tenantFilter}`
+    ).bind(request.tenantId).first<{count: number}>();
+    
+    return new Response(JSON.stringify({ 
+      results: tableData.results,
+      total: countResult?.count || 0,
+      limit,
+      offset
+    }), {
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+  } catch (error) {
+    console.error(`Error fetching table data:`, error);
+    return new Response(JSON.stringify({ error: 'Error fetching table data' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+  }
+});
+
+// Handle 404 - but let the worker's default static site handler process static files first
+router.all('*', () => new Response('Not Found', { status: 404 }));
+
+// Stored DoclingDocument, omitted when it is too large for a D1 row
+function documentJson(document: DoclingDocument): string | null {
+  const json = JSON.stringify(document);
+  return json.length <= MAX_DOCUMENT_JSON_LENGTH ? json : null;
+}
+
+// Render a stored document in the formats recorded for it. Documents without a stored
+// DoclingDocument are rebuilt from their Markdown content.
+function renderStoredDocument(task: DocumentResult, content: string | undefined) {
+  let document: DoclingDocument | undefined = task.document_json ? JSON.parse(task.document_json) : undefined;
+  if (document?.schema_name !== 'DoclingDocument') {
+    const builder = new DocumentBuilder(task.name);
+    convertMarkdown(content || '', builder);
+    document = builder.build();
+  }
+
+  let formats: OutputFormat[];
+  try {
+    formats = resolveOutputFormats({ to_formats: task.format.split(',') as OutputFormat[] });
+  } catch {
+    formats = [OutputFormat.MARKDOWN];
+  }
+  return renderOutputs(document, formats);
+}
+
+// Page limit for a conversion: the request's max_pages, capped by DOCLING_SERVE_MAX_NUM_PAGES
+function maxNumPages(env: Env, options: ConvertDocumentsOptions): number {
+  const serverLimit = parseInt(env.DOCLING_SERVE_MAX_NUM_PAGES || '0', 10) || 0;
+  const requestLimit = options.max_pages || 0;
+  if (serverLimit > 0 && requestLimit > 0) {
+    return Math.min(serverLimit, requestLimit);
+  }
+  return serverLimit || requestLimit;
+}
+
+// Fetch every source, then convert them into a single document. Progress is reported
+// per step, from 0 before the first fetch to 1 once the last source is converted.
+async function convertSources(
+  env: Env,
+  sources: ConvertDocumentsRequest['sources'],
+  options: ConvertDocumentsOptions,
+  onProgress?: (progress: number, message: string) => Promise<void>
+): Promise<ConvertedSources> {
+  const maxFileSize = parseInt(env.DOCLING_SERVE_MAX_FILE_SIZE || '0', 10);
+
+  const sourceDocuments: SourceDocument[] = [];
+  for (const [index, source] of sources.entries()) {
+    await onProgress?.(index / sources.length / 2, `Fetching source ${index + 1} of ${sources.length}`);
+    sourceDocuments.push(await fetchSource(source, options, maxFileSize));
+  }
+
+  return convertDocuments(env, sourceDocuments, options, onProgress && ((progress, message) => onProgress(0.5 + progress / 2, message)));
+}
+
+async function convertDocuments(
+  env: Env,
+  sourceDocuments: SourceDocument[],
+  options: ConvertDocumentsOptions,
+  onProgress?: (progress: number, message: string) => Promise<void>
+): Promise<ConvertedSources> {
+  const builder = new DocumentBuilder(sourceDocuments.map(item => item.name).join(', '));
+  let pages = 0;
+  const formats: InputFormat[] = [];
+  for (const [index, sourceDocument] of sourceDocuments.entries()) {
+    await onProgress?.(index / sourceDocuments.length, `Converting ${sourceDocument.name}`);
+    const content = await extractContent(sourceDocument, builder, maxNumPages(env, options), options.from_formats);
+    pages += content.pages;
+    if (content.format && !formats.includes(content.format)) {
+      formats.push(content.format);
+    }
+  }
+  return { document: builder.build(), pages, sources: sourceDocuments, images: builder.embeddedImages, formats };
+}
+
+// Conversion options sent as multipart form fields
+function formOptions(formData: FormData): ConvertDocumentsOptions {
+  return {
+    from_formats: formData.getAll('from_formats') as InputFormat[],
+    to_formats: formData.getAll('to_formats') as OutputFormat[],
+    format: formData.get('format') as string || undefined,
+    keep_image: formData.get('keep_image') === 'true',
+    orientation_detection: formData.get('orientation_detection') === 'true',
+    enable_ocr: formData.get('enable_ocr') === 'true',
+    ocr_engine: formData.get('ocr_engine') as string || 'easyocr',
+    max_pages: parseInt(formData.get('max_pages') as string || '0', 10) || undefined,
+  };
+}
+
+// Read back an upload stored by /v1alpha/convert/file/async
+async function readUpload(env: Env, upload: NonNullable<ConversionJob['upload']>): Promise<SourceDocument> {
+  const object = await env.FILES.get(upload.key);
+  if (!object) {
+    throw new ConversionError(`Upload ${upload.key} not found`, 404);
+  }
+  const data = await object.arrayBuffer();
+  return {
+    name: upload.name,
+    contentType: detectContentType(upload.name, upload.content_type, data),
+    data,
+  };
+}
+
+async function updateTask(
+  env: Env,
+  taskId: string,
+  update: { status?: TaskResult['status']; message?: string; progress?: number; error?: string }
+) {
+  await env.DB.prepare(
+    `UPDATE tasks 
+     SET status = COALESCE(?, status),
+         message = COALESCE(?, message),
+         progress = COALESCE(?, progress),
+         error = COALESCE(?, error),
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?`
+  )
+  .bind(update.status ?? null, update.message ?? null, update.progress ?? null, update.error ?? null, taskId)
+  .run();
+  await notifyTaskStatus(env, taskId);
+  if (update.status === 'completed' || update.status === 'failed') {
+    await queueTaskWebhook(env, taskId);
+  }
+}
+
+// Queue the callback_url notification of a task that has just completed or failed
+async function queueTaskWebhook(env: Env, taskId: string) {
+  try {
+    const task = await env.DB.prepare(
+      `SELECT id, status, message, error, document_id, callback_url
+       FROM tasks WHERE id = ?`
+    )
+    .bind(taskId)
+    .first<TaskResult & { document_id?: string; callback_url?: string }>();
+    if (!task?.callback_url || (task.status !== 'completed' && task.status !== 'failed')) {
+      return;
+    }
+
+    const event = task.status === 'completed' ? 'task.completed' : 'task.failed';
+    await env.WEBHOOK_QUEUE.send({
+      delivery_id: crypto.randomUUID(),
+      task_id: task.id,
+      url: task.callback_url,
+      event,
+      payload: {
+        event,
+        task_id: task.id,
+        document_id: task.document_id ?? undefined,
+        status: task.status,
+        message: task.message ?? undefined,
+        error: task.error ?? undefined,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to queue the webhook of task ${taskId}:`, error);
+  }
+}
+
+// Send one webhook attempt and record it; failures are retried with backoff
+async function deliverWebhook(env: Env, message: Message<WebhookJob>) {
+  const job = message.body;
+  const attempt = env.WEBHOOK_SECRET
+    ? await sendWebhook(job, env.WEBHOOK_SECRET)
+    : { delivered: false, retryable: false, error: 'WEBHOOK_SECRET is not configured' };
+
+  await env.DB.prepare(
+    `INSERT INTO webhook_deliveries (delivery_id, task_id, url, event, attempt, delivered, status_code, error) 
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  )
+  .bind(job.delivery_id, job.task_id, job.url, job.event, message.attempts, attempt.delivered ? 1 : 0, attempt.status_code ?? null, attempt.error ?? null)
+  .run();
+
+  if (attempt.delivered || !attempt.retryable || message.attempts >= WEBHOOK_MAX_ATTEMPTS) {
+    message.ack();
+  } else {
+    message.retry({ delaySeconds: webhookBackoff(message.attempts) });
+  }
+}
+
+// Conversion job delivery. Conversion errors fail the task straight away; other errors
+// are retried until the job has been delivered MAX_QUEUE_ATTEMPTS times.
+async function handleConversionMessage(env: Env, message: Message<ConversionJob>) {
+  const job = message.body;
+  try {
+    await runConversionJob(env, job);
+    message.ack();
+  } catch (error) {
+    const errorMessage = (error as Error).message;
+    if (!(error instanceof ConversionError) && message.attempts < MAX_QUEUE_ATTEMPTS) {
+      console.error(`Conversion of task ${job.task_id} failed, retrying:`, error);
+      await updateTask(env, job.task_id, { status: 'pending', message: 'Document conversion will be retried' });
+      message.retry();
+      return;
+    }
+
+    await updateTask(env, job.task_id, { status: 'failed', message: 'Document conversion failed', error: errorMessage });
+    message.ack();
+  }
+}
+
+// Tell the task's Durable Object to push the current status to its WebSocket clients
+async function notifyTaskStatus(env: Env, taskId: string) {
+  try {
+    await env.TASK_STATUS.get(env.TASK_STATUS.idFromName(taskId)).fetch(`https://task-status/notify/${taskId}`, { method: 'POST' });
+  } catch (error) {
+    console.error(`Failed to notify status listeners of task ${taskId}:`, error);
+  }
+}
+
+// Task with its document and the content rendered in the formats recorded for it
+async function loadTaskResult(env: Env, taskId: string, tenantId?: string): Promise<ConvertDocumentResponse | undefined> {
+  const task = await env.DB.prepare(
+    `SELECT t.id as task_id, t.status, t.message, t.progress, t.error, 
+            d.id as document_id, d.name, d.format, d.pages, d.content, d.document_json
+     FROM tasks t
+     JOIN documents d ON t.document_id = d.id
+     WHERE t.id = ? AND (? IS NULL OR t.tenant_id = ?)`
+  )
+  .bind(taskId, tenantId ?? null, tenantId ?? null)
+  .first<DocumentResult>();
+
+  if (!task) {
+    return undefined;
+  }
+
+  let content = task.content;
+
+  // Larger results are stored in R2
+  if (!content && !task.document_json) {
+    task.document_json = await readText(env.FILES, outputKey(task.document_id, OutputFormat.JSON));
+    content = task.document_json ? undefined : await readText(env.FILES, outputKey(task.document_id, OutputFormat.MARKDOWN));
+  }
+
+  if (!content && !task.document_json && task.document_id) {
+    content = await legacyContent(env, task.document_id);
+  }
+
+  return {
+    task_id: task.task_id,
+    status: task.status,
+    message: task.message,
+    progress: task.progress,
+    error: task.error,
+    result: {
+      document_id: task.document_id,
+      pages: task.pages,
+      format: task.format,
+      content: content || task.document_json ? renderStoredDocument(task, content) : undefined,
+      file_keys: await documentFileKeys(env, task.document_id)
+    }
+  };
+}
+
+// Documents stored before R2 was used keep their content in file_chunks
+async function legacyContent(env: Env, documentId: string): Promise<string | undefined> {
+  const chunks = await env.DB.prepare(
+    `SELECT content FROM file_chunks 
+     WHERE document_id = ? 
+     ORDER BY chunk_index ASC`
+  )
+  .bind(documentId)
+  .all();
+
+  return chunks.results.length > 0 ? chunks.results.map((chunk: any) => chunk.content as string).join('') : undefined;
+}
+
+// Queue consumers and the task status objects leave out the tenant, as in readVectorizer
+async function readTask(env: Env, taskId: string, tenantId?: string): Promise<TaskResult | null> {
+  return env.DB.prepare(
+    `SELECT id, status, message, progress, error
+     FROM tasks WHERE id = ? AND (? IS NULL OR tenant_id = ?)`
+  )
+  .bind(taskId, tenantId ?? null, tenantId ?? null)
+  .first<TaskResult>();
+}
+
+// Fingerprint of the task fields a long poll waits on
+function taskState(task: TaskResult): string {
+  return `${task.status}:${task.progress ?? 0}`;
+}
+
+// Status frame for WebSocket clients; finished tasks carry their result
+async function taskStatusMessage(env: Env, taskId: string): Promise<WebsocketMessage> {
+  const task = await readTask(env, taskId);
+
+  if (!task) {
+    return { kind: MessageKind.ERROR, task_id: taskId, message: 'Task not found' };
+  }
+
+  const message: WebsocketMessage = {
+    kind: MessageKind.INFO,
+    task_id: task.id,
+    message: task.message || task.status,
+    progress: task.progress,
+    status: task.status,
+  };
+  if (task.status === 'completed') {
+    message.kind = MessageKind.SUCCESS;
+    message.result = (await loadTaskResult(env, taskId))?.result;
+  } else if (task.status === 'failed') {
+    message.kind = MessageKind.ERROR;
+    message.message = task.error || task.message || 'Task failed';
+  }
+  return message;
+}
+
+// One object per task id holds the WebSocket connections and long polls waiting on that task
+export class TaskStatusObject implements DurableObject {
+  // Long polls to wake on the next notification
+  private waiters = new Set<() => void>();
+
+  constructor(private state: DurableObjectState, private env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const taskId = url.pathname.split('/').pop() || '';
+
+    if (url.pathname.startsWith('/wait/')) {
+      await this.wait(taskId, parseInt(url.searchParams.get('timeout') || '0', 10), url.searchParams.get('state') || '');
+      return new Response(null, { status: 204 });
+    }
+
+    if (request.method === 'POST') {
+      for (const wake of this.waiters) {
+        wake();
+      }
+      const sockets = this.state.getWebSockets();
+      if (sockets.length > 0) {
+        await this.broadcast(taskId, sockets);
+      }
+      return new Response(null, { status: 204 });
+    }
+
+    const [client, server] = Object.values(new WebSocketPair());
+    this.state.acceptWebSocket(server);
+    await this.broadcast(taskId, [server]);
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  // Clients only listen; incoming frames are ignored
+  async webSocketMessage() {}
+
+  async webSocketClose(socket: WebSocket, code: number, reason: string) {
+    try {
+      socket.close(code, reason);
+    } catch {
+      // Already closed
+    }
+  }
+
+  // Resolve on the next notification or after the timeout. The task is read once after
+  // registering so that a change made since the caller's read is not missed.
+  private async wait(taskId: string, timeout: number, state: string) {
+    let wake = () => {};
+    const woken = new Promise<void>(resolve => {
+      const timer = setTimeout(() => wake(), timeout);
+      wake = () => {
+        clearTimeout(timer);
+        this.waiters.delete(wake);
+        resolve();
+      };
+      this.waiters.add(wake);
+    });
+
+    const task = await readTask(this.env, taskId);
+    if (!task || taskState(task) !== state) {
+      wake();
+    }
+    await woken;
+  }
+
+  private async broadcast(taskId: string, sockets: WebSocket[]) {
+    const message = await taskStatusMessage(this.env, taskId);
+    const finished = message.status === 'completed' || message.status === 'failed' || !message.status;
+    for (const socket of sockets) {
+      try {
+        socket.send(JSON.stringify(message));
+        if (finished) {
+          socket.close(1000, 'Task finished');
+        }
+      } catch {
+        // The client went away
+      }
+    }
+  }
+}
+
+// Queue consumer side of the async endpoints: convert the sources or upload and store the
+// result on the document row created when the task was queued
+async function runConversionJob(env: Env, job: ConversionJob) {
+  await updateTask(env, job.task_id, { status: 'processing', message: 'Document conversion started', progress: 0 });
+
+  // Conversion fills the first 90%; storing the result takes the rest
+  const onProgress = (progress: number, message: string) => updateTask(env, job.task_id, { message, progress: progress * 0.9 });
+  let converted: ConvertedSources;
+  let usage: { pages: number; bytes: number };
+  if (job.upload) {
+    // The upload is already stored as the document's original
+    converted = await convertDocuments(env, [await readUpload(env, job.upload)], job.options, onProgress);
+    usage = conversionUsage(converted);
+    converted.sources = [];
+  } else {
+    converted = await convertSources(env, job.sources || [], job.options, onProgress);
+    usage = conversionUsage(converted);
+  }
+  await updateTask(env, job.task_id, { message: 'Storing document', progress: 0.9 });
+
+  // Redelivered jobs overwrite the files stored by an earlier attempt under the same keys
+  await storeDocument(env, job.document_id, converted, resolveOutputFormats(job.options));
+  if (job.client_id) {
+    await recordUsage(env, job.client_id, usage);
+  }
+
+  await updateTask(env, job.task_id, { status: 'completed', message: 'Document converted successfully', progress: 1 });
+}
+
+async function handleReprocessMessage(env: Env, message: Message<ReprocessJob | ReindexJob>) {
+  const job = message.body;
+  try {
+    if ('reindex' in job) {
+      await runReindexJob(env, job);
+    } else {
+      await runReprocessJob(env, job);
+    }
+    message.ack();
+  } catch (error) {
+    const errorMessage = (error as Error).message;
+    if (!isPermanentFailure(error) && message.attempts < MAX_QUEUE_ATTEMPTS) {
+      console.error(`Reprocessing of task ${job.task_id} failed, retrying:`, error);
+      await updateTask(env, job.task_id, { status: 'pending', message: 'Reprocessing will be retried' });
+      message.retry();
+      return;
+    }
+
+    await updateTask(env, job.task_id, { status: 'failed', message: 'Reprocessing failed', error: errorMessage });
+    message.ack();
+  }
+}
+
+// Errors that repeating the job would not fix
+function isPermanentFailure(error: unknown): boolean {
+  return error instanceof ConversionError || (error instanceof EmbeddingError && !error.retryable);
+}
+
+async function runReprocessJob(env: Env, job: ReprocessJob) {
+  const { document_id: documentId, vectorizer_id: vectorizerId, link } = job.reprocess;
+  await updateTask(env, job.task_id, { status: 'processing', message: 'Reprocessing document', progress: 0 });
+  const vectorizer = await readVectorizer(env, vectorizerId);
+  if (!vectorizer) {
+    throw new ConversionError(`Vectorizer ${vectorizerId} not found`, 404);
+  }
+  await reprocessDocument(env, documentId, vectorizer, link);
+  await updateTask(env, job.task_id, { status: 'completed', message: 'Document reprocessed successfully', progress: 1 });
+}
+
+async function runReindexJob(env: Env, job: ReindexJob) {
+  const reindex = { ...job.reindex };
+  const vectorizer = await readVectorizer(env, reindex.vectorizer_id);
+  if (!vectorizer) {
+    throw new ConversionError(`Vectorizer ${reindex.vectorizer_id} not found`, 404);
+  }
+  if (reindex.done === 0) {
+    await updateTask(env, job.task_id, { status: 'processing', message: `Reindexing ${reindex.total} documents`, progress: 0 });
+  }
+
+  const documents = await env.DB.prepare(
+    `SELECT d.id FROM documents d 
+     WHERE ${VECTORIZER_DOCUMENTS} AND d.id > ? 
+     ORDER BY d.id ASC 
+     LIMIT ?`
+  )
+  .bind(reindex.source_vectorizer_id, reindex.include_unlinked ? 1 : 0, vectorizer.tenant_id, reindex.after, REINDEX_PAGE_SIZE)
+  .all<{ id: string }>();
+
+  for (const document of documents.results) {
+    try {
+      await reprocessDocument(env, document.id, vectorizer, reindex.link);
+    } catch (error) {
+      // Documents that cannot be reprocessed are counted and skipped; other errors retry the page
+      if (!isPermanentFailure(error)) {
+        throw error;
+      }
+      console.error(`Reindexing of document ${document.id} failed:`, error);
+      reindex.failed++;
+    }
+    reindex.done++;
+  }
+
+  if (documents.results.length < REINDEX_PAGE_SIZE) {
+    const message = `Reindex completed (${reindex.done - reindex.failed} reprocessed, ${reindex.failed} failed)`;
+    await updateTask(env, job.task_id, { status: 'completed', message, progress: 1 });
+    return;
+  }
+
+  reindex.after = documents.results[documents.results.length - 1].id;
+  // Documents converted since the job started can take the count past the total
+  const progress = Math.min(reindex.done / Math.max(reindex.total, 1), 0.99);
+  await updateTask(env, job.task_id, { message: `Reindexing (${reindex.done} of ${reindex.total} documents done)`, progress });
+  await env.CONVERSION_QUEUE.send({ task_id: job.task_id, reindex });
+}
+
+// Re-chunk a document from its stored DoclingDocument with a vectorizer. The new chunks are
+// embedded before they replace the old ones, so search uses the old vectors until then.
+async function reprocessDocument(env: Env, documentId: string, vectorizer: VectorizerRow, link: boolean) {
+  const document = await readStoredDocument(env, documentId);
+  const chunks = vectorizerChunks(document, vectorizer);
+
+  let embeddings: ChunkEmbeddings | undefined;
+  if (env.OPENAI_API_KEY && vectorizer.engine_type === 'openai' && chunks.length > 0) {
+    const config = embeddingConfig(env, vectorizer);
+    embeddings = { vectorizer_id: vectorizer.id, model: config.model, vectors: await embedTexts(config, chunks.map(chunk => chunk.text)) };
+  }
+
+  await replaceChunks(env, documentId, chunks, embeddings, link
+    ? [env.DB.prepare('UPDATE documents SET vectorizer_id = ? WHERE id = ?').bind(vectorizer.id, documentId)]
+    : []);
+}
+
+// The DoclingDocument stored for a document, rebuilt from its Markdown when there is none
+async function readStoredDocument(env: Env, documentId: string): Promise<DoclingDocument> {
+  const row = await env.DB.prepare('SELECT name, content, document_json FROM documents WHERE id = ?')
+    .bind(documentId)
+    .first<{ name: string; content: string | null; document_json: string | null }>();
+  if (!row) {
+    throw new ConversionError(`Document ${documentId} not found`, 404);
+  }
+
+  const json = row.document_json || await readText(env.FILES, outputKey(documentId, OutputFormat.JSON));
+  const document: DoclingDocument | undefined = json ? JSON.parse(json) : undefined;
+  if (document?.schema_name === 'DoclingDocument') {
+    return document;
+  }
+  const markdown = row.content || await readText(env.FILES, outputKey(documentId, OutputFormat.MARKDOWN)) || await legacyContent(env, documentId);
+  if (!markdown) {
+    throw new ConversionError(`Document ${documentId} has no stored content`, 422);
+  }
+  const builder = new DocumentBuilder(row.name);
+  convertMarkdown(markdown, builder);
+  return builder.build();
+}
+
+// Store a converted document. Extracted images, originals and rendered outputs go to R2 and
+// are recorded in the files table; Markdown and JSON are always stored so that results can
+// be rendered again later. The document row keeps short content and the DoclingDocument.
+async function storeDocument(env: Env, documentId: string, converted: ConvertedSources, formats: OutputFormat[]): Promise<string[]> {
+  const { document, pages } = converted;
+  // Images first, so that rendered outputs link to their stored copies
+  const files = await putImages(env.FILES, documentId, converted.images);
+  const outputs = renderOutputs(document, [...new Set([OutputFormat.MARKDOWN, OutputFormat.JSON, ...formats])]);
+
+  const contentText = outputs.md || '';
+  await env.DB.prepare(
+    `UPDATE documents 
+     SET name = ?, pages = ?, content = ?, document_json = ?, source_format = ? 
+     WHERE id = ?`
+  )
+  .bind(
+    document.name,
+    pages,
+    contentText.length <= MAX_INLINE_CONTENT_LENGTH ? contentText : null,
+    documentJson(document),
+    converted.formats.join(',') || null,
+    documentId
+  )
+  .run();
+
+  for (const [index, source] of converted.sources.entries()) {
+    files.push(await putFile(env.FILES, originalKey(documentId, index, source.name), 'original', source.data, source.contentType));
+  }
+  for (const [format, output] of Object.entries(outputs)) {
+    files.push(await putOutput(env.FILES, documentId, format as OutputFormat, typeof output === 'string' ? output : JSON.stringify(output)));
+  }
+  for (const file of files) {
+    await recordFile(env, documentId, file);
+  }
+  await storeChunks(env, documentId, document);
+  return documentFileKeys(env, documentId);
+}
+
+// Split a document into chunks sized by its vectorizer, replacing any stored earlier along
+// with their embeddings, then queue the new chunks for embedding
+async function storeChunks(env: Env, documentId: string, document: DoclingDocument) {
+  const vectorizer = await documentVectorizer(env, documentId);
+  const chunks = vectorizerChunks(document, vectorizer);
+  await replaceChunks(env, documentId, chunks);
+
+  if (vectorizer && chunks.length > 0) {
+    await queueEmbedding(env, documentId, vectorizer);
+  }
+}
+
+// Chunk a document with a vectorizer's settings, or the defaults without one
+function vectorizerChunks(document: DoclingDocument, vectorizer: VectorizerRow | null): DocumentChunk[] {
+  const parameters = vectorizerParameters(vectorizer);
+  if (parameters.token_encoding && parameters.token_encoding !== TOKEN_ENCODING) {
+    console.warn(`Token encoding ${parameters.token_encoding} is not available, counting ${TOKEN_ENCODING} tokens`);
+  }
+  return chunkDocument(document, {
+    chunkSize: vectorizer?.chunk_size || CHUNK_SIZE_TOKENS,
+    chunkOverlap: parameters.chunk_overlap ?? CHUNK_OVERLAP_TOKENS,
+  });
+}
+
+// Replace a document's chunks and every embedding of the old ones in one transaction, so
+// readers never see a partial set. Embeddings of the new chunks, and other statements that
+// belong with the change, are applied in the same transaction.
+async function replaceChunks(
+  env: Env,
+  documentId: string,
+  chunks: DocumentChunk[],
+  embeddings?: ChunkEmbeddings,
+  statements: D1PreparedStatement[] = []
+) {
+  const previous = env.VECTORIZE ? await embeddingIds(env, 'document_id = ?', documentId) : [];
+  await env.DB.batch([
+    env.DB.prepare('DELETE FROM chunk_embeddings WHERE document_id = ?').bind(documentId),
+    env.DB.prepare('DELETE FROM document_chunks WHERE document_id = ?').bind(documentId),
+    ...chunks.map(chunk => env.DB.prepare(
+      `INSERT INTO document_chunks (document_id, chunk_index, content, headings, token_count, page_numbers, start_offset, end_offset) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      documentId,
+      chunk.chunk_index,
+      chunk.text,
+      JSON.stringify(chunk.headings),
+      chunk.token_count,
+      JSON.stringify(chunk.page_numbers),
+      chunk.start_offset,
+      chunk.end_offset
+    )),
+    ...(embeddings ? chunks.map((chunk, index) => insertEmbedding(env, documentId, chunk.chunk_index, embeddings, index)) : []),
+    ...statements,
+  ]);
+  await deleteVectors(env, previous);
+  if (embeddings) {
+    await upsertVectors(env, documentId, embeddings, chunks.map(chunk => chunk.chunk_index));
+  }
+}
+
+function insertEmbedding(env: Env, documentId: string, chunkIndex: number, embeddings: ChunkEmbeddings, index: number): D1PreparedStatement {
+  const vector = embeddings.vectors[index];
+  return env.DB.prepare(
+    `INSERT INTO chunk_embeddings (document_id, chunk_index, vectorizer_id, model, dimensions, embedding) 
+     VALUES (?, ?, ?, ?, ?, ?)`
+  )
+  .bind(documentId, chunkIndex, embeddings.vectorizer_id, embeddings.model, vector.length, vectorToBlob(vector));
+}
+
+// Vectorizer linked to a document, or the default vectorizer for documents without one
+async function documentVectorizer(env: Env, documentId: string, tenantId?: string): Promise<VectorizerRow | null> {
+  const document = await env.DB.prepare('SELECT tenant_id, vectorizer_id FROM documents WHERE id = ? AND (? IS NULL OR tenant_id = ?)')
+    .bind(documentId, tenantId ?? null, tenantId ?? null)
+    .first<{ tenant_id: string; vectorizer_id: string | null }>();
+  if (!document) {
+    return null;
+  }
+  const linked = document.vectorizer_id ? await readVectorizer(env, document.vectorizer_id, document.tenant_id) : null;
+  return linked || defaultVectorizer(env, document.tenant_id);
+}
+
+// Queue consumers leave out the tenant: their vectorizer IDs were checked when the job was queued
+async function readVectorizer(env: Env, vectorizerId: string, tenantId?: string): Promise<VectorizerRow | null> {
+  return env.DB.prepare('SELECT * FROM vectorizers WHERE id = ? AND (? IS NULL OR tenant_id = ?)')
+    .bind(vectorizerId, tenantId ?? null, tenantId ?? null)
+    .first<VectorizerRow>();
+}
+
+// The tenant's vectorizer flagged as default, or its first one for DEFAULT_MODEL until one is flagged
+async function defaultVectorizer(env: Env, tenantId: string): Promise<VectorizerRow | null> {
+  return env.DB.prepare(
+    `SELECT * FROM vectorizers 
+     WHERE tenant_id = ? AND (is_default = 1 OR model_name = ?) 
+     ORDER BY is_default DESC, created_at ASC LIMIT 1`
+  )
+  .bind(tenantId, env.DEFAULT_MODEL || 'gpt-4o-mini')
+  .first<VectorizerRow>();
+}
+
+// Vectorizer a conversion request asked for: by ID, else the first one for the requested model,
+// created with default settings when there is none. Null leaves the document on the default.
+async function conversionVectorizer(
+  env: Env,
+  tenantId: string,
+  vectorizerId: string | undefined,
+  modelName: string | undefined,
+  ocrEngine: string | undefined
+): Promise<VectorizerRow | null> {
+  if (vectorizerId) {
+    const vectorizer = await readVectorizer(env, vectorizerId, tenantId);
+    if (!vectorizer) {
+      throw new ConversionError(`Vectorizer ${vectorizerId} not found`, 404);
+    }
+    return vectorizer;
+  }
+  if (!modelName) {
+    return null;
+  }
+  const existing = await env.DB.prepare(
+    `SELECT * FROM vectorizers WHERE tenant_id = ? AND model_name = ? 
+     ORDER BY is_default DESC, created_at ASC LIMIT 1`
+  )
+  .bind(tenantId, modelName)
+  .first<VectorizerRow>();
+  return existing || createVectorizer(env, tenantId, {
+    ...defaultVectorizerSettings(modelName),
+    ocr_engine: ocrEngine && OCR_ENGINES.includes(ocrEngine) ? ocrEngine : 'easyocr',
+  });
+}
+
+function defaultVectorizerSettings(modelName: string): VectorizerSettings {
+  return {
+    model_name: modelName,
+    engine_type: 'openai',
+    chunk_size: CHUNK_SIZE_TOKENS,
+    ocr_engine: 'easyocr',
+    parameters: { ...DEFAULT_VECTORIZER_PARAMETERS },
+  };
+}
+
+async function createVectorizer(env: Env, tenantId: string, settings: VectorizerSettings, isDefault = false): Promise<VectorizerRow> {
+  const vectorizerId = crypto.randomUUID();
+  await env.DB.prepare(
+    `INSERT INTO vectorizers (id, tenant_id, model_name, engine_type, chunk_size, ocr_engine, parameters, is_default) 
+     VALUES (?, ?, ?, ?, ?, ?, ?, 0)`
+  )
+  .bind(
+    vectorizerId,
+    tenantId,
+    settings.model_name,
+    settings.engine_type,
+    settings.chunk_size,
+    settings.ocr_engine,
+    JSON.stringify(settings.parameters)
+  )
+  .run();
+  if (isDefault) {
+    await setDefaultVectorizer(env, tenantId, vectorizerId);
+  }
+  return (await readVectorizer(env, vectorizerId))!;
+}
+
+// Move the tenant's default flag in one transaction; the partial unique index allows one default
+async function setDefaultVectorizer(env: Env, tenantId: string, vectorizerId: string) {
+  await env.DB.batch([
+    env.DB.prepare('UPDATE vectorizers SET is_default = 0 WHERE tenant_id = ? AND is_default = 1 AND id != ?').bind(tenantId, vectorizerId),
+    env.DB.prepare('UPDATE vectorizers SET is_default = 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?').bind(vectorizerId),
+  ]);
+}
+
+// Embeddings are only generated with an API key, and only by OpenAI-compatible vectorizers
+async function queueEmbedding(env: Env, documentId: string, vectorizer: VectorizerRow) {
+  if (!env.OPENAI_API_KEY || vectorizer.engine_type !== 'openai') {
+    return;
+  }
+  try {
+    await env.EMBEDDING_QUEUE.send({ document_id: documentId, vectorizer_id: vectorizer.id });
+  } catch (error) {
+    console.error(`Failed to queue embedding of document ${documentId}:`, error);
+  }
+}
+
+// Embedding job delivery. Rate limits and server errors are retried with backoff until the
+// job has been delivered EMBEDDING_MAX_ATTEMPTS times; other failures drop the job.
+async function handleEmbeddingMessage(env: Env, message: Message<EmbeddingJob>) {
+  const job = message.body;
+  try {
+    await runEmbeddingJob(env, job);
+    message.ack();
+  } catch (error) {
+    const retryable = !(error instanceof EmbeddingError) || error.retryable;
+    if (retryable && message.attempts < EMBEDDING_MAX_ATTEMPTS) {
+      console.error(`Embedding of document ${job.document_id} failed, retrying:`, error);
+      message.retry({ delaySeconds: embeddingBackoff(message.attempts) });
+      return;
+    }
+    console.error(`Embedding of document ${job.document_id} failed:`, error);
+    message.ack();
+  }
+}
+
+// Embed every chunk of a document and store the vectors under the vectorizer's ID
+async function runEmbeddingJob(env: Env, job: EmbeddingJob) {
+  const vectorizer = await readVectorizer(env, job.vectorizer_id);
+  if (!vectorizer) {
+    throw new EmbeddingError(`Vectorizer ${job.vectorizer_id} not found`, false);
+  }
+
+  const chunks = await env.DB.prepare(
+    `SELECT chunk_index, content FROM document_chunks 
+     WHERE document_id = ? 
+     ORDER BY chunk_index ASC`
+  )
+  .bind(job.document_id)
+  .all<{ chunk_index: number; content: string }>();
+  if (chunks.results.length === 0) {
+    return;
+  }
+
+  const config = embeddingConfig(env, vectorizer);
+  const vectors = await embedTexts(config, chunks.results.map(chunk => chunk.content));
+
+  const embeddings: ChunkEmbeddings = { vectorizer_id: vectorizer.id, model: config.model, vectors };
+  const previous = env.VECTORIZE ? await embeddingIds(env, 'document_id = ? AND vectorizer_id = ?', job.document_id, vectorizer.id) : [];
+  await env.DB.batch([
+    env.DB.prepare('DELETE FROM chunk_embeddings WHERE document_id = ? AND vectorizer_id = ?').bind(job.document_id, vectorizer.id),
+    ...chunks.results.map((chunk, index) => insertEmbedding(env, job.document_id, chunk.chunk_index, embeddings, index)),
+  ]);
+  await deleteVectors(env, previous);
+  await upsertVectors(env, job.document_id, embeddings, chunks.results.map(chunk => chunk.chunk_index));
+}
+
+// Copy newly stored embeddings to Vectorize. Vector IDs are the chunk_embeddings row IDs,
+// which are unique across vectorizers.
+async function upsertVectors(env: Env, documentId: string, embeddings: ChunkEmbeddings, chunkIndexes: number[]) {
+  if (!env.VECTORIZE) {
+    return;
+  }
+  const rows = await env.DB.prepare('SELECT id, chunk_index FROM chunk_embeddings WHERE document_id = ? AND vectorizer_id = ?')
+    .bind(documentId, embeddings.vectorizer_id)
+    .all<{ id: number; chunk_index: number }>();
+  const positions = new Map(chunkIndexes.map((chunkIndex, position) => [chunkIndex, position]));
+  await env.VECTORIZE.upsert(rows.results.filter(row => positions.has(row.chunk_index)).map(row => ({
+    id: String(row.id),
+    values: embeddings.vectors[positions.get(row.chunk_index)!],
+    namespace: embeddings.vectorizer_id,
+    metadata: { document_id: documentId },
+  })));
+}
+
+async function embeddingIds(env: Env, condition: string, ...params: string[]): Promise<number[]> {
+  const rows = await env.DB.prepare(`SELECT id FROM chunk_embeddings WHERE ${condition}`).bind(...params).all<{ id: number }>();
+  return rows.results.map(row => row.id);
+}
+
+// Remove the Vectorize copies of deleted chunk_embeddings rows
+async function deleteVectors(env: Env, ids: number[]) {
+  if (!env.VECTORIZE) {
+    return;
+  }
+  for (let start = 0; start < ids.length; start += VECTORIZE_DELETE_BATCH) {
+    await env.VECTORIZE.deleteByIds(ids.slice(start, start + VECTORIZE_DELETE_BATCH).map(String));
+  }
+}
+
+// Chunks ranked by the similarity of their embeddings to the query's
+async function vectorSearch(env: Env, vectorizer: VectorizerRow, query: SearchQuery, limit: number): Promise<SearchResult[]> {
+  const [vector] = await embedTexts(embeddingConfig(env, vectorizer), [query.query]);
+  const matches = env.VECTORIZE
+    ? await queryVectorize(env, env.VECTORIZE, vectorizer, vector, query)
+    : await scanEmbeddings(env, vectorizer, vector, query, limit);
+  return loadSearchResults(env, matches, query, limit, vectorizer.id);
+}
+
+// Chunks ranked by the BM25 relevance of their content, headings and document name, scored
+// so that higher is better
+async function keywordSearch(env: Env, query: SearchQuery, limit: number): Promise<SearchResult[]> {
+  const expression = keywordExpression(query.query);
+  if (!expression) {
+    return [];
+  }
+  const filters = documentFilters(query);
+  const rows = await env.DB.prepare(
+    `SELECT c.document_id, c.chunk_index, bm25(document_chunks_fts) AS rank 
+     FROM document_chunks_fts 
+     JOIN document_chunks c ON c.id = document_chunks_fts.rowid 
+     JOIN documents d ON d.id = c.document_id 
+     WHERE document_chunks_fts MATCH ?${filters.sql} 
+     ORDER BY rank 
+     LIMIT ?`
+  )
+  .bind(expression, ...filters.params, limit)
+  .all<{ document_id: string; chunk_index: number; rank: number }>();
+  const matches = rows.results.map(row => ({ document_id: row.document_id, chunk_index: row.chunk_index, score: -row.rank }));
+  return loadSearchResults(env, matches, query, limit);
+}
+
+// Nearest chunks from Vectorize. Only a single-document filter can be pushed down to the
+// index, so the other filters are applied to the best MAX_TOP_K matches afterwards.
+async function queryVectorize(env: Env, index: Vectorize, vectorizer: VectorizerRow, vector: Float32Array, query: SearchQuery): Promise<SearchMatch[]> {
+  const result = await index.query(vector, {
+    topK: MAX_TOP_K,
+    namespace: vectorizer.id,
+    ...(query.documentIds?.length === 1 ? { filter: { document_id: query.documentIds[0] } } : {}),
+  });
+  if (result.matches.length === 0) {
+    return [];
+  }
+
+  // Vectors whose rows were replaced since the index was last updated are dropped
+  const rows = await env.DB.prepare(
+    `SELECT id, document_id, chunk_index FROM chunk_embeddings 
+     WHERE id IN (${result.matches.map(() => '?').join(', ')})`
+  )
+  .bind(...result.matches.map(match => Number(match.id)))
+  .all<{ id: number; document_id: string; chunk_index: number }>();
+  const embeddings = new Map(rows.results.map(row => [String(row.id), row]));
+  return result.matches.flatMap(match => {
+    const row = embeddings.get(match.id);
+    return row ? [{ document_id: row.document_id, chunk_index: row.chunk_index, score: match.score }] : [];
+  });
+}
+
+// Brute-force cosine similarity over the vectorizer's embeddings in D1
+async function scanEmbeddings(env: Env, vectorizer: VectorizerRow, vector: Float32Array, query: SearchQuery, limit: number): Promise<SearchMatch[]> {
+  const filters = documentFilters(query);
+  const rows = await env.DB.prepare(
+    `SELECT e.document_id, e.chunk_index, e.embedding 
+     FROM chunk_embeddings e 
+     JOIN documents d ON d.id = e.document_id 
+     WHERE e.vectorizer_id = ?${filters.sql}`
+  )
+  .bind(vectorizer.id, ...filters.params)
+  .all<{ document_id: string; chunk_index: number; embedding: ArrayBuffer | number[] }>();
+
+  return rows.results
+    .map(row => ({ document_id: row.document_id, chunk_index: row.chunk_index, score: cosineSimilarity(vector, blobToVector(row.embedding)) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// Chunks and documents of the best matches that pass the filters. For vector matches, chunks
+// replaced since they were embedded have no embedding row and are skipped.
+async function loadSearchResults(
+  env: Env,
+  matches: SearchMatch[],
+  query: SearchQuery,
+  limit: number,
+  vectorizerId?: string
+): Promise<SearchResult[]> {
+  if (matches.length === 0) {
+    return [];
+  }
+  const embedded = vectorizerId
+    ? 'JOIN chunk_embeddings e ON e.document_id = c.document_id AND e.chunk_index = c.chunk_index AND e.vectorizer_id = ?'
+    : '';
+  const rows = await env.DB.batch<ChunkRow & { document_id: string; name: string; tenant_id: string; source_format: string | null; created_at: string }>(
+    matches.map(match => env.DB.prepare(
+      `SELECT c.document_id, c.chunk_index, c.content, c.token_count, c.headings, c.page_numbers, c.start_offset, c.end_offset, 
+              d.name, d.tenant_id, d.source_format, d.created_at 
+       FROM document_chunks c 
+       ${embedded} 
+       JOIN documents d ON d.id = c.document_id 
+       WHERE c.document_id = ? AND c.chunk_index = ?`
+    )
+    .bind(...(vectorizerId ? [vectorizerId] : []), match.document_id, match.chunk_index))
+  );
+
+  const results: SearchResult[] = [];
+  for (const [index, match] of matches.entries()) {
+    const row = rows[index].results[0];
+    if (!row || !matchesFilters(query, { id: row.document_id, tenant_id: row.tenant_id, source_format: row.source_format, created_at: row.created_at })) {
+      continue;
+    }
+    results.push({
+      document_id: row.document_id,
+      document_name: row.name,
+      score: match.score,
+      chunk_index: row.chunk_index,
+      text: row.content,
+      token_count: row.token_count,
+      headings: JSON.parse(row.headings),
+      page_numbers: JSON.parse(row.page_numbers),
+      start_offset: row.start_offset,
+      end_offset: row.end_offset,
+    });
+    if (results.length === limit) {
+      break;
+    }
+  }
+  return results;
+}
+
+// Settings for embedding with a vectorizer, shared by chunks and search queries
+function embeddingConfig(env: Env, vectorizer: VectorizerRow): EmbeddingConfig {
+  const parameters = vectorizerParameters(vectorizer);
+  return {
+    baseUrl: env.OPENAI_BASE_URL || DEFAULT_EMBEDDINGS_URL,
+    apiKey: env.OPENAI_API_KEY,
+    model: parameters.embedding_model || env.VECTOR_MODEL || DEFAULT_EMBEDDING_MODEL,
+    dimensions: parameters.dimensions,
+    batchSize: parameters.batch_size,
+  };
+}
+
+async function recordFile(env: Env, documentId: string, file: StoredFile) {
+  await env.DB.prepare(
+    `INSERT INTO files (document_id, key, kind, content_type, size) 
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (key) DO UPDATE SET content_type = excluded.content_type, size = excluded.size`
+  )
+  .bind(documentId, file.key, file.kind, file.content_type, file.size)
+  .run();
+}
+
+// Methods routed for a path, listed in CORS preflight responses
+function routeMethods(pathname: string): string[] {
+  const methods = router.routes
+    .filter(([method, match]) => method !== 'ALL' && match.test(pathname))
+    .map(([method]) => method);
+  return [...new Set(methods)];
+}
+
+// Check the request's API key against DOCLING_SERVE_API_KEY, which grants every scope in the
+// default tenant, and the api_keys table. Returns the error response for a rejected request,
+// else the tenant and client to route it for. Without DOCLING_SERVE_API_KEY, every route is open
+// and clients are told apart by IP.
+async function authorize(request: Request, env: Env, ctx: ExecutionContext): Promise<Response | RequestClient> {
+  const url = new URL(request.url);
+  const scope = requiredScope(request.method, url.pathname);
+  if (!env.DOCLING_SERVE_API_KEY || !scope) {
+    return {
+      tenantId: DEFAULT_TENANT,
+      rootKey: !env.DOCLING_SERVE_API_KEY,
+      clientId: `ip:${request.headers.get('CF-Connecting-IP') || 'unknown'}`,
+      limits: defaultLimits(env),
+    };
+  }
+
+  const key = requestApiKey(request);
+  // Without a key, the task status WebSocket accepts a task token, which reads that task only
+  const wsTaskId = request.method === 'GET' ? url.pathname.match(/^\/v1alpha\/status\/ws\/([^/]+)$/)?.[1] : undefined;
+  const token = url.searchParams.get('token');
+  if (!key && wsTaskId && token) {
+    const claims = await verifyTaskToken(env.DOCLING_SERVE_API_KEY, token, wsTaskId);
+    if (!claims) {
+      return new Response(JSON.stringify({
+        error: 'Invalid or expired task token'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    return { tenantId: claims.tenant_id, rootKey: false, clientId: claims.client_id, limits: defaultLimits(env) };
+  }
+
+  const hash = key ? await hashApiKey(key) : undefined;
+  let scopes: ApiKeyScope[] | undefined;
+  let client: RequestClient | undefined;
+  if (hash === await hashApiKey(env.DOCLING_SERVE_API_KEY)) {
+    scopes = ['admin'];
+    client = { tenantId: DEFAULT_TENANT, rootKey: true, clientId: 'root', limits: defaultLimits(env) };
+  } else if (hash) {
+    const row = await env.DB.prepare('SELECT id, tenant_id, scopes, limits FROM api_keys WHERE key_hash = ?')
+      .bind(hash)
+      .first<Pick<ApiKeyRow, 'id' | 'tenant_id' | 'scopes' | 'limits'>>();
+    if (row) {
+      scopes = row.scopes.split(',') as ApiKeyScope[];
+      client = { tenantId: row.tenant_id, rootKey: false, clientId: `key:${row.id}`, limits: keyLimits(defaultLimits(env), row.limits) };
+      // Recorded at most once a minute per key
+      ctx.waitUntil(env.DB.prepare(
+        `UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP 
+         WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', '-1 minute'))`
+      ).bind(row.id).run());
+    }
+  }
+
+  if (!scopes || !client) {
+    return new Response(JSON.stringify({
+      error: key ? 'Invalid API key' : 'An API key is required, as `Authorization: Bearer <key>` or `X-Api-Key: <key>`'
     }), {
-      headers: {
-        'Content-Type': 'application/json'
-      }
+      status: 401,
+      headers: { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' }
     });
-  } catch (error) {
-    console.error(`Error fetching table data:`, error);
-    return new Response(JSON.stringify({ error: 'Error fetching table data' }), {
-      status: 500,
-      headers: {
-        'Content-Type': 'application/json'
-      }
+  }
+  if (!hasScope(scopes, scope)) {
+    return new Response(JSON.stringify({
+      error: `This API key does not have the ${scope} scope`
+    }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' }
     });
   }
-});
+  return client;
+}
 
-// Handle 404 - but let the worker's default static site handler process static files first
-router.all('*', () => new Response('Not Found', { status: 404 }));
+// Count the request against the client's rate limit and, for conversions, its daily quotas.
+// Returns the 429 response for a request over a limit. Public routes are not limited.
+async function enforceLimits(request: Request, env: Env, ctx: ExecutionContext, client: RequestClient): Promise<Response | null> {
+  const pathname = new URL(request.url).pathname;
+  if (!requiredScope(request.method, pathname)) {
+    return null;
+  }
+  const now = new Date();
+
+  if (client.limits.requests_per_minute) {
+    const windowStart = Math.floor(now.getTime() / 60000) * 60;
+    const counter = await env.DB.prepare(
+      `INSERT INTO rate_limits (client_id, window_start, requests) VALUES (?, ?, 1) 
+       ON CONFLICT (client_id, window_start) DO UPDATE SET requests = requests + 1 
+       RETURNING requests`
+    )
+    .bind(client.clientId, windowStart)
+    .first<{ requests: number }>();
+    if (counter!.requests === 1) {
+      // First request of the minute: drop the client's older windows
+      ctx.waitUntil(env.DB.prepare('DELETE FROM rate_limits WHERE client_id = ? AND window_start < ?')
+        .bind(client.clientId, windowStart).run());
+    }
+    if (counter!.requests > client.limits.requests_per_minute) {
+      return limitResponse(
+        `Rate limit exceeded: ${client.limits.requests_per_minute} requests per minute`,
+        windowStart + 60 - Math.floor(now.getTime() / 1000)
+      );
+    }
+  }
+
+  if (quotaRoute(request.method, pathname)) {
+    const usage = await readUsage(env, client.clientId, usageDay(now));
+    const exceeded = exceededQuota(client.limits, usage);
+    if (exceeded) {
+      return limitResponse(`Daily ${exceeded} quota exceeded`, secondsUntilNextDay(now));
+    }
+    // Counted before the route runs, so that concurrent requests cannot overrun the quota;
+    // fetch refunds it if the route rejects the request
+    await recordUsage(env, client.clientId, { tasks: 1 });
+  }
+  return null;
+}
+
+function limitResponse(message: string, retryAfter: number): Response {
+  return new Response(JSON.stringify({
+    error: message
+  }), {
+    status: 429,
+    headers: { 'Content-Type': 'application/json', 'Retry-After': String(Math.max(retryAfter, 1)) }
+  });
+}
+
+// Pages and source bytes of a conversion, counted against the daily quotas
+function conversionUsage(converted: ConvertedSources): { pages: number; bytes: number } {
+  return {
+    pages: converted.pages,
+    bytes: converted.sources.reduce((total, source) => total + source.data.byteLength, 0),
+  };
+}
+
+async function readUsage(env: Env, clientId: string, day: string): Promise<DailyUsage> {
+  const usage = await env.DB.prepare('SELECT day, tasks, pages, bytes FROM usage WHERE client_id = ? AND day = ?')
+    .bind(clientId, day)
+    .first<DailyUsage>();
+  return usage ?? { day, tasks: 0, pages: 0, bytes: 0 };
+}
+
+// Add to the client's usage of the current day
+async function recordUsage(env: Env, clientId: string, usage: Partial<Omit<DailyUsage, 'day'>>) {
+  await env.DB.prepare(
+    `INSERT INTO usage (client_id, day, tasks, pages, bytes) VALUES (?, ?, ?, ?, ?) 
+     ON CONFLICT (client_id, day) DO UPDATE SET 
+       tasks = tasks + excluded.tasks, pages = pages + excluded.pages, bytes = bytes + excluded.bytes`
+  )
+  .bind(clientId, usageDay(new Date()), usage.tasks ?? 0, usage.pages ?? 0, usage.bytes ?? 0)
+  .run();
+}
+
+async function readDocumentInfo(env: Env, documentId: string, tenantId: string): Promise<DocumentInfo | null> {
+  return env.DB.prepare(`SELECT ${DOCUMENT_COLUMNS} FROM documents d WHERE d.id = ? AND d.tenant_id = ?`)
+    .bind(documentId, tenantId)
+    .first<DocumentInfo>();
+}
+
+// Remove every R2 object stored under a document's prefix, recorded in files or not
+async function deleteDocumentFiles(env: Env, documentId: string) {
+  let cursor: string | undefined;
+  do {
+    const listing = await env.FILES.list({ prefix: documentPrefix(documentId), cursor });
+    if (listing.objects.length > 0) {
+      await env.FILES.delete(listing.objects.map(object => object.key));
+    }
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+}
+
+async function documentFileKeys(env: Env, documentId: string): Promise<string[]> {
+  const files = await env.DB.prepare('SELECT key FROM files WHERE document_id = ? ORDER BY id').bind(documentId).all<{ key: string }>();
+  return files.results.map(file => file.key);
+}
+
+function rootKeyRequired(): Response {
+  return new Response(JSON.stringify({
+    error: 'Only DOCLING_SERVE_API_KEY can manage migrations'
+  }), {
+    status: 403,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+async function migrationsStatus(env: Env): Promise<MigrationsResponse> {
+  const applied = await appliedMigrations(d1MigrationDatabase(env.DB));
+  return {
+    current_version: applied.length ? applied[applied.length - 1].version : 0,
+    migrations: [
+      ...applied,
+      ...pendingMigrations(MIGRATIONS, applied).map(({ version, name }) => ({ version, name, applied_at: null })),
+    ],
+  };
+}
+
+// Apply pending migrations before the first request or queue batch this isolate handles, unless
+// DOCLING_SERVE_AUTO_MIGRATE is "false". A failed run is retried by the next request.
+function ensureSchema(env: Env): Promise<unknown> {
+  if (env.DOCLING_SERVE_AUTO_MIGRATE === 'false') {
+    return Promise.resolve();
+  }
+  schemaReady ??= migrate(d1MigrationDatabase(env.DB), MIGRATIONS).catch(error => {
+    schemaReady = undefined;
+    throw error;
+  });
+  return schemaReady;
+}
 
 // Function to ensure default vectorizer exists
-async function ensureDefaultVectorizer(env: Env) {
+async function ensureDefaultVectorizer(env: Env, tenantId: string) {
   try {
-    // Check if a default vectorizer already exists
-    const defaultVectorizer = await env.DB.prepare(
-      `SELECT id FROM vectorizers WHERE model_name = ?`
-    )
-    .bind(env.DEFAULT_MODEL || 'gpt-4o-mini')
-    .first();
-    
-    if (!defaultVectorizer) {
-      // Create default vectorizer if it doesn't exist
-      const vectorizerId = crypto.randomUUID();
-      const defaultParameters = {
-        chunk_overlap: 200,
-        max_tokens: 8192,
-        token_encoding: 'cl100k_base',
-        enable_summarization: true,
-        enable_metadata_extraction: true
-      };
-      
-      await env.DB.prepare(
-        `INSERT INTO vectorizers (id, model_name, engine_type, chunk_size, ocr_engine, parameters) 
-         VALUES (?, ?, ?, ?, ?, ?)`
-      )
-      .bind(
-        vectorizerId,
-        env.DEFAULT_MODEL || 'gpt-4o-mini',
-        'openai',
-        CHUNK_SIZE_TOKENS,
-        'easyocr',
-        JSON.stringify(defaultParameters)
-      )
-      .run();
-      
-      console.log(`Created default vectorizer for model: ${env.DEFAULT_MODEL || 'gpt-4o-mini'}`);
+    const existing = await defaultVectorizer(env, tenantId);
+    if (existing?.is_default) {
+      return;
+    }
+    if (existing) {
+      // Databases from before the default flag use the first vectorizer for DEFAULT_MODEL
+      await setDefaultVectorizer(env, tenantId, existing.id);
+    } else {
+      await createVectorizer(env, tenantId, defaultVectorizerSettings(env.DEFAULT_MODEL || 'gpt-4o-mini'), true);
+      console.log(`Created default vectorizer for tenant ${tenantId} and model: ${env.DEFAULT_MODEL || 'gpt-4o-mini'}`);
     }
   } catch (error) {
     console.error('Error ensuring default vectorizer:', error);
@@ -1760,28 +4293,32 @@ async function ensureDefaultVectorizer(env: Env) {
 // Main worker fetch event handler
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-    // Add CORS headers to allow requests from any origin
-    const corsHeaders = {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With',
-      'Access-Control-Max-Age': '86400',
-      'Access-Control-Allow-Credentials': 'true',
-    };
+    const url = new URL(request.url);
+
+    // Cross-origin requests are only served to the origins allowed by CORS_ALLOWED_ORIGINS;
+    // the Worker's own pages are always allowed
+    const cors = corsPolicy(env);
+    const origin = request.headers.get('Origin');
+    if (origin && origin !== url.origin && !originAllowed(cors, origin)) {
+      return new Response(JSON.stringify({
+        error: `Origin ${origin} is not allowed`
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json', 'Vary': 'Origin' }
+      });
+    }
+    const corsHeaders = allowOriginHeaders(cors, origin);
     
     // Handle CORS preflight requests
     if (request.method === 'OPTIONS') {
       return new Response(null, {
-        headers: corsHeaders,
+        status: 204,
+        headers: preflightHeaders(cors, origin, routeMethods(url.pathname)),
       });
     }
     
-    // Ensure default vectorizer exists (do this asynchronously to not block the request)
-    ctx.waitUntil(ensureDefaultVectorizer(env));
-    
     try {
       // First try to serve static assets if the request doesn't match a defined route
-      const url = new URL(request.url);
       // Skip API routes - let the router handle these
       if (!url.pathname.startsWith('/v1alpha/') && 
           url.pathname !== '/health' && 
@@ -1814,17 +4351,63 @@ export default {
       console.error('Error handling static content:', error);
     }
     
-    // Route the request
-    const response = await router.handle(request, env, ctx);
+    try {
+      await ensureSchema(env);
+    } catch (error) {
+      console.error('Error applying migrations:', error);
+      return new Response(JSON.stringify({
+        error: 'Database migration failed',
+        message: (error as Error).message
+      }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders }
+      });
+    }
+
+    // Route the request once its API key allows it
+    const auth = await authorize(request, env, ctx);
+    let response: Response;
+    if (auth instanceof Response) {
+      response = auth;
+    } else {
+      // Ensure the tenant's default vectorizer exists (asynchronously, to not block the request)
+      ctx.waitUntil(ensureDefaultVectorizer(env, auth.tenantId));
+      const limited = await enforceLimits(request, env, ctx, auth);
+      response = limited ?? await router.handle(Object.assign(request, auth), env, ctx);
+      // Requests rejected as invalid give back the task enforceLimits counted
+      if (!limited && quotaRoute(request.method, url.pathname) && response.status >= 400 && response.status < 500) {
+        ctx.waitUntil(recordUsage(env, auth.clientId, { tasks: -1 }));
+      }
+    }
+
+    // WebSocket upgrades must be returned as they are
+    if (response.status === 101) {
+      return response;
+    }
     
     // Add CORS headers to the response
     const newResponse = new Response(response.body, response);
-    // Use type assertion to safely access headers
-    const headersObject: Record<string, string> = corsHeaders;
-    Object.keys(headersObject).forEach(key => {
-      newResponse.headers.set(key, headersObject[key]);
+    Object.keys(corsHeaders).forEach(key => {
+      newResponse.headers.set(key, corsHeaders[key]);
     });
     
     return newResponse;
   },
+
+  // Consumer of the conversion, webhook and embedding queues
+  async queue(batch: MessageBatch<ConversionJob | ReprocessJob | ReindexJob | WebhookJob | EmbeddingJob>, env: Env): Promise<void> {
+    // Failures retry the batch
+    await ensureSchema(env);
+    for (const message of batch.messages) {
+      if ('delivery_id' in message.body) {
+        await deliverWebhook(env, message as Message<WebhookJob>);
+      } else if ('reprocess' in message.body || 'reindex' in message.body) {
+        await handleReprocessMessage(env, message as Message<ReprocessJob | ReindexJob>);
+      } else if ('vectorizer_id' in message.body) {
+        await handleEmbeddingMessage(env, message as Message<EmbeddingJob>);
+      } else {
+        await handleConversionMessage(env, message as Message<ConversionJob>);
+      }
+    }
+  },
 }; 
\ No newline at end of file
@@ -0,0 +1,40 @@
+// Decompress zlib ('deflate') or raw DEFLATE ('deflate-raw') data with the runtime's DecompressionStream.
+// Corrupt or truncated input is common in PDFs and zip files, so whatever was decoded before the
+// error is returned instead of failing the whole document.
+export async function inflate(data: Uint8Array, format: 'deflate' | 'deflate-raw' = 'deflate'): Promise<Uint8Array> {
+  const stream = new DecompressionStream(format);
+  const writer = stream.writable.getWriter();
+  writer.write(data).catch(() => undefined);
+  writer.close().catch(() => undefined);
+
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(value);
+    }
+  } catch {
+    // Keep the partial output
+  }
+
+  return concatBytes(chunks);
+}
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) {
+    return chunks[0];
+  }
+
+  const length = chunks.reduce((total, chunk) => total + chunk.length, 0);
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
@@ -0,0 +1,86 @@
+import { ConversionError } from './convert';
+import { DailyUsage, UsageLimits } from './models';
+
+// Request rate limits and daily conversion quotas, counted per API key or client IP
+
+export interface LimitsConfig {
+  RATE_LIMIT_PER_MINUTE?: string;
+  DAILY_TASK_QUOTA?: string;
+  DAILY_PAGE_QUOTA?: string;
+  DAILY_BYTE_QUOTA?: string;
+}
+
+const LIMIT_NAMES: (keyof UsageLimits)[] = ['requests_per_minute', 'daily_tasks', 'daily_pages', 'daily_bytes'];
+
+// Limits from the environment; 0 (or unset) means unlimited
+export function defaultLimits(config: LimitsConfig): UsageLimits {
+  return {
+    requests_per_minute: limitValue(config.RATE_LIMIT_PER_MINUTE),
+    daily_tasks: limitValue(config.DAILY_TASK_QUOTA),
+    daily_pages: limitValue(config.DAILY_PAGE_QUOTA),
+    daily_bytes: limitValue(config.DAILY_BYTE_QUOTA),
+  };
+}
+
+// Limits of an API key: its own settings (the JSON limits column) over the defaults
+export function keyLimits(defaults: UsageLimits, overrides: string | null): UsageLimits {
+  return { ...defaults, ...(overrides ? JSON.parse(overrides) as Partial<UsageLimits> : {}) };
+}
+
+export function parseLimits(value: unknown): Partial<UsageLimits> | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ConversionError(`limits must be an object with ${LIMIT_NAMES.join(', ')}`, 400);
+  }
+  const limits: Partial<UsageLimits> = {};
+  for (const [name, limit] of Object.entries(value)) {
+    if (!LIMIT_NAMES.includes(name as keyof UsageLimits)) {
+      throw new ConversionError(`Unknown limit: ${name}. Allowed values: ${LIMIT_NAMES.join(', ')}`, 400);
+    }
+    if (!Number.isInteger(limit) || (limit as number) < 0) {
+      throw new ConversionError(`limits.${name} must be a non-negative integer (0 for unlimited)`, 400);
+    }
+    limits[name as keyof UsageLimits] = limit as number;
+  }
+  return limits;
+}
+
+// Requests that start conversions or reprocessing, which count against the daily quotas
+export function quotaRoute(method: string, pathname: string): boolean {
+  return method === 'POST' && (
+    pathname.startsWith('/v1alpha/convert/') ||
+    /^\/v1alpha\/documents\/[^/]+\/reprocess$/.test(pathname) ||
+    /^\/v1alpha\/vectorizers\/[^/]+\/reindex$/.test(pathname)
+  );
+}
+
+// The first daily quota the usage has reached, if any
+export function exceededQuota(limits: UsageLimits, usage: DailyUsage): 'tasks' | 'pages' | 'bytes' | undefined {
+  if (limits.daily_tasks && usage.tasks >= limits.daily_tasks) {
+    return 'tasks';
+  }
+  if (limits.daily_pages && usage.pages >= limits.daily_pages) {
+    return 'pages';
+  }
+  if (limits.daily_bytes && usage.bytes >= limits.daily_bytes) {
+    return 'bytes';
+  }
+  return undefined;
+}
+
+// Day of the usage counters (YYYY-MM-DD, UTC)
+export function usageDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function secondsUntilNextDay(now: Date): number {
+  const tomorrow = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((tomorrow - now.getTime()) / 1000);
+}
+
+function limitValue(value: string | undefined): number {
+  const limit = parseInt(value || '0', 10);
+  return Number.isInteger(limit) && limit > 0 ? limit : 0;
+}
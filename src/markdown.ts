@@ -0,0 +1,177 @@
+import { DocumentBuilder, TableCellInput, TextRun } from './document';
+
+// Markdown (CommonMark with GFM tables) to document conversion
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const BLOCKQUOTE = /^ {0,3}>\s?/;
+
+type PendingText =
+  | { type: 'paragraph' }
+  | { type: 'heading'; level: number }
+  | { type: 'list_item'; level: number; ordered: boolean };
+
+export function convertMarkdown(markdown: string, builder: DocumentBuilder, baseUrl?: string) {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+
+  // Text lines of the paragraph, heading or list item being built
+  let pending: { shape: PendingText; lines: string[] } | undefined;
+  // Indentation of the open list levels
+  let listIndents: number[] = [];
+
+  const flush = () => {
+    if (pending) {
+      const { runs, images } = parseInline(pending.lines.join(' '), baseUrl);
+      const { shape } = pending;
+      if (shape.type === 'heading') {
+        builder.markupHeading(runs, shape.level);
+      } else if (shape.type === 'list_item') {
+        builder.listItem(runs, shape.level, shape.ordered);
+      } else {
+        builder.text(runs);
+      }
+      for (const image of images) {
+        builder.picture(image.src, { caption: image.alt });
+      }
+      pending = undefined;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(BLOCKQUOTE, '');
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trimStart().startsWith(fence[1]); i++) {
+        code.push(lines[i]);
+      }
+      builder.code(code.join('\n'), fence[2] || undefined);
+      listIndents = [];
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      flush();
+      pending = { shape: { type: 'heading', level: heading[1].length }, lines: [heading[2] || ''] };
+      flush();
+      listIndents = [];
+      continue;
+    }
+
+    if (pending?.shape.type === 'paragraph' && SETEXT_UNDERLINE.test(line)) {
+      pending.shape = { type: 'heading', level: line.trim()[0] === '=' ? 1 : 2 };
+      flush();
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      flush();
+      listIndents = [];
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      flush();
+      const indent = item[1].replace(/\t/g, '    ').length;
+      while (listIndents.length > 0 && listIndents[listIndents.length - 1] > indent) {
+        listIndents.pop();
+      }
+      if (listIndents.length === 0 || listIndents[listIndents.length - 1] < indent) {
+        listIndents.push(indent);
+      }
+      pending = {
+        shape: { type: 'list_item', level: listIndents.length - 1, ordered: /\d/.test(item[2]) },
+        lines: [item[3]],
+      };
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      flush();
+      const rows = [tableCells(line, true)];
+      for (i += 2; i < lines.length && lines[i].includes('|') && lines[i].trim(); i++) {
+        rows.push(tableCells(lines[i], false));
+      }
+      i--;
+      builder.table(rows);
+      listIndents = [];
+      continue;
+    }
+
+    // Continuation lines extend the open paragraph or list item
+    if (pending) {
+      pending.lines.push(line.trim());
+    } else {
+      if (!/^\s/.test(line)) {
+        listIndents = [];
+      }
+      pending = { shape: { type: 'paragraph' }, lines: [line.trim()] };
+    }
+  }
+  flush();
+}
+
+function tableCells(line: string, header: boolean): TableCellInput[] {
+  const cells = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/);
+  return cells.map(cell => ({ text: plainText(cell.trim().replace(/\\\|/g, '|')), columnHeader: header }));
+}
+
+const INLINE_LINK = /!\[([^\]]*)\]\(\s*<?([^)\s>]*)>?(?:\s+["'][^"']*["'])?\s*\)|\[([^\]]+)\]\(\s*<?([^)\s>]*)>?(?:\s+["'][^"']*["'])?\s*\)|<(https?:\/\/[^>\s]+)>/g;
+
+// Split inline Markdown into text runs (links kept as hrefs) and the images it references
+function parseInline(text: string, baseUrl?: string): { runs: TextRun[]; images: { src: string; alt: string }[] } {
+  const runs: TextRun[] = [];
+  const images: { src: string; alt: string }[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_LINK)) {
+    runs.push({ text: plainText(text.slice(last, match.index)) });
+    if (match[0].startsWith('!')) {
+      images.push({ src: resolveUrl(match[2], baseUrl), alt: plainText(match[1]) });
+    } else if (match[3] !== undefined) {
+      runs.push({ text: plainText(match[3]), href: resolveUrl(match[4], baseUrl) || undefined });
+    } else {
+      runs.push({ text: match[5], href: match[5] });
+    }
+    last = match.index! + match[0].length;
+  }
+  runs.push({ text: plainText(text.slice(last)) });
+
+  return { runs, images };
+}
+
+// Drop emphasis, code and escape markup, keeping the text
+function plainText(text: string): string {
+  return text
+    .replace(/`+([^`]+)`+/g, '$1')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?=\S)(.+?)(?<=\S)\*(?![\w*])/g, '$1$2')
+    .replace(/(^|\W)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, '$1');
+}
+
+function resolveUrl(url: string, baseUrl?: string): string {
+  if (!url || url.startsWith('#') || !baseUrl) {
+    return url;
+  }
+  try {
+    return new URL(url, baseUrl).toString();
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,94 @@
+// Runner for the versioned schema migrations in migrations.ts. Applied versions are recorded in
+// schema_migrations; each migration runs in one transaction with its record, so a failed or
+// concurrent run never leaves a version half applied.
+
+export interface Migration {
+  version: number;
+  name: string;
+  // One SQL statement each, run in order; triggers make splitting a single SQL script unreliable
+  statements: (string | GuardedStatement)[];
+}
+
+// Statement skipped when `skipIf` returns a row, for changes a database may already have
+export interface GuardedStatement {
+  sql: string;
+  skipIf: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+// Database the migrations run against: D1 in the Worker, or a local SQLite driver in tests
+export interface MigrationDatabase {
+  all<T>(sql: string): Promise<T[]>;
+  // Run the statements in one transaction
+  transaction(statements: { sql: string; params: (string | number)[] }[]): Promise<void>;
+}
+
+const CREATE_MIGRATIONS_TABLE = `CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+)`;
+
+export function d1MigrationDatabase(db: D1Database): MigrationDatabase {
+  return {
+    all: async <T>(sql: string) => (await db.prepare(sql).all<T>()).results,
+    // D1 runs a batch as a transaction
+    transaction: async statements => {
+      await db.batch(statements.map(({ sql, params }) => db.prepare(sql).bind(...params)));
+    },
+  };
+}
+
+export async function appliedMigrations(db: MigrationDatabase): Promise<AppliedMigration[]> {
+  await db.transaction([{ sql: CREATE_MIGRATIONS_TABLE, params: [] }]);
+  return db.all<AppliedMigration>('SELECT version, name, applied_at FROM schema_migrations ORDER BY version');
+}
+
+export function pendingMigrations(migrations: Migration[], applied: AppliedMigration[]): Migration[] {
+  const versions = new Set(applied.map(migration => migration.version));
+  return migrations.filter(migration => !versions.has(migration.version));
+}
+
+// Apply the migrations not yet recorded, in version order, and return them
+export async function migrate(db: MigrationDatabase, migrations: Migration[]): Promise<Migration[]> {
+  checkMigrations(migrations);
+  const pending = pendingMigrations(migrations, await appliedMigrations(db));
+  for (const migration of pending) {
+    try {
+      const statements: string[] = [];
+      for (const statement of migration.statements) {
+        if (typeof statement === 'string') {
+          statements.push(statement);
+        } else if ((await db.all(statement.skipIf)).length === 0) {
+          statements.push(statement.sql);
+        }
+      }
+      await db.transaction([
+        ...statements.map(sql => ({ sql, params: [] })),
+        { sql: 'INSERT INTO schema_migrations (version, name) VALUES (?, ?)', params: [migration.version, migration.name] },
+      ]);
+    } catch (error) {
+      // Another isolate may have applied it first, in which case its record now exists
+      const applied = await appliedMigrations(db);
+      if (!applied.some(row => row.version === migration.version)) {
+        throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${(error as Error).message}`);
+      }
+    }
+  }
+  return pending;
+}
+
+// Versions must be positive and strictly increasing, so that every database applies them in the same order
+function checkMigrations(migrations: Migration[]) {
+  migrations.forEach((migration, index) => {
+    if (!Number.isInteger(migration.version) || migration.version < 1 ||
+        (index > 0 && migration.version <= migrations[index - 1].version)) {
+      throw new Error(`Migration ${migration.name} has an invalid version: ${migration.version}`);
+    }
+  });
+}
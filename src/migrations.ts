@@ -0,0 +1,322 @@
+import { GuardedStatement, Migration } from './migrate';
+
+// Schema migrations, applied in version order by migrate(). Applied migrations must never be
+// edited: schema changes go in a new migration with the next version. Version 1 is the schema.sql
+// the Worker started from; databases created from a later schema.sql, before migrations, already
+// have some of the changes below, so columns are only added when missing and tables and indexes
+// only created when missing.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    statements: [
+      // Create documents table to store document metadata
+      `CREATE TABLE IF NOT EXISTS documents (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        format TEXT NOT NULL,
+        pages INTEGER NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        content TEXT, -- Stores document content or reference to content
+        vectorizer_id TEXT, -- Reference to vectorizer used for this document
+        FOREIGN KEY (vectorizer_id) REFERENCES vectorizers(id)
+      )`,
+
+      // Create tasks table to track document processing tasks
+      `CREATE TABLE IF NOT EXISTS tasks (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL, -- 'pending', 'processing', 'completed', 'failed'
+        document_id TEXT,
+        progress REAL DEFAULT 0,
+        message TEXT,
+        error TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (document_id) REFERENCES documents(id)
+      )`,
+
+      // Create sources table to store document sources (URLs)
+      `CREATE TABLE IF NOT EXISTS sources (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        document_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (document_id) REFERENCES documents(id)
+      )`,
+
+      // Create file_chunks table to store file content in chunks
+      // (for larger documents that exceed D1 size limits)
+      `CREATE TABLE IF NOT EXISTS file_chunks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        document_id TEXT NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (document_id) REFERENCES documents(id),
+        UNIQUE (document_id, chunk_index)
+      )`,
+
+      // Create vectorizers table to track Docling parameters
+      `CREATE TABLE IF NOT EXISTS vectorizers (
+        id TEXT PRIMARY KEY,
+        model_name TEXT NOT NULL,
+        engine_type TEXT NOT NULL,
+        chunk_size INTEGER NOT NULL,
+        ocr_engine TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        parameters TEXT -- JSON string for additional parameters
+      )`,
+    ],
+  },
+  {
+    version: 2,
+    name: 'document_json',
+    statements: [
+      // DoclingDocument-style tree used to render output formats
+      addColumn('documents', 'document_json', 'TEXT'),
+    ],
+  },
+  {
+    version: 3,
+    name: 'upload_chunks',
+    statements: [
+      // Files uploaded to /v1alpha/convert/file/async until the queue consumer has converted them
+      `CREATE TABLE IF NOT EXISTS upload_chunks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        task_id TEXT NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        data BLOB NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (task_id) REFERENCES tasks(id),
+        UNIQUE (task_id, chunk_index)
+      )`,
+    ],
+  },
+  {
+    version: 4,
+    name: 'webhooks',
+    statements: [
+      // Notified with a signed POST when the task completes or fails
+      addColumn('tasks', 'callback_url', 'TEXT'),
+
+      // Each callback_url delivery attempt
+      `CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        delivery_id TEXT NOT NULL, -- Shared by the attempts of one notification (X-Docling-Delivery)
+        task_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        event TEXT NOT NULL, -- 'task.completed' or 'task.failed'
+        attempt INTEGER NOT NULL,
+        delivered INTEGER NOT NULL DEFAULT 0,
+        status_code INTEGER,
+        error TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (task_id) REFERENCES tasks(id)
+      )`,
+    ],
+  },
+  {
+    version: 5,
+    name: 'r2_files',
+    statements: [
+      // Objects stored in the FILES R2 bucket
+      `CREATE TABLE IF NOT EXISTS files (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        document_id TEXT NOT NULL,
+        key TEXT NOT NULL UNIQUE, -- R2 object key, served at /v1alpha/files/<key>
+        kind TEXT NOT NULL, -- 'original', 'output' or 'image'
+        content_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (document_id) REFERENCES documents(id)
+      )`,
+
+      // Async uploads are stored in R2 instead
+      `DROP TABLE IF EXISTS upload_chunks`,
+    ],
+  },
+  {
+    version: 6,
+    name: 'document_chunks',
+    statements: [
+      // Token-sized chunks of converted documents
+      `CREATE TABLE IF NOT EXISTS document_chunks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        document_id TEXT NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        content TEXT NOT NULL, -- Section headings followed by the chunk content, as Markdown
+        headings TEXT NOT NULL, -- JSON array of the enclosing headings, outermost first
+        token_count INTEGER NOT NULL, -- cl100k_base tokens in content
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (document_id) REFERENCES documents(id),
+        UNIQUE (document_id, chunk_index)
+      )`,
+    ],
+  },
+  {
+    version: 7,
+    name: 'chunk_positions',
+    statements: [
+      // JSON array of the pages the chunk content came from
+      addColumn('document_chunks', 'page_numbers', "TEXT NOT NULL DEFAULT '[]'"),
+      // Character range of the chunk content in the Markdown output
+      addColumn('document_chunks', 'start_offset', 'INTEGER NOT NULL DEFAULT 0'),
+      addColumn('document_chunks', 'end_offset', 'INTEGER NOT NULL DEFAULT 0'),
+    ],
+  },
+  {
+    version: 8,
+    name: 'chunk_embeddings',
+    statements: [
+      // One vector per chunk and vectorizer
+      `CREATE TABLE IF NOT EXISTS chunk_embeddings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        document_id TEXT NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        vectorizer_id TEXT NOT NULL,
+        model TEXT NOT NULL, -- Embedding model that produced the vector
+        dimensions INTEGER NOT NULL,
+        embedding BLOB NOT NULL, -- Little-endian float32 values
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (document_id) REFERENCES documents(id),
+        FOREIGN KEY (vectorizer_id) REFERENCES vectorizers(id),
+        UNIQUE (document_id, chunk_index, vectorizer_id)
+      )`,
+    ],
+  },
+  {
+    version: 9,
+    name: 'source_format',
+    statements: [
+      // Detected input formats of the sources, comma-separated
+      addColumn('documents', 'source_format', 'TEXT'),
+    ],
+  },
+  {
+    version: 10,
+    name: 'keyword_search',
+    statements: [
+      // Keyword search over chunks and the names of their documents; rowid is
+      // document_chunks.id, and the triggers below keep it in sync
+      `CREATE VIRTUAL TABLE IF NOT EXISTS document_chunks_fts USING fts5(
+        content,
+        headings,
+        document_name,
+        tokenize = 'unicode61 remove_diacritics 2'
+      )`,
+
+      `CREATE TRIGGER IF NOT EXISTS document_chunks_fts_insert AFTER INSERT ON document_chunks BEGIN
+        INSERT INTO document_chunks_fts (rowid, content, headings, document_name)
+        VALUES (new.id, new.content, new.headings, (SELECT name FROM documents WHERE id = new.document_id));
+      END`,
+
+      `CREATE TRIGGER IF NOT EXISTS document_chunks_fts_delete AFTER DELETE ON document_chunks BEGIN
+        DELETE FROM document_chunks_fts WHERE rowid = old.id;
+      END`,
+
+      `CREATE TRIGGER IF NOT EXISTS document_chunks_fts_update AFTER UPDATE OF content, headings ON document_chunks BEGIN
+        UPDATE document_chunks_fts SET content = new.content, headings = new.headings WHERE rowid = new.id;
+      END`,
+
+      `CREATE TRIGGER IF NOT EXISTS documents_fts_rename AFTER UPDATE OF name ON documents BEGIN
+        UPDATE document_chunks_fts SET document_name = new.name
+        WHERE rowid IN (SELECT id FROM document_chunks WHERE document_id = new.id);
+      END`,
+
+      // Index the chunks stored before the triggers existed
+      `INSERT INTO document_chunks_fts (rowid, content, headings, document_name)
+        SELECT c.id, c.content, c.headings, d.name FROM document_chunks c JOIN documents d ON d.id = c.document_id
+        WHERE c.id NOT IN (SELECT rowid FROM document_chunks_fts)`,
+    ],
+  },
+  {
+    version: 11,
+    name: 'default_vectorizer',
+    statements: [
+      // Used by documents converted without a vectorizer
+      addColumn('vectorizers', 'is_default', 'INTEGER NOT NULL DEFAULT 0'),
+
+      // At most one vectorizer is the default. Databases that already have tenants have one
+      // default per tenant instead (version 13).
+      {
+        sql: 'CREATE UNIQUE INDEX IF NOT EXISTS vectorizers_default ON vectorizers (is_default) WHERE is_default = 1',
+        skipIf: hasColumn('vectorizers', 'tenant_id'),
+      },
+    ],
+  },
+  {
+    version: 12,
+    name: 'api_keys',
+    statements: [
+      // Keys accepted once DOCLING_SERVE_API_KEY is set
+      `CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        key_prefix TEXT NOT NULL, -- First characters of the key, to tell keys apart
+        key_hash TEXT NOT NULL UNIQUE, -- Hex SHA-256 of the key; the key itself is not stored
+        scopes TEXT NOT NULL, -- Comma-separated: 'convert', 'read', 'admin'
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_used_at TIMESTAMP
+      )`,
+    ],
+  },
+  {
+    version: 13,
+    name: 'tenants',
+    statements: [
+      // Tenant of the API key that created the row; existing rows join the default tenant
+      addColumn('documents', 'tenant_id', "TEXT NOT NULL DEFAULT 'default'"),
+      addColumn('tasks', 'tenant_id', "TEXT NOT NULL DEFAULT 'default'"),
+      addColumn('sources', 'tenant_id', "TEXT NOT NULL DEFAULT 'default'"),
+      addColumn('file_chunks', 'tenant_id', "TEXT NOT NULL DEFAULT 'default'"),
+      addColumn('vectorizers', 'tenant_id', "TEXT NOT NULL DEFAULT 'default'"),
+      // Tenant whose data the key can reach
+      addColumn('api_keys', 'tenant_id', "TEXT NOT NULL DEFAULT 'default'"),
+
+      // At most one vectorizer per tenant is the default
+      `DROP INDEX IF EXISTS vectorizers_default`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS vectorizers_tenant_default ON vectorizers (tenant_id) WHERE is_default = 1`,
+
+      `CREATE INDEX IF NOT EXISTS documents_tenant ON documents (tenant_id, created_at)`,
+      `CREATE INDEX IF NOT EXISTS tasks_tenant ON tasks (tenant_id, created_at)`,
+    ],
+  },
+  {
+    version: 14,
+    name: 'usage_limits',
+    statements: [
+      // JSON overrides of the default rate limit and daily quotas
+      addColumn('api_keys', 'limits', 'TEXT'),
+
+      // Requests per client (API key or IP) and minute
+      `CREATE TABLE IF NOT EXISTS rate_limits (
+        client_id TEXT NOT NULL,
+        window_start INTEGER NOT NULL, -- Unix time of the start of the minute
+        requests INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (client_id, window_start)
+      )`,
+
+      // Conversions per client and UTC day, for the daily quotas
+      `CREATE TABLE IF NOT EXISTS usage (
+        client_id TEXT NOT NULL,
+        day TEXT NOT NULL, -- YYYY-MM-DD
+        tasks INTEGER NOT NULL DEFAULT 0,
+        pages INTEGER NOT NULL DEFAULT 0,
+        bytes INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (client_id, day)
+      )`,
+    ],
+  },
+];
+
+function addColumn(table: string, column: string, definition: string): GuardedStatement {
+  return {
+    sql: `ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`,
+    skipIf: hasColumn(table, column),
+  };
+}
+
+function hasColumn(table: string, column: string): string {
+  return `SELECT 1 FROM pragma_table_info('${table}') WHERE name = '${column}'`;
+}
@@ -11,6 +11,176 @@ export enum MessageKind {
   SUCCESS = "success",
 }
 
+// Input formats accepted by docling-serve
+export enum InputFormat {
+  DOCX = "docx",
+  PPTX = "pptx",
+  HTML = "html",
+  IMAGE = "image",
+  PDF = "pdf",
+  ASCIIDOC = "asciidoc",
+  MD = "md",
+  CSV = "csv",
+  XLSX = "xlsx",
+}
+
+// Output formats accepted by docling-serve
+export enum OutputFormat {
+  MARKDOWN = "md",
+  JSON = "json",
+  HTML = "html",
+  TEXT = "text",
+  DOCTAGS = "doctags",
+}
+
+// Document model, serialized as JSON compatible with Docling's DoclingDocument
+export interface RefItem {
+  $ref: string;
+}
+
+export type ContentLayer = "body" | "furniture";
+
+export interface BoundingBox {
+  l: number;
+  t: number;
+  r: number;
+  b: number;
+  coord_origin: "TOPLEFT" | "BOTTOMLEFT";
+}
+
+export interface ProvenanceItem {
+  page_no: number;
+  bbox: BoundingBox;
+  charspan: [number, number];
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface ImageRef {
+  mimetype: string;
+  dpi: number;
+  size: Size;
+  uri: string;
+}
+
+export interface NodeItem {
+  self_ref: string;
+  parent?: RefItem;
+  children: RefItem[];
+  content_layer: ContentLayer;
+}
+
+export interface GroupItem extends NodeItem {
+  name: string;
+  label: "unspecified" | "list" | "ordered_list" | "inline" | "section" | "sheet" | "slide";
+}
+
+export interface TextItem extends NodeItem {
+  label: "title" | "paragraph" | "text" | "caption" | "footnote" | "page_header" | "page_footer";
+  prov: ProvenanceItem[];
+  orig: string;
+  text: string;
+  hyperlink?: string;
+}
+
+export interface SectionHeaderItem extends Omit<TextItem, "label"> {
+  label: "section_header";
+  level: number;
+}
+
+export interface ListItem extends Omit<TextItem, "label"> {
+  label: "list_item";
+  enumerated: boolean;
+  marker: string;
+}
+
+export interface CodeItem extends Omit<TextItem, "label"> {
+  label: "code";
+  code_language?: string;
+}
+
+export type DocTextItem = TextItem | SectionHeaderItem | ListItem | CodeItem;
+
+export interface TableCell {
+  text: string;
+  row_span: number;
+  col_span: number;
+  start_row_offset_idx: number;
+  end_row_offset_idx: number;
+  start_col_offset_idx: number;
+  end_col_offset_idx: number;
+  column_header: boolean;
+  row_header: boolean;
+  row_section: boolean;
+}
+
+export interface TableData {
+  table_cells: TableCell[];
+  num_rows: number;
+  num_cols: number;
+  // Every grid position references the cell covering it, so spanning cells repeat
+  grid: TableCell[][];
+}
+
+export interface TableItem extends NodeItem {
+  label: "table";
+  prov: ProvenanceItem[];
+  captions: RefItem[];
+  references: RefItem[];
+  footnotes: RefItem[];
+  data: TableData;
+}
+
+export interface PictureItem extends NodeItem {
+  label: "picture";
+  prov: ProvenanceItem[];
+  captions: RefItem[];
+  references: RefItem[];
+  footnotes: RefItem[];
+  image?: ImageRef;
+  annotations: unknown[];
+}
+
+export interface PageItem {
+  size: Size;
+  page_no: number;
+}
+
+export interface DocumentOrigin {
+  mimetype: string;
+  binary_hash: number;
+  filename: string;
+  uri?: string;
+}
+
+export interface DoclingDocument {
+  schema_name: "DoclingDocument";
+  version: string;
+  name: string;
+  origin?: DocumentOrigin;
+  furniture: GroupItem;
+  body: GroupItem;
+  groups: GroupItem[];
+  texts: DocTextItem[];
+  pictures: PictureItem[];
+  tables: TableItem[];
+  key_value_items: unknown[];
+  form_items: unknown[];
+  pages: Record<string, PageItem>;
+}
+
+// Rendered outputs keyed by output format
+export interface ExportContent {
+  md?: string;
+  text?: string;
+  html?: string;
+  doctags?: string;
+  json?: DoclingDocument;
+}
+
 export interface TaskStatusResponse {
   task_id: string;
   status: "pending" | "processing" | "completed" | "failed";
@@ -24,13 +194,171 @@ export interface ConvertDocumentResponse extends TaskStatusResponse {
     document_id: string;
     pages: number;
     format: string;
-    content?: any;
+    content?: ExportContent;
     file_keys?: string[];
   };
 }
 
+// Stored document, as listed by /v1alpha/documents
+export interface DocumentInfo {
+  id: string;
+  name: string;
+  // Output formats requested for the document, comma-separated
+  format: string;
+  // Detected input formats of the sources, comma-separated
+  source_format: string | null;
+  pages: number;
+  vectorizer_id: string | null;
+  created_at: string;
+}
+
+export interface DocumentListResponse {
+  documents: DocumentInfo[];
+  // Passed as cursor to get the next page; null on the last page
+  next_cursor: string | null;
+}
+
+export interface DocumentDetailsResponse extends DocumentInfo {
+  // URLs the document was converted from; empty for uploaded files
+  sources: string[];
+  file_keys: string[];
+  chunk_count: number;
+}
+
+// Chunk of a converted document, in the shape of Docling's HybridChunker output
+export interface DocumentChunk {
+  chunk_index: number;
+  // Section headings followed by the chunk content, as Markdown
+  text: string;
+  token_count: number;
+  // Enclosing headings, outermost first
+  headings: string[];
+  page_numbers: number[];
+  // Character range of the chunk's own content in the document's Markdown output;
+  // the heading prefix and any overlap carried from the previous chunk lie outside it
+  start_offset: number;
+  end_offset: number;
+}
+
+export interface DocumentChunksResponse {
+  document_id: string;
+  chunks: DocumentChunk[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Chunk found by /v1alpha/search, with the document it belongs to
+export interface SearchResult extends DocumentChunk {
+  document_id: string;
+  document_name: string;
+  score: number;
+}
+
+// Chunking and embedding settings, as returned by /v1alpha/vectorizers
+export interface Vectorizer {
+  id: string;
+  model_name: string;
+  // "openai" for OpenAI-compatible embeddings, "none" to chunk without embedding
+  engine_type: string;
+  chunk_size: number;
+  ocr_engine: string | null;
+  parameters: Record<string, unknown>;
+  // Used by documents converted without a vectorizer_id
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// convert: run conversions and reprocessing; read: everything else that only reads;
+// admin: all of the above, plus vectorizers, API keys, deletes, migrations and the raw tables
+export type ApiKeyScope = "convert" | "read" | "admin";
+
+// API key, as returned by /v1alpha/api-keys; the key itself is only returned on creation
+export interface ApiKey {
+  id: string;
+  // Documents, tasks and vectorizers are shared by the keys of a tenant
+  tenant_id: string;
+  name: string;
+  // First characters of the key
+  prefix: string;
+  scopes: ApiKeyScope[];
+  // Limits set for this key, over the deployment's defaults
+  limits: Partial<UsageLimits>;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+}
+
+// Response of POST /v1alpha/status/ws/:taskId/token
+export interface TaskTokenResponse {
+  // Sent as ?token= to open /v1alpha/status/ws/:taskId without an API key
+  token: string;
+  expires_at: string;
+}
+
+// Request rate and daily quotas of an API key or client IP; 0 means unlimited
+export interface UsageLimits {
+  requests_per_minute: number;
+  // Conversion, reprocess and reindex requests
+  daily_tasks: number;
+  daily_pages: number;
+  // Bytes of converted source documents
+  daily_bytes: number;
+}
+
+export interface DailyUsage {
+  day: string; // YYYY-MM-DD, UTC
+  tasks: number;
+  pages: number;
+  bytes: number;
+}
+
+export interface UsageResponse {
+  // "key:<id>" for API keys, "root" for DOCLING_SERVE_API_KEY, "ip:<address>" otherwise
+  client_id: string;
+  limits: UsageLimits;
+  requests_this_minute: number;
+  // Newest first, starting with today
+  days: DailyUsage[];
+  // When the daily quotas reset
+  resets_at: string;
+}
+
+// Schema migration, as listed by /v1alpha/migrations
+export interface SchemaMigration {
+  version: number;
+  name: string;
+  // null while pending
+  applied_at: string | null;
+}
+
+export interface MigrationsResponse {
+  // Highest applied version; 0 for an empty database
+  current_version: number;
+  migrations: SchemaMigration[];
+  // Versions applied by this request (POST only)
+  applied?: number[];
+}
+
+// vector: embedding similarity; keyword: FTS5 BM25; hybrid: both, fused by reciprocal rank
+export type SearchMode = "vector" | "keyword" | "hybrid";
+
+export interface SearchResponse {
+  query: string;
+  mode: SearchMode;
+  // Vectorizer whose embeddings were searched; null in keyword mode
+  vectorizer_id: string | null;
+  results: SearchResult[];
+}
+
 // Request models
 export interface ConvertDocumentsOptions {
+  from_formats?: InputFormat[];
+  to_formats?: OutputFormat[] | OutputFormat;
   format?: string;
   keep_image?: boolean;
   orientation_detection?: boolean;
@@ -51,6 +379,53 @@ export interface DocumentSource {
 export interface ConvertDocumentsRequest {
   sources: (string | DocumentSource)[];
   options?: ConvertDocumentsOptions;
+  // Receives a signed POST when the task completes or fails
+  callback_url?: string;
+  // Vectorizer that chunks and embeds the document; the default vectorizer when unset
+  vectorizer_id?: string;
+}
+
+// Body of POST and PATCH /v1alpha/vectorizers; POST requires model_name
+export interface VectorizerRequest {
+  model_name?: string;
+  engine_type?: string;
+  chunk_size?: number;
+  // Stored in parameters
+  chunk_overlap?: number;
+  ocr_engine?: string | null;
+  parameters?: Record<string, unknown>;
+  is_default?: boolean;
+}
+
+// Body of POST /v1alpha/api-keys
+export interface ApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  // Only DOCLING_SERVE_API_KEY may create keys for another tenant; defaults to the caller's
+  tenant_id?: string;
+  // Overrides of the default limits
+  limits?: Partial<UsageLimits>;
+}
+
+// Body of PATCH /v1alpha/documents/:id
+export interface DocumentUpdateRequest {
+  name?: string;
+}
+
+export interface SearchRequest {
+  query: string;
+  top_k?: number;
+  // Vectorizer whose embeddings are searched; defaults to the vectorizer of a single
+  // filtered document, then to the default vectorizer
+  vectorizer_id?: string;
+  filters?: {
+    document_ids?: string[];
+    // Input formats of the source documents, such as "pdf" or "docx"
+    formats?: string[];
+    // ISO 8601 dates bounding when documents were created
+    created_after?: string;
+    created_before?: string;
+  };
 }
 
 export interface ProgressCallbackRequest {
@@ -0,0 +1,526 @@
+import { DocumentBuilder, imageMimeType, ItemLocation, TableCellInput } from './document';
+import { childElement, childElements, findElement, findElements, parseXml, textContent, XmlElement } from './xml';
+import { ZipArchive } from './zip';
+
+// Office Open XML (ECMA-376) converters for Word, PowerPoint and Excel packages.
+// Each converter appends to the builder and returns the number of pages (slides, sheets).
+
+async function readPart(zip: ZipArchive, name: string): Promise<XmlElement | undefined> {
+  const text = await zip.readText(name);
+  return text === undefined ? undefined : parseXml(text);
+}
+
+// Map relationship ids of a part to package paths
+async function readRelationships(zip: ZipArchive, partName: string): Promise<Map<string, string>> {
+  const directory = partName.includes('/') ? partName.slice(0, partName.lastIndexOf('/')) : '';
+  const fileName = partName.slice(partName.lastIndexOf('/') + 1);
+  const rels = await readPart(zip, `${directory ? directory + '/' : ''}_rels/${fileName}.rels`);
+
+  const targets = new Map<string, string>();
+  for (const relationship of findElements(rels, 'Relationship')) {
+    const target = relationship.attributes.Target || '';
+    targets.set(relationship.attributes.Id, resolvePartPath(directory, target));
+  }
+  return targets;
+}
+
+function resolvePartPath(directory: string, target: string): string {
+  if (target.startsWith('/')) {
+    return target.slice(1);
+  }
+  const segments = directory ? directory.split('/') : [];
+  for (const segment of target.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+// Add a picture whose image is the package part an a:blip embeds; linked images have no data
+async function embeddedPicture(
+  zip: ZipArchive,
+  builder: DocumentBuilder,
+  relationships: Map<string, string>,
+  blip: XmlElement | undefined,
+  options: { caption?: string; location?: ItemLocation } = {}
+) {
+  const path = relationships.get(attribute(blip, 'r:embed') || '');
+  const data = path ? await zip.read(path) : undefined;
+  builder.picture(undefined, { ...options, ...(path && data ? { data, mimetype: imageMimeType(path) } : {}) });
+}
+
+function attribute(element: XmlElement | undefined, name: string): string | undefined {
+  return element?.attributes[name];
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// ---------------------------------------------------------------------------
+// Word (.docx)
+// ---------------------------------------------------------------------------
+
+interface WordStyle {
+  title: boolean;
+  headingLevel?: number;
+  numbered: boolean;
+  ordered: boolean;
+}
+
+export async function convertDocx(zip: ZipArchive, builder: DocumentBuilder): Promise<number> {
+  const document = await readPart(zip, 'word/document.xml');
+  const body = findElement(document, 'w:body');
+  if (!body) {
+    throw new Error('Word document has no body');
+  }
+
+  const styles = await readWordStyles(zip);
+  const numbering = await readWordNumbering(zip);
+  const relationships = await readRelationships(zip, 'word/document.xml');
+
+  const paragraph = async (p: XmlElement) => {
+    const text = cleanText(wordText(p));
+    if (text) {
+      paragraphText(p, text);
+    }
+    // Pictures drawn in the paragraph follow its text
+    for (const drawing of findElements(p, 'w:drawing')) {
+      const caption = attribute(findElement(drawing, 'wp:docPr'), 'descr');
+      await embeddedPicture(zip, builder, relationships, findElement(drawing, 'a:blip'), { caption });
+    }
+  };
+
+  const paragraphText = (p: XmlElement, text: string) => {
+    const properties = childElement(p, 'w:pPr');
+    const style = styles.get(attribute(childElement(properties, 'w:pStyle'), 'w:val') || '');
+    const outline = attribute(childElement(properties, 'w:outlineLvl'), 'w:val');
+    if (style?.title && outline === undefined) {
+      builder.title(text);
+      return;
+    }
+    const headingLevel = outline !== undefined ? parseInt(outline, 10) + 1 : style?.headingLevel;
+    if (headingLevel !== undefined && headingLevel <= 9) {
+      builder.heading(text, headingLevel);
+      return;
+    }
+
+    const numPr = childElement(properties, 'w:numPr');
+    if (numPr || style?.numbered) {
+      const level = parseInt(attribute(childElement(numPr, 'w:ilvl'), 'w:val') || '0', 10);
+      const numId = attribute(childElement(numPr, 'w:numId'), 'w:val');
+      // numId 0 explicitly removes numbering inherited from the style
+      if (numId !== '0') {
+        const ordered = numId !== undefined ? numbering.get(`${numId}:${level}`) ?? false : style?.ordered ?? false;
+        builder.listItem(text, level, ordered);
+        return;
+      }
+    }
+
+    builder.text(text);
+  };
+
+  const walk = async (element: XmlElement) => {
+    for (const child of childElements(element)) {
+      switch (child.name) {
+        case 'w:p':
+          await paragraph(child);
+          break;
+        case 'w:tbl':
+          builder.table(wordTableRows(child));
+          break;
+        case 'w:sdt':
+          await walk(childElement(child, 'w:sdtContent') || child);
+          break;
+        case 'w:customXml':
+        case 'w:ins':
+          await walk(child);
+          break;
+      }
+    }
+  };
+  await walk(body);
+
+  const app = await readPart(zip, 'docProps/app.xml');
+  return parseInt(textContent(findElement(app, 'Pages')) || '1', 10) || 1;
+}
+
+// Visible text of a paragraph: text runs, tabs and breaks, without deleted text or field codes
+function wordText(element: XmlElement): string {
+  let text = '';
+  for (const child of childElements(element)) {
+    switch (child.name) {
+      case 'w:t':
+        text += textContent(child);
+        break;
+      case 'w:tab':
+        text += '\t';
+        break;
+      case 'w:br':
+      case 'w:cr':
+        text += ' ';
+        break;
+      case 'w:del':
+      case 'w:instrText':
+      case 'w:pPr':
+      case 'w:rPr':
+        break;
+      default:
+        text += wordText(child);
+    }
+  }
+  return text;
+}
+
+interface WordCell {
+  cell: TableCellInput;
+  column: number;
+  continued: boolean;
+}
+
+// Rows of a table; vertically merged cells get a row span and their continuation cells are dropped
+function wordTableRows(table: XmlElement): TableCellInput[][] {
+  const rows: WordCell[][] = childElements(table, 'w:tr').map(row => {
+    const header = Boolean(childElement(childElement(row, 'w:trPr'), 'w:tblHeader'));
+    let column = 0;
+    return childElements(row, 'w:tc').map(cell => {
+      const properties = childElement(cell, 'w:tcPr');
+      const colSpan = Math.max(1, parseInt(attribute(childElement(properties, 'w:gridSpan'), 'w:val') || '1', 10) || 1);
+      const vMerge = childElement(properties, 'w:vMerge');
+      const wordCell = {
+        cell: { text: cleanText(findElements(cell, 'w:p').map(wordText).join(' ')), colSpan, columnHeader: header },
+        column,
+        continued: Boolean(vMerge) && attribute(vMerge, 'w:val') !== 'restart',
+      };
+      column += colSpan;
+      return wordCell;
+    });
+  });
+
+  return rows.map((row, r) =>
+    row
+      .filter(({ continued }) => !continued)
+      .map(({ cell, column }) => {
+        let rowSpan = 1;
+        while (rows[r + rowSpan]?.some(below => below.continued && below.column === column)) {
+          rowSpan++;
+        }
+        return rowSpan > 1 ? { ...cell, rowSpan } : cell;
+      })
+  );
+}
+
+async function readWordStyles(zip: ZipArchive): Promise<Map<string, WordStyle>> {
+  const part = await readPart(zip, 'word/styles.xml');
+  const styles = new Map<string, WordStyle>();
+  const basedOn = new Map<string, string>();
+
+  for (const style of findElements(part, 'w:style')) {
+    const id = attribute(style, 'w:styleId');
+    if (!id) {
+      continue;
+    }
+    const name = (attribute(childElement(style, 'w:name'), 'w:val') || '').toLowerCase();
+    const properties = childElement(style, 'w:pPr');
+    const outline = attribute(childElement(properties, 'w:outlineLvl'), 'w:val');
+    const headingMatch = name.match(/^heading\s*(\d)$/);
+
+    let headingLevel: number | undefined;
+    if (headingMatch) {
+      headingLevel = parseInt(headingMatch[1], 10);
+    } else if (outline !== undefined) {
+      headingLevel = parseInt(outline, 10) + 1;
+    }
+
+    styles.set(id, {
+      title: name === 'title',
+      headingLevel,
+      numbered: Boolean(childElement(properties, 'w:numPr')) || /^list (bullet|number)/.test(name),
+      ordered: /^list number/.test(name),
+    });
+    const parent = attribute(childElement(style, 'w:basedOn'), 'w:val');
+    if (parent) {
+      basedOn.set(id, parent);
+    }
+  }
+
+  // Inherit heading levels through basedOn chains
+  for (const [id, style] of styles) {
+    let parent = basedOn.get(id);
+    for (let depth = 0; parent && !style.title && style.headingLevel === undefined && depth < 10; depth++) {
+      style.title = styles.get(parent)?.title ?? false;
+      style.headingLevel = styles.get(parent)?.headingLevel;
+      parent = basedOn.get(parent);
+    }
+  }
+  return styles;
+}
+
+// Map "numId:level" to whether the list level is ordered
+async function readWordNumbering(zip: ZipArchive): Promise<Map<string, boolean>> {
+  const part = await readPart(zip, 'word/numbering.xml');
+  const abstractFormats = new Map<string, Map<number, boolean>>();
+  for (const abstract of findElements(part, 'w:abstractNum')) {
+    const levels = new Map<number, boolean>();
+    for (const level of childElements(abstract, 'w:lvl')) {
+      const format = attribute(childElement(level, 'w:numFmt'), 'w:val') || 'decimal';
+      levels.set(parseInt(attribute(level, 'w:ilvl') || '0', 10), format !== 'bullet' && format !== 'none');
+    }
+    abstractFormats.set(attribute(abstract, 'w:abstractNumId') || '', levels);
+  }
+
+  const ordered = new Map<string, boolean>();
+  for (const num of findElements(part, 'w:num')) {
+    const abstractId = attribute(childElement(num, 'w:abstractNumId'), 'w:val') || '';
+    for (const [level, isOrdered] of abstractFormats.get(abstractId) || []) {
+      ordered.set(`${attribute(num, 'w:numId')}:${level}`, isOrdered);
+    }
+  }
+  return ordered;
+}
+
+// ---------------------------------------------------------------------------
+// PowerPoint (.pptx)
+// ---------------------------------------------------------------------------
+
+const SKIPPED_PLACEHOLDERS = new Set(['dt', 'ftr', 'sldNum', 'hdr']);
+
+// Drawing coordinates are in EMUs; pages are measured in points
+const EMU_PER_POINT = 12700;
+
+export async function convertPptx(zip: ZipArchive, builder: DocumentBuilder): Promise<number> {
+  const presentation = await readPart(zip, 'ppt/presentation.xml');
+  const relationships = await readRelationships(zip, 'ppt/presentation.xml');
+  const slidePaths = findElements(presentation, 'p:sldId')
+    .map(slide => relationships.get(attribute(slide, 'r:id') || ''))
+    .filter((path): path is string => Boolean(path));
+
+  const slideSize = findElement(presentation, 'p:sldSz');
+  const width = parseInt(attribute(slideSize, 'cx') || '9144000', 10) / EMU_PER_POINT;
+  const height = parseInt(attribute(slideSize, 'cy') || '6858000', 10) / EMU_PER_POINT;
+
+  for (const [index, path] of slidePaths.entries()) {
+    builder.page(index + 1, width, height);
+    const slide = await readPart(zip, path);
+    const tree = findElement(slide, 'p:spTree');
+    if (tree) {
+      await convertSlide(zip, path, tree, index + 1, builder);
+    }
+  }
+  return slidePaths.length;
+}
+
+// Shape bounds on the slide; shapes inside groups use the group's own coordinate space and are left unplaced
+function shapeLocation(transform: XmlElement | undefined, pageNo: number): ItemLocation | undefined {
+  const offset = childElement(transform, 'a:off');
+  const extent = childElement(transform, 'a:ext');
+  if (!offset || !extent) {
+    return undefined;
+  }
+  const l = parseInt(attribute(offset, 'x') || '0', 10) / EMU_PER_POINT;
+  const t = parseInt(attribute(offset, 'y') || '0', 10) / EMU_PER_POINT;
+  const r = l + parseInt(attribute(extent, 'cx') || '0', 10) / EMU_PER_POINT;
+  const b = t + parseInt(attribute(extent, 'cy') || '0', 10) / EMU_PER_POINT;
+  return { page_no: pageNo, bbox: { l, t, r, b, coord_origin: 'TOPLEFT' } };
+}
+
+// Add the items of one slide, with the title placeholder first
+async function convertSlide(zip: ZipArchive, path: string, tree: XmlElement, pageNo: number, builder: DocumentBuilder) {
+  const relationships = await readRelationships(zip, path);
+  const titles: (() => unknown)[] = [];
+  const content: (() => unknown)[] = [];
+
+  const walk = (group: XmlElement, grouped: boolean) => {
+    for (const shape of childElements(group)) {
+      if (shape.name === 'p:grpSp') {
+        walk(shape, true);
+      } else if (shape.name === 'p:graphicFrame') {
+        const table = findElement(shape, 'a:tbl');
+        if (table) {
+          const location = grouped ? undefined : shapeLocation(childElement(shape, 'p:xfrm'), pageNo);
+          content.push(() => builder.table(drawingTableRows(table), { location }));
+        }
+      } else if (shape.name === 'p:pic') {
+        const location = grouped ? undefined : shapeLocation(childElement(childElement(shape, 'p:spPr'), 'a:xfrm'), pageNo);
+        const caption = attribute(findElement(childElement(shape, 'p:nvPicPr'), 'p:cNvPr'), 'descr');
+        const blip = findElement(childElement(shape, 'p:blipFill'), 'a:blip');
+        content.push(() => embeddedPicture(zip, builder, relationships, blip, { caption, location }));
+      } else if (shape.name === 'p:sp') {
+        const placeholder = findElement(childElement(shape, 'p:nvSpPr'), 'p:ph');
+        const placeholderType = attribute(placeholder, 'type');
+        if (placeholderType && SKIPPED_PLACEHOLDERS.has(placeholderType)) {
+          continue;
+        }
+
+        const location = grouped ? undefined : shapeLocation(childElement(childElement(shape, 'p:spPr'), 'a:xfrm'), pageNo);
+        const paragraphs = findElements(childElement(shape, 'p:txBody'), 'a:p');
+        if (placeholderType === 'title' || placeholderType === 'ctrTitle') {
+          const text = cleanText(paragraphs.map(drawingText).join(' '));
+          if (text) {
+            // The first slide title names the document; later ones head their slides
+            titles.push(() => (builder.hasTitle ? builder.heading(text, 1, { location }) : builder.title(text, { location })));
+          }
+          continue;
+        }
+
+        // Body placeholders are bulleted unless a paragraph says otherwise
+        const bulletedByDefault = Boolean(placeholder) && placeholderType !== 'subTitle';
+        for (const paragraph of paragraphs) {
+          const text = cleanText(drawingText(paragraph));
+          if (!text) {
+            continue;
+          }
+          const properties = childElement(paragraph, 'a:pPr');
+          const level = parseInt(attribute(properties, 'lvl') || '0', 10);
+          const ordered = Boolean(childElement(properties, 'a:buAutoNum'));
+          const bulleted = !childElement(properties, 'a:buNone') &&
+            (ordered || Boolean(childElement(properties, 'a:buChar')) || bulletedByDefault);
+          content.push(() => (bulleted ? builder.listItem(text, level, ordered, { location }) : builder.text(text, 'paragraph', { location })));
+        }
+      }
+    }
+  };
+  walk(tree, false);
+
+  for (const add of [...titles, ...content]) {
+    await add();
+  }
+}
+
+function drawingText(paragraph: XmlElement): string {
+  return childElements(paragraph)
+    .map(child => {
+      if (child.name === 'a:r' || child.name === 'a:fld') {
+        return textContent(childElement(child, 'a:t'));
+      }
+      return child.name === 'a:br' ? ' ' : '';
+    })
+    .join('');
+}
+
+// Merged-away cells (hMerge, vMerge) are covered by the span of the cell they merge into
+function drawingTableRows(table: XmlElement): TableCellInput[][] {
+  const firstRowHeader = attribute(childElement(table, 'a:tblPr'), 'firstRow') === '1';
+  return childElements(table, 'a:tr').map((row, r) =>
+    childElements(row, 'a:tc')
+      .filter(cell => attribute(cell, 'hMerge') !== '1' && attribute(cell, 'vMerge') !== '1')
+      .map(cell => ({
+        text: cleanText(findElements(cell, 'a:p').map(drawingText).join(' ')),
+        rowSpan: parseInt(attribute(cell, 'rowSpan') || '1', 10),
+        colSpan: parseInt(attribute(cell, 'gridSpan') || '1', 10),
+        columnHeader: firstRowHeader && r === 0,
+      }))
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Excel (.xlsx)
+// ---------------------------------------------------------------------------
+
+export async function convertXlsx(zip: ZipArchive, builder: DocumentBuilder): Promise<number> {
+  const workbook = await readPart(zip, 'xl/workbook.xml');
+  const relationships = await readRelationships(zip, 'xl/workbook.xml');
+  const sharedStrings = findElements(await readPart(zip, 'xl/sharedStrings.xml'), 'si').map(item =>
+    childElements(item)
+      .map(child => (child.name === 't' ? textContent(child) : child.name === 'r' ? textContent(childElement(child, 't')) : ''))
+      .join('')
+  );
+
+  const sheets = findElements(workbook, 'sheet');
+  for (const sheet of sheets) {
+    const path = relationships.get(attribute(sheet, 'r:id') || '');
+    const worksheet = path ? await readPart(zip, path) : undefined;
+    builder.heading(attribute(sheet, 'name') || 'Sheet', 1);
+
+    const rows = sheetRows(worksheet, sharedStrings);
+    if (rows.length > 0) {
+      builder.table(rows);
+    }
+  }
+  return sheets.length;
+}
+
+// Cell grid of a worksheet, trimmed to the used range; merged ranges become spans
+function sheetRows(worksheet: XmlElement | undefined, sharedStrings: string[]): TableCellInput[][] {
+  const cells: { row: number; column: number; value: string }[] = [];
+  for (const [rowIndex, row] of findElements(findElement(worksheet, 'sheetData'), 'row').entries()) {
+    const rowNumber = parseInt(attribute(row, 'r') || '', 10) || rowIndex + 1;
+    for (const [cellIndex, cell] of childElements(row, 'c').entries()) {
+      const reference = attribute(cell, 'r') || '';
+      const column = reference ? columnIndex(reference) : cellIndex;
+      const value = cellValue(cell, sharedStrings).trim();
+      if (value) {
+        cells.push({ row: rowNumber, column, value });
+      }
+    }
+  }
+  if (cells.length === 0) {
+    return [];
+  }
+
+  const firstRow = Math.min(...cells.map(cell => cell.row));
+  const lastRow = Math.max(...cells.map(cell => cell.row));
+  const firstColumn = Math.min(...cells.map(cell => cell.column));
+  const lastColumn = Math.max(...cells.map(cell => cell.column));
+
+  const grid: (TableCellInput | undefined)[][] = Array.from({ length: lastRow - firstRow + 1 }, () =>
+    Array.from({ length: lastColumn - firstColumn + 1 }, () => ({ text: '' }))
+  );
+  for (const cell of cells) {
+    grid[cell.row - firstRow][cell.column - firstColumn] = { text: cell.value };
+  }
+
+  for (const merge of findElements(findElement(worksheet, 'mergeCells'), 'mergeCell')) {
+    const [start, end = start] = (attribute(merge, 'ref') || '').split(':');
+    if (!start) {
+      continue;
+    }
+    // Clip the merged range to the used range
+    const top = Math.max(parseInt(start.replace(/^[A-Z]+/i, ''), 10), firstRow) - firstRow;
+    const bottom = Math.min(parseInt(end.replace(/^[A-Z]+/i, ''), 10), lastRow) - firstRow;
+    const left = Math.max(columnIndex(start), firstColumn) - firstColumn;
+    const right = Math.min(columnIndex(end), lastColumn) - firstColumn;
+    const anchor = grid[top]?.[left];
+    if (!anchor || bottom < top || right < left) {
+      continue;
+    }
+    anchor.rowSpan = bottom - top + 1;
+    anchor.colSpan = right - left + 1;
+    for (let r = top; r <= bottom; r++) {
+      for (let c = left; c <= right; c++) {
+        if (r !== top || c !== left) {
+          grid[r][c] = undefined;
+        }
+      }
+    }
+  }
+
+  return grid.map(row => row.filter((cell): cell is TableCellInput => Boolean(cell)));
+}
+
+function cellValue(cell: XmlElement, sharedStrings: string[]): string {
+  const value = textContent(childElement(cell, 'v'));
+  switch (attribute(cell, 't')) {
+    case 's':
+      return sharedStrings[parseInt(value, 10)] ?? '';
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    case 'inlineStr':
+      return findElements(childElement(cell, 'is'), 't').map(textContent).join('');
+    default:
+      return value;
+  }
+}
+
+// "AB12" -> 27 (zero-based column index)
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
@@ -0,0 +1,455 @@
+import { concatBytes, inflate } from '../inflate';
+import {
+  asArray,
+  asName,
+  asNumber,
+  isDict,
+  isWhitespace,
+  latin1,
+  PdfDict,
+  PdfLexer,
+  PdfOperator,
+  PdfRef,
+  PdfStream,
+  PdfValue,
+} from './objects';
+
+// Error for PDFs that cannot be read at all (as opposed to pages that yield no text)
+export class PdfFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfFormatError';
+  }
+}
+
+// A page with its inherited attributes resolved
+export interface PdfPageObject {
+  dict: PdfDict;
+  resources: PdfDict;
+  mediaBox: [number, number, number, number];
+  rotate: number;
+}
+
+// Object table of a PDF file.
+// Objects are located by scanning for "n g obj" rather than trusting the xref table, which copes with
+// broken offsets and incremental updates (later definitions win). Compressed object streams are
+// expanded up front so that resolving references stays synchronous.
+export class PdfFile {
+  private objects = new Map<number, PdfValue>();
+  private trailers: PdfDict[] = [];
+
+  private constructor(private readonly bytes: Uint8Array) {}
+
+  static async load(data: ArrayBuffer): Promise<PdfFile> {
+    const file = new PdfFile(new Uint8Array(data));
+    file.scanObjects();
+    await file.expandObjectStreams();
+
+    if (file.trailers.some(trailer => trailer.has('Encrypt'))) {
+      throw new PdfFormatError('Encrypted PDFs are not supported');
+    }
+    return file;
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (value instanceof PdfRef) {
+      if (depth > 32) {
+        return undefined;
+      }
+      return this.resolve(this.objects.get(value.num), depth + 1);
+    }
+    return value;
+  }
+
+  // Look up a dictionary key and follow references
+  get(dict: PdfDict | undefined, key: string): PdfValue | undefined {
+    return dict ? this.resolve(dict.get(key)) : undefined;
+  }
+
+  getDict(dict: PdfDict | undefined, key: string): PdfDict | undefined {
+    const value = this.get(dict, key);
+    if (value instanceof PdfStream) {
+      return value.dict;
+    }
+    return isDict(value) ? value : undefined;
+  }
+
+  get catalog(): PdfDict | undefined {
+    for (const trailer of this.trailers) {
+      const root = this.resolve(trailer.get('Root'));
+      if (isDict(root)) {
+        return root;
+      }
+    }
+
+    // No usable trailer: fall back to any object typed as the catalog
+    for (const value of this.objects.values()) {
+      if (isDict(value) && asName(value.get('Type')) === 'Catalog') {
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  // Walk the page tree in document order, resolving inherited attributes
+  pages(): PdfPageObject[] {
+    const root = this.getDict(this.catalog, 'Pages');
+    if (!root) {
+      throw new PdfFormatError('PDF has no page tree');
+    }
+
+    const pages: PdfPageObject[] = [];
+    const visited = new Set<PdfDict>();
+    const walk = (node: PdfDict, inherited: Omit<PdfPageObject, 'dict'>) => {
+      if (visited.has(node)) {
+        return;
+      }
+      visited.add(node);
+
+      const attributes = {
+        resources: this.getDict(node, 'Resources') || inherited.resources,
+        mediaBox: this.readBox(node) || inherited.mediaBox,
+        rotate: node.has('Rotate') ? asNumber(this.get(node, 'Rotate')) : inherited.rotate,
+      };
+
+      const kids = this.get(node, 'Kids');
+      if (asName(node.get('Type')) === 'Pages' || Array.isArray(kids)) {
+        for (const kid of asArray(kids)) {
+          const kidDict = this.resolve(kid);
+          if (isDict(kidDict)) {
+            walk(kidDict, attributes);
+          }
+        }
+      } else {
+        pages.push({ dict: node, ...attributes });
+      }
+    };
+
+    walk(root, { resources: new Map(), mediaBox: [0, 0, 612, 792], rotate: 0 });
+    return pages;
+  }
+
+  // Decode a stream's data through its filter chain
+  async decodeStream(stream: PdfStream): Promise<Uint8Array> {
+    const filterValue = this.get(stream.dict, 'Filter');
+    const filters = Array.isArray(filterValue) ? filterValue.map(f => asName(this.resolve(f))) : [asName(filterValue)];
+    const paramsValue = this.get(stream.dict, 'DecodeParms');
+    const params = Array.isArray(paramsValue) ? paramsValue.map(p => this.resolve(p)) : [paramsValue];
+
+    let data = stream.raw;
+    for (let i = 0; i < filters.length; i++) {
+      const filter = filters[i];
+      if (!filter) {
+        continue;
+      }
+      const param = params[i];
+      switch (filter) {
+        case 'FlateDecode':
+        case 'Fl':
+          data = await inflate(data);
+          data = applyPredictor(data, isDict(param) ? param : undefined);
+          break;
+        case 'ASCIIHexDecode':
+        case 'AHx':
+          data = decodeAsciiHex(data);
+          break;
+        case 'ASCII85Decode':
+        case 'A85':
+          data = decodeAscii85(data);
+          break;
+        case 'LZWDecode':
+        case 'LZW':
+          data = decodeLzw(data);
+          data = applyPredictor(data, isDict(param) ? param : undefined);
+          break;
+        default:
+          // Image codecs (DCT, JPX, CCITT, JBIG2) carry no text
+          return new Uint8Array(0);
+      }
+    }
+    return data;
+  }
+
+  private readBox(node: PdfDict): [number, number, number, number] | undefined {
+    const box = asArray(this.get(node, 'MediaBox')).map(v => asNumber(this.resolve(v)));
+    return box.length === 4 ? [box[0], box[1], box[2], box[3]] : undefined;
+  }
+
+  private scanObjects() {
+    const bytes = this.bytes;
+    const text = latin1(bytes);
+    const header = /(\d+)\s+(\d+)\s+obj\b/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(text)) !== null) {
+      // Object headers must start at a token boundary
+      if (match.index > 0 && !isWhitespace(bytes[match.index - 1]) && bytes[match.index - 1] !== 0x3e) {
+        continue;
+      }
+
+      const lexer = new PdfLexer(bytes, match.index + match[0].length);
+      const value = lexer.parseObject();
+      if (value instanceof PdfOperator) {
+        continue;
+      }
+
+      let object: PdfValue = value;
+      if (isDict(value)) {
+        const stream = this.readStream(value, lexer);
+        if (stream) {
+          object = stream;
+          header.lastIndex = Math.max(header.lastIndex, lexer.pos);
+        }
+        if (asName(value.get('Type')) === 'XRef' && value.has('Root')) {
+          this.trailers.unshift(value);
+        }
+      }
+      this.objects.set(parseInt(match[1], 10), object);
+    }
+
+    // Classic trailers; the last one in the file is the most recent
+    const trailer = /trailer\s*<</g;
+    while ((match = trailer.exec(text)) !== null) {
+      const lexer = new PdfLexer(bytes, match.index + 'trailer'.length);
+      const value = lexer.parseObject();
+      if (!(value instanceof PdfOperator) && isDict(value)) {
+        this.trailers.unshift(value);
+      }
+    }
+  }
+
+  // Read the stream body following a dictionary, if there is one
+  private readStream(dict: PdfDict, lexer: PdfLexer): PdfStream | undefined {
+    const bytes = this.bytes;
+    lexer.skipWhitespace();
+    if (latin1(bytes, lexer.pos, lexer.pos + 6) !== 'stream') {
+      return undefined;
+    }
+
+    let start = lexer.pos + 6;
+    if (bytes[start] === 0x0d) start++;
+    if (bytes[start] === 0x0a) start++;
+
+    // Trust /Length when it is direct and lands on "endstream", otherwise search for the keyword
+    const length = dict.get('Length');
+    if (typeof length === 'number' && length >= 0 && start + length <= bytes.length) {
+      const after = new PdfLexer(bytes, start + length);
+      after.skipWhitespace();
+      if (latin1(bytes, after.pos, after.pos + 9) === 'endstream') {
+        lexer.pos = after.pos + 9;
+        return new PdfStream(dict, bytes.subarray(start, start + length));
+      }
+    }
+
+    const end = indexOf(bytes, 'endstream', start);
+    if (end < 0) {
+      lexer.pos = bytes.length;
+      return new PdfStream(dict, bytes.subarray(start));
+    }
+    let dataEnd = end;
+    if (bytes[dataEnd - 1] === 0x0a) dataEnd--;
+    if (bytes[dataEnd - 1] === 0x0d) dataEnd--;
+    lexer.pos = end + 9;
+    return new PdfStream(dict, bytes.subarray(start, Math.max(start, dataEnd)));
+  }
+
+  // Expand /Type /ObjStm streams; directly defined objects take precedence
+  private async expandObjectStreams() {
+    const streams = [...this.objects.values()].filter(
+      (value): value is PdfStream => value instanceof PdfStream && asName(value.dict.get('Type')) === 'ObjStm'
+    );
+
+    for (const stream of streams) {
+      const data = await this.decodeStream(stream);
+      const count = asNumber(this.get(stream.dict, 'N'));
+      const first = asNumber(this.get(stream.dict, 'First'));
+
+      const index = new PdfLexer(data);
+      const entries: [number, number][] = [];
+      for (let i = 0; i < count; i++) {
+        const num = index.parseObject();
+        const offset = index.parseObject();
+        if (typeof num !== 'number' || typeof offset !== 'number') {
+          break;
+        }
+        entries.push([num, offset]);
+      }
+
+      for (const [num, offset] of entries) {
+        if (this.objects.has(num)) {
+          continue;
+        }
+        const value = new PdfLexer(data, first + offset).parseObject();
+        if (!(value instanceof PdfOperator)) {
+          this.objects.set(num, value);
+        }
+      }
+    }
+  }
+}
+
+function indexOf(bytes: Uint8Array, needle: string, from: number): number {
+  const first = needle.charCodeAt(0);
+  outer: for (let i = from; i <= bytes.length - needle.length; i++) {
+    if (bytes[i] !== first) {
+      continue;
+    }
+    for (let j = 1; j < needle.length; j++) {
+      if (bytes[i + j] !== needle.charCodeAt(j)) {
+        continue outer;
+      }
+    }
+    return i;
+  }
+  return -1;
+}
+
+// PNG and TIFF predictors used by Flate and LZW encoded streams
+function applyPredictor(data: Uint8Array, params: PdfDict | undefined): Uint8Array {
+  const predictor = asNumber(params?.get('Predictor'), 1);
+  if (predictor < 10) {
+    return data;
+  }
+
+  const colors = asNumber(params?.get('Colors'), 1);
+  const bitsPerComponent = asNumber(params?.get('BitsPerComponent'), 8);
+  const columns = asNumber(params?.get('Columns'), 1);
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bitsPerComponent) / 8));
+  const rowLength = Math.ceil((colors * bitsPerComponent * columns) / 8);
+
+  const rows: Uint8Array[] = [];
+  let previous = new Uint8Array(rowLength);
+  for (let offset = 0; offset + 1 <= data.length; offset += rowLength + 1) {
+    const type = data[offset];
+    const row = data.slice(offset + 1, offset + 1 + rowLength);
+    for (let i = 0; i < row.length; i++) {
+      const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+      const up = previous[i];
+      const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+      switch (type) {
+        case 1: row[i] = (row[i] + left) & 0xff; break;
+        case 2: row[i] = (row[i] + up) & 0xff; break;
+        case 3: row[i] = (row[i] + ((left + up) >> 1)) & 0xff; break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          const paeth = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+          row[i] = (row[i] + paeth) & 0xff;
+          break;
+        }
+      }
+    }
+    rows.push(row);
+    previous = row;
+  }
+  return concatBytes(rows);
+}
+
+function decodeAsciiHex(data: Uint8Array): Uint8Array {
+  const text = latin1(data).replace(/>.*$/s, '').replace(/[^0-9a-fA-F]/g, '');
+  const padded = text.length % 2 ? text + '0' : text;
+  const out = new Uint8Array(padded.length / 2);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = parseInt(padded.substr(i * 2, 2), 16);
+  }
+  return out;
+}
+
+function decodeAscii85(data: Uint8Array): Uint8Array {
+  const text = latin1(data).replace(/~>.*$/s, '').replace(/^<~/, '').replace(/\s/g, '');
+  const out: number[] = [];
+  let group: number[] = [];
+
+  const flush = (count: number) => {
+    while (group.length < 5) {
+      group.push(84);
+    }
+    let value = 0;
+    for (const digit of group) {
+      value = value * 85 + digit;
+    }
+    const decoded = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    out.push(...decoded.slice(0, count));
+    group = [];
+  };
+
+  for (const char of text) {
+    if (char === 'z' && group.length === 0) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    const digit = char.charCodeAt(0) - 33;
+    if (digit < 0 || digit > 84) {
+      continue;
+    }
+    group.push(digit);
+    if (group.length === 5) {
+      flush(4);
+    }
+  }
+  if (group.length > 1) {
+    flush(group.length - 1);
+  }
+  return Uint8Array.from(out);
+}
+
+function decodeLzw(data: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  let dictionary: number[][] = [];
+  let codeLength = 9;
+  let previous: number[] | null = null;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const reset = () => {
+    dictionary = [];
+    for (let i = 0; i < 256; i++) {
+      dictionary.push([i]);
+    }
+    dictionary.push([], []); // 256 clear, 257 end of data
+    codeLength = 9;
+    previous = null;
+  };
+  reset();
+
+  for (const byte of data) {
+    bitBuffer = (bitBuffer << 8) | byte;
+    bitCount += 8;
+    while (bitCount >= codeLength) {
+      const code = (bitBuffer >> (bitCount - codeLength)) & ((1 << codeLength) - 1);
+      bitCount -= codeLength;
+      bitBuffer &= (1 << bitCount) - 1;
+
+      if (code === 256) {
+        reset();
+        continue;
+      }
+      if (code === 257) {
+        return Uint8Array.from(out);
+      }
+
+      let entry: number[];
+      if (code < dictionary.length) {
+        entry = dictionary[code];
+        if (previous) {
+          dictionary.push([...previous, entry[0]]);
+        }
+      } else if (previous) {
+        entry = [...previous, previous[0]];
+        dictionary.push(entry);
+      } else {
+        continue;
+      }
+
+      out.push(...entry);
+      previous = entry;
+      // Early change: the code length grows one code before the table fills
+      if (dictionary.length + 1 >= 1 << codeLength && codeLength < 12) {
+        codeLength++;
+      }
+    }
+  }
+  return Uint8Array.from(out);
+}
@@ -0,0 +1,440 @@
+import { PdfFile } from './document';
+import { asArray, asName, asNumber, isDict, PdfDict, PdfLexer, PdfOperator, PdfStream, PdfValue } from './objects';
+import { readTrueTypeGlyphMap } from './truetype';
+
+// One decoded character code: its Unicode text and advance width in thousandths of text space
+export interface PdfGlyph {
+  text: string;
+  width: number;
+  isSpace: boolean;
+}
+
+interface CodespaceRange {
+  length: number;
+  low: number;
+  high: number;
+}
+
+// Font resource able to turn shown string bytes into text and advances
+export class PdfFont {
+  constructor(
+    private readonly codespaces: CodespaceRange[],
+    private readonly toUnicode: Map<number, string>,
+    private readonly encoding: (string | undefined)[],
+    private readonly widths: Map<number, number>,
+    private readonly defaultWidth: number,
+    private readonly composite: boolean
+  ) {}
+
+  decode(bytes: Uint8Array): PdfGlyph[] {
+    const glyphs: PdfGlyph[] = [];
+    let pos = 0;
+    while (pos < bytes.length) {
+      const length = this.codeLength(bytes, pos);
+      let code = 0;
+      for (let i = 0; i < length; i++) {
+        code = (code << 8) | (bytes[pos + i] ?? 0);
+      }
+      pos += length;
+
+      let text = this.toUnicode.get(code);
+      if (text === undefined) {
+        // Unmapped control codes come from fonts with a private built-in encoding
+        text = this.composite ? '' : this.encoding[code] ?? (code < 32 ? '' : String.fromCharCode(code));
+      }
+      glyphs.push({
+        text,
+        width: this.widths.get(code) ?? this.defaultWidth,
+        // Word spacing applies to the single-byte code 32 only
+        isSpace: length === 1 && code === 32,
+      });
+    }
+    return glyphs;
+  }
+
+  private codeLength(bytes: Uint8Array, pos: number): number {
+    for (const range of this.codespaces) {
+      if (pos + range.length > bytes.length) {
+        continue;
+      }
+      let code = 0;
+      for (let i = 0; i < range.length; i++) {
+        code = (code << 8) | bytes[pos + i];
+      }
+      if (code >= range.low && code <= range.high) {
+        return range.length;
+      }
+    }
+    return this.composite ? Math.min(2, bytes.length - pos) : 1;
+  }
+}
+
+export async function loadFont(file: PdfFile, fontDict: PdfDict): Promise<PdfFont> {
+  const subtype = asName(file.get(fontDict, 'Subtype'));
+  const composite = subtype === 'Type0';
+
+  let codespaces: CodespaceRange[] = [];
+  let toUnicode = new Map<number, string>();
+  const toUnicodeStream = file.get(fontDict, 'ToUnicode');
+  if (toUnicodeStream instanceof PdfStream) {
+    const cmap = parseCMap(await file.decodeStream(toUnicodeStream));
+    codespaces = cmap.codespaces;
+    toUnicode = cmap.mappings;
+  }
+
+  if (composite) {
+    // Type0 fonts describe glyph widths in their descendant CIDFont
+    const descendant = file.resolve(asArray(file.get(fontDict, 'DescendantFonts'))[0]);
+    const cidFont = isDict(descendant) ? descendant : new Map<string, PdfValue>();
+    if (codespaces.length === 0) {
+      codespaces = [{ length: 2, low: 0, high: 0xffff }];
+    }
+    if (toUnicode.size === 0) {
+      toUnicode = await readEmbeddedGlyphMap(file, cidFont);
+    }
+    return new PdfFont(
+      codespaces,
+      toUnicode,
+      [],
+      readCidWidths(file, cidFont),
+      asNumber(file.get(cidFont, 'DW'), 1000),
+      true
+    );
+  }
+
+  // Type3 glyph widths are expressed in glyph space scaled by the FontMatrix
+  let widthScale = 1;
+  if (subtype === 'Type3') {
+    const matrix = asArray(file.get(fontDict, 'FontMatrix')).map(v => asNumber(file.resolve(v)));
+    widthScale = matrix.length === 6 ? matrix[0] * 1000 : 1;
+  }
+
+  const widths = new Map<number, number>();
+  const firstChar = asNumber(file.get(fontDict, 'FirstChar'));
+  asArray(file.get(fontDict, 'Widths')).forEach((width, index) => {
+    widths.set(firstChar + index, asNumber(file.resolve(width)) * widthScale);
+  });
+
+  const baseFont = asName(file.get(fontDict, 'BaseFont')) || '';
+  const defaultWidth = /courier/i.test(baseFont) ? 600 : 500;
+
+  return new PdfFont(
+    codespaces.length > 0 ? codespaces : [{ length: 1, low: 0, high: 0xff }],
+    toUnicode,
+    readSimpleEncoding(file, fontDict, baseFont),
+    widths,
+    defaultWidth,
+    false
+  );
+}
+
+// Map CIDs to text through the cmap of an embedded TrueType program (CIDFontType2 only)
+async function readEmbeddedGlyphMap(file: PdfFile, cidFont: PdfDict): Promise<Map<number, string>> {
+  const mappings = new Map<number, string>();
+  const fontFile = file.get(file.getDict(cidFont, 'FontDescriptor'), 'FontFile2');
+  if (!(fontFile instanceof PdfStream)) {
+    return mappings;
+  }
+
+  const glyphs = readTrueTypeGlyphMap(await file.decodeStream(fontFile));
+  const cidToGid = file.get(cidFont, 'CIDToGIDMap');
+  if (cidToGid instanceof PdfStream) {
+    const table = await file.decodeStream(cidToGid);
+    for (let cid = 0; cid * 2 + 1 < table.length; cid++) {
+      const text = glyphs.get((table[cid * 2] << 8) | table[cid * 2 + 1]);
+      if (text !== undefined) {
+        mappings.set(cid, text);
+      }
+    }
+    return mappings;
+  }
+
+  // Identity mapping: CIDs are glyph ids
+  return glyphs;
+}
+
+// Widths of a CIDFont: [c [w1 w2 ...]] and [cFirst cLast w] forms
+function readCidWidths(file: PdfFile, cidFont: PdfDict): Map<number, number> {
+  const widths = new Map<number, number>();
+  const entries = asArray(file.get(cidFont, 'W')).map(v => file.resolve(v));
+  for (let i = 0; i < entries.length; ) {
+    const first = asNumber(entries[i]);
+    const next = entries[i + 1];
+    if (Array.isArray(next)) {
+      next.forEach((width, index) => widths.set(first + index, asNumber(file.resolve(width))));
+      i += 2;
+    } else {
+      const last = asNumber(next);
+      const width = asNumber(entries[i + 2]);
+      for (let code = first; code <= last && code - first < 0x10000; code++) {
+        widths.set(code, width);
+      }
+      i += 3;
+    }
+  }
+  return widths;
+}
+
+function readSimpleEncoding(file: PdfFile, fontDict: PdfDict, baseFont: string): (string | undefined)[] {
+  const encodingValue = file.get(fontDict, 'Encoding');
+  const symbolic = /symbol|dingbats/i.test(baseFont);
+
+  let baseName = asName(encodingValue);
+  const differences: PdfValue[] = [];
+  if (isDict(encodingValue)) {
+    baseName = asName(file.get(encodingValue, 'BaseEncoding'));
+    differences.push(...asArray(file.get(encodingValue, 'Differences')).map(v => file.resolve(v) ?? null));
+  }
+
+  let encoding: (string | undefined)[];
+  switch (baseName) {
+    case 'MacRomanEncoding':
+      encoding = MAC_ROMAN_ENCODING;
+      break;
+    case 'StandardEncoding':
+      encoding = STANDARD_ENCODING;
+      break;
+    case 'WinAnsiEncoding':
+      encoding = WIN_ANSI_ENCODING;
+      break;
+    default:
+      encoding = symbolic ? LATIN1_ENCODING : STANDARD_ENCODING;
+  }
+
+  if (differences.length === 0) {
+    return encoding;
+  }
+
+  const result = [...encoding];
+  let code = 0;
+  for (const entry of differences) {
+    if (typeof entry === 'number') {
+      code = entry;
+    } else {
+      const name = asName(entry);
+      if (name !== undefined) {
+        result[code] = glyphNameToUnicode(name);
+        code++;
+      }
+    }
+  }
+  return result;
+}
+
+// Parse the subset of the CMap language used by ToUnicode streams
+export function parseCMap(data: Uint8Array): { codespaces: CodespaceRange[]; mappings: Map<number, string> } {
+  const codespaces: CodespaceRange[] = [];
+  const mappings = new Map<number, string>();
+  const lexer = new PdfLexer(data);
+  let mode = '';
+  let operands: PdfValue[] = [];
+
+  while (!lexer.done) {
+    const token = lexer.parseObject();
+    if (!(token instanceof PdfOperator)) {
+      operands.push(token);
+      if (mode === 'codespace' && operands.length === 2) {
+        const [low, high] = operands;
+        if (low instanceof Uint8Array && high instanceof Uint8Array) {
+          codespaces.push({ length: low.length, low: bytesToCode(low), high: bytesToCode(high) });
+        }
+        operands = [];
+      } else if (mode === 'bfchar' && operands.length === 2) {
+        const [source, target] = operands;
+        if (source instanceof Uint8Array && target instanceof Uint8Array) {
+          mappings.set(bytesToCode(source), utf16be(target));
+        }
+        operands = [];
+      } else if (mode === 'bfrange' && operands.length === 3) {
+        const [low, high, target] = operands;
+        if (low instanceof Uint8Array && high instanceof Uint8Array) {
+          const start = bytesToCode(low);
+          const end = Math.min(bytesToCode(high), start + 0xffff);
+          for (let code = start; code <= end; code++) {
+            if (Array.isArray(target)) {
+              const item = target[code - start];
+              if (item instanceof Uint8Array) {
+                mappings.set(code, utf16be(item));
+              }
+            } else if (target instanceof Uint8Array && target.length > 0) {
+              // Increment the last byte of the destination for each code in the range
+              const destination = Uint8Array.from(target);
+              const offset = code - start;
+              const last = destination.length - 1;
+              const value = destination[last] + offset;
+              destination[last] = value & 0xff;
+              if (last > 0) {
+                destination[last - 1] += value >> 8;
+              }
+              mappings.set(code, utf16be(destination));
+            }
+          }
+        }
+        operands = [];
+      }
+      continue;
+    }
+
+    switch (token.op) {
+      case 'begincodespacerange':
+        mode = 'codespace';
+        break;
+      case 'beginbfchar':
+        mode = 'bfchar';
+        break;
+      case 'beginbfrange':
+        mode = 'bfrange';
+        break;
+      case 'endcodespacerange':
+      case 'endbfchar':
+      case 'endbfrange':
+        mode = '';
+        break;
+    }
+    operands = [];
+  }
+
+  // Longer codes are tried last so that one-byte ranges win where they apply
+  codespaces.sort((a, b) => a.length - b.length);
+  return { codespaces, mappings };
+}
+
+function bytesToCode(bytes: Uint8Array): number {
+  let code = 0;
+  for (const byte of bytes) {
+    code = code * 256 + byte;
+  }
+  return code;
+}
+
+function utf16be(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    result += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  }
+  if (bytes.length === 1) {
+    result = String.fromCharCode(bytes[0]);
+  }
+  // Private use area code points carry no meaning outside the font
+  return result.replace(/[\uE000-\uF8FF]/g, '');
+}
+
+// Glyph names from the Adobe Glyph List that appear in Latin text
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quotesingle: "'", quoteright: '’', parenleft: '(', parenright: ')', asterisk: '*', plus: '+',
+  comma: ',', hyphen: '-', minus: '−', period: '.', slash: '/', zero: '0', one: '1', two: '2',
+  three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9', colon: ':',
+  semicolon: ';', less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[',
+  backslash: '\\', bracketright: ']', asciicircum: '^', underscore: '_', grave: '`', quoteleft: '‘',
+  braceleft: '{', bar: '|', braceright: '}', asciitilde: '~', exclamdown: '¡', cent: '¢',
+  sterling: '£', fraction: '⁄', yen: '¥', florin: 'ƒ', section: '§',
+  currency: '¤', quotedblleft: '“', guillemotleft: '«', guilsinglleft: '‹',
+  guilsinglright: '›', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl', endash: '–',
+  emdash: '—', dagger: '†', daggerdbl: '‡', periodcentered: '·', paragraph: '¶',
+  bullet: '•', quotesinglbase: '‚', quotedblbase: '„', quotedblright: '”',
+  guillemotright: '»', ellipsis: '…', perthousand: '‰', questiondown: '¿',
+  acute: '´', circumflex: 'ˆ', tilde: '˜', macron: '¯', breve: '˘',
+  dotaccent: '˙', dieresis: '¨', ring: '˚', cedilla: '¸', hungarumlaut: '˝',
+  ogonek: '˛', caron: 'ˇ', AE: 'Æ', ae: 'æ', OE: 'Œ', oe: 'œ',
+  Oslash: 'Ø', oslash: 'ø', Lslash: 'Ł', lslash: 'ł', dotlessi: 'ı',
+  germandbls: 'ß', ordfeminine: 'ª', ordmasculine: 'º', trademark: '™',
+  copyright: '©', registered: '®', degree: '°', plusminus: '±', multiply: '×',
+  divide: '÷', mu: 'µ', Euro: '€', nbspace: '\u00A0', sfthyphen: '\u00AD',
+  logicalnot: '¬', brokenbar: '¦', onehalf: '½', onequarter: '¼',
+  threequarters: '¾', onesuperior: '¹', twosuperior: '²', threesuperior: '³',
+  Eth: 'Ð', eth: 'ð', Thorn: 'Þ', thorn: 'þ', notequal: '≠',
+  lessequal: '≤', greaterequal: '≥', infinity: '∞', summation: '∑',
+  product: '∏', radical: '√', integral: '∫', partialdiff: '∂', Delta: '∆',
+  Omega: 'Ω', pi: 'π', lozenge: '◊', arrowright: '→', arrowleft: '←',
+  checkmark: '✓', approxequal: '≈',
+};
+
+// Combining marks for composed glyph names such as "eacute"
+const ACCENTS: Record<string, string> = {
+  acute: '\u0301', grave: '\u0300', circumflex: '\u0302', dieresis: '\u0308', tilde: '\u0303',
+  ring: '\u030A', cedilla: '\u0327', caron: '\u030C', macron: '\u0304', breve: '\u0306',
+  ogonek: '\u0328', dotaccent: '\u0307', hungarumlaut: '\u030B',
+};
+
+export function glyphNameToUnicode(name: string): string {
+  // Suffixes such as ".sc" or ".alt" name variants of the same character
+  const base = name.split('.')[0];
+  if (GLYPH_NAMES[base] !== undefined) {
+    return GLYPH_NAMES[base];
+  }
+  if (/^[A-Za-z]$/.test(base)) {
+    return base;
+  }
+
+  const uni = base.match(/^uni((?:[0-9A-F]{4})+)$/);
+  if (uni) {
+    return uni[1].match(/.{4}/g)!.map(hex => String.fromCharCode(parseInt(hex, 16))).join('');
+  }
+  const u = base.match(/^u([0-9A-F]{4,6})$/);
+  if (u) {
+    return String.fromCodePoint(parseInt(u[1], 16));
+  }
+
+  const accented = base.match(/^([A-Za-z])(acute|grave|circumflex|dieresis|tilde|ring|cedilla|caron|macron|breve|ogonek|dotaccent|hungarumlaut)$/);
+  if (accented) {
+    return (accented[1] + ACCENTS[accented[2]]).normalize('NFC');
+  }
+
+  // Ligature names joined with underscores, e.g. "f_f_i"
+  if (base.includes('_')) {
+    return base.split('_').map(glyphNameToUnicode).join('');
+  }
+  return '';
+}
+
+function singleByteTable(decoder: (code: number) => string | undefined): (string | undefined)[] {
+  const table: (string | undefined)[] = [];
+  for (let code = 0; code < 256; code++) {
+    table.push(decoder(code));
+  }
+  return table;
+}
+
+const WIN_ANSI_DECODER = new TextDecoder('windows-1252');
+
+const WIN_ANSI_ENCODING = singleByteTable(code =>
+  code < 32 ? undefined : WIN_ANSI_DECODER.decode(Uint8Array.of(code))
+);
+
+const LATIN1_ENCODING = singleByteTable(code => (code < 32 ? undefined : String.fromCharCode(code)));
+
+const MAC_ROMAN_HIGH =
+  'ÄÅÇÉÑÖÜáàâäãåçéè' +
+  'êëíìîïñóòôöõúùûü' +
+  '†°¢£§•¶ß®©™´¨≠ÆØ' +
+  '∞±≤≥¥µ∂∑∏π∫ªºΩæø' +
+  '¿¡¬√ƒ≈∆«»…\u00A0ÀÃÕŒœ' +
+  '–—“”‘’÷◊ÿŸ⁄€‹›ﬁﬂ' +
+  '‡·‚„‰ÂÊÁËÈÍÎÏÌÓÔ' +
+  '\u0000ÒÚÛÙıˆ˜¯˘˙˚¸˝˛ˇ';
+
+const MAC_ROMAN_ENCODING = singleByteTable(code => {
+  if (code < 32) return undefined;
+  if (code < 128) return String.fromCharCode(code);
+  const char = MAC_ROMAN_HIGH[code - 128];
+  return char === '\u0000' ? undefined : char.normalize('NFKC');
+});
+
+// StandardEncoding differs from ASCII in its quotes and its sparse upper half
+const STANDARD_HIGH: Record<number, string> = {
+  0x27: '’', 0x60: '‘', 0xa1: '¡', 0xa2: '¢', 0xa3: '£', 0xa4: '⁄',
+  0xa5: '¥', 0xa6: 'ƒ', 0xa7: '§', 0xa8: '¤', 0xa9: "'", 0xaa: '“',
+  0xab: '«', 0xac: '‹', 0xad: '›', 0xae: 'fi', 0xaf: 'fl', 0xb1: '–', 0xb2: '†',
+  0xb3: '‡', 0xb4: '·', 0xb6: '¶', 0xb7: '•', 0xb8: '‚', 0xb9: '„',
+  0xba: '”', 0xbb: '»', 0xbc: '…', 0xbd: '‰', 0xbf: '¿', 0xc1: '`', 0xc2: '´',
+  0xc3: 'ˆ', 0xc4: '˜', 0xc5: '¯', 0xc6: '˘', 0xc7: '˙', 0xc8: '¨',
+  0xca: '˚', 0xcb: '¸', 0xcd: '˝', 0xce: '˛', 0xcf: 'ˇ', 0xd0: '—',
+  0xe1: 'Æ', 0xe3: 'ª', 0xe8: 'Ł', 0xe9: 'Ø', 0xea: 'Œ', 0xeb: 'º',
+  0xf1: 'æ', 0xf5: 'ı', 0xf8: 'ł', 0xf9: 'ø', 0xfa: 'œ', 0xfb: 'ß',
+};
+
+const STANDARD_ENCODING = singleByteTable(code => {
+  if (STANDARD_HIGH[code] !== undefined) return STANDARD_HIGH[code];
+  return code >= 32 && code < 127 ? String.fromCharCode(code) : undefined;
+});
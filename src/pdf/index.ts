@@ -0,0 +1,72 @@
+import { concatBytes } from '../inflate';
+import { PdfFile, PdfFormatError } from './document';
+import { labelBlocks, PdfBlockLabel } from './labels';
+import { BoundingBox, layoutBlocks, PdfTextBlock } from './layout';
+import { PdfStream, PdfValue } from './objects';
+import { TextCollector } from './text';
+
+export { labelBlocks, PdfFormatError };
+export type { BoundingBox, PdfBlockLabel, PdfTextBlock };
+
+// Raised when a PDF has more pages than the configured limit
+export class PdfPageLimitError extends Error {
+  constructor(public readonly pageCount: number, public readonly maxPages: number) {
+    super(`PDF has ${pageCount} pages, which exceeds the limit of ${maxPages}`);
+    this.name = 'PdfPageLimitError';
+  }
+}
+
+export interface PdfPageText {
+  page_no: number;
+  width: number;
+  height: number;
+  blocks: PdfTextBlock[];
+  text: string;
+}
+
+export interface PdfExtraction {
+  pageCount: number;
+  pages: PdfPageText[];
+}
+
+// Extract per-page text blocks in reading order from a PDF
+export async function extractPdf(data: ArrayBuffer, maxPages = 0): Promise<PdfExtraction> {
+  const file = await PdfFile.load(data);
+  const pageObjects = file.pages();
+  if (maxPages > 0 && pageObjects.length > maxPages) {
+    throw new PdfPageLimitError(pageObjects.length, maxPages);
+  }
+
+  const pages: PdfPageText[] = [];
+  for (const [index, page] of pageObjects.entries()) {
+    const collector = new TextCollector(file);
+    await collector.run(await readContents(file, page.dict.get('Contents')), page.resources);
+
+    const blocks = layoutBlocks(collector.spans, page.mediaBox);
+    pages.push({
+      page_no: index + 1,
+      width: page.mediaBox[2] - page.mediaBox[0],
+      height: page.mediaBox[3] - page.mediaBox[1],
+      blocks,
+      text: blocks.map(block => block.text).join('\n\n'),
+    });
+  }
+
+  return { pageCount: pageObjects.length, pages };
+}
+
+// A page's /Contents is a stream or an array of streams to be concatenated
+async function readContents(file: PdfFile, contents: PdfValue | undefined): Promise<Uint8Array> {
+  const resolved = file.resolve(contents);
+  const streams = (Array.isArray(resolved) ? resolved.map(item => file.resolve(item)) : [resolved]).filter(
+    (item): item is PdfStream => item instanceof PdfStream
+  );
+
+  const parts: Uint8Array[] = [];
+  for (const stream of streams) {
+    parts.push(await file.decodeStream(stream));
+    parts.push(Uint8Array.of(0x0a));
+  }
+
+  return concatBytes(parts);
+}
@@ -0,0 +1,100 @@
+import type { PdfPageText } from './index';
+import { PdfTextBlock } from './layout';
+
+// Layout labels guessed from font sizes, positions and leading text, since untagged PDFs carry no structure
+
+export type PdfBlockLabel =
+  | { label: 'title' | 'text' | 'caption' | 'footnote' | 'page_header' | 'page_footer' }
+  | { label: 'section_header'; level: number }
+  | { label: 'list_item'; ordered: boolean; text: string };
+
+const CAPTION = /^(figure|fig\.|table|tab\.|chart|listing)\s*[\dIVX]+[.:\s]/i;
+const BULLET_ITEM = /^[•‣⁃▪●◦–—*-]\s+(.+)$/s;
+const NUMBERED_ITEM = /^(?:\(?\d{1,3}[.)]|[a-z]\))\s+(.+)$/s;
+
+// Share of the page height treated as header and footer margins
+const MARGIN = 0.07;
+const HEADING_RATIO = 1.15;
+const FOOTNOTE_RATIO = 0.85;
+const MAX_HEADING_LENGTH = 200;
+
+export function labelBlocks(pages: PdfPageText[]): PdfBlockLabel[][] {
+  const bodySize = bodyFontSize(pages);
+
+  // The title is the largest heading in the top half of the first page
+  const firstPage = pages[0]?.blocks.filter(block => isHeadingCandidate(block, bodySize) && block.bbox.t < pages[0].height / 2) || [];
+  const title = firstPage.reduce<PdfTextBlock | undefined>(
+    (largest, block) => (!largest || block.fontSize > largest.fontSize ? block : largest),
+    undefined
+  );
+
+  // Larger font sizes rank as higher section levels
+  const headingSizes = [...new Set(
+    pages.flatMap(page => page.blocks)
+      .filter(block => block !== title && isHeadingCandidate(block, bodySize))
+      .map(block => roundSize(block.fontSize))
+  )].sort((a, b) => b - a);
+
+  return pages.map(page =>
+    page.blocks.map(block => {
+      const text = block.text.trim();
+      const short = text.length < 100 && !text.includes('\n');
+      if (short && block.bbox.b < page.height * MARGIN) {
+        return { label: 'page_header' };
+      }
+      if (short && block.bbox.t > page.height * (1 - MARGIN)) {
+        return { label: 'page_footer' };
+      }
+      if (CAPTION.test(text)) {
+        return { label: 'caption' };
+      }
+      if (block === title) {
+        return { label: 'title' };
+      }
+      if (isHeadingCandidate(block, bodySize)) {
+        return { label: 'section_header', level: Math.min(headingSizes.indexOf(roundSize(block.fontSize)) + 1, 6) };
+      }
+
+      const bullet = text.match(BULLET_ITEM);
+      if (bullet) {
+        return { label: 'list_item', ordered: false, text: bullet[1] };
+      }
+      const numbered = text.match(NUMBERED_ITEM);
+      if (numbered) {
+        return { label: 'list_item', ordered: true, text: numbered[1] };
+      }
+
+      if (block.fontSize <= bodySize * FOOTNOTE_RATIO && block.bbox.t > page.height * 0.75) {
+        return { label: 'footnote' };
+      }
+      return { label: 'text' };
+    })
+  );
+}
+
+function isHeadingCandidate(block: PdfTextBlock, bodySize: number): boolean {
+  const text = block.text.trim();
+  return block.fontSize >= bodySize * HEADING_RATIO && text.length <= MAX_HEADING_LENGTH && !/[.;,]$/.test(text);
+}
+
+// Body text size: the font size covering the most characters
+function bodyFontSize(pages: PdfPageText[]): number {
+  const weights = new Map<number, number>();
+  for (const block of pages.flatMap(page => page.blocks)) {
+    const size = roundSize(block.fontSize);
+    weights.set(size, (weights.get(size) || 0) + block.text.length);
+  }
+  let best = 0;
+  let bestWeight = -1;
+  for (const [size, weight] of weights) {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+function roundSize(size: number): number {
+  return Math.round(size * 2) / 2;
+}
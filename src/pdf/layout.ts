@@ -0,0 +1,177 @@
+import { TextSpan } from './text';
+
+// Bounding box with a top-left page origin, as used in Docling provenance
+export interface BoundingBox {
+  l: number;
+  t: number;
+  r: number;
+  b: number;
+}
+
+// A paragraph-like group of lines in reading order
+export interface PdfTextBlock {
+  text: string;
+  bbox: BoundingBox;
+  fontSize: number;
+}
+
+// A line fragment in default user space (origin bottom-left)
+interface Line {
+  text: string;
+  left: number;
+  right: number;
+  bottom: number;
+  top: number;
+  baseline: number;
+  size: number;
+}
+
+// Group spans into lines, order them with a recursive XY-cut and merge them into blocks
+export function layoutBlocks(spans: TextSpan[], mediaBox: [number, number, number, number]): PdfTextBlock[] {
+  const ordered = xyCut(buildLines(spans));
+  const [originX, , , pageTop] = mediaBox;
+
+  return buildBlocks(ordered).map(block => ({
+    text: block.text,
+    fontSize: round(block.size),
+    bbox: {
+      l: round(block.left - originX),
+      t: round(pageTop - block.top),
+      r: round(block.right - originX),
+      b: round(pageTop - block.bottom),
+    },
+  }));
+}
+
+// Cluster spans sharing a baseline, then split each row wherever there is a wide horizontal gap
+function buildLines(spans: TextSpan[]): Line[] {
+  const sorted = [...spans].sort((a, b) => b.y - a.y || a.x0 - b.x0);
+  const rows: TextSpan[][] = [];
+  for (const span of sorted) {
+    const row = rows.find(candidate => Math.abs(candidate[0].y - span.y) < Math.min(candidate[0].size, span.size) * 0.4);
+    if (row) {
+      row.push(span);
+    } else {
+      rows.push([span]);
+    }
+  }
+
+  const lines: Line[] = [];
+  for (const row of rows) {
+    row.sort((a, b) => a.x0 - b.x0);
+    let line: Line | undefined;
+    for (const span of row) {
+      const gap = line ? span.x0 - line.right : Infinity;
+      if (line && gap < Math.max(line.size, span.size) * 2) {
+        if (gap > span.size * 0.15 && !line.text.endsWith(' ') && !span.text.startsWith(' ')) {
+          line.text += ' ';
+        }
+        line.text += span.text;
+        line.right = Math.max(line.right, span.x1);
+        line.size = Math.max(line.size, span.size);
+        line.top = Math.max(line.top, span.y + span.size * 0.8);
+        line.bottom = Math.min(line.bottom, span.y - span.size * 0.2);
+        continue;
+      }
+      line = {
+        text: span.text,
+        left: span.x0,
+        right: span.x1,
+        bottom: span.y - span.size * 0.2,
+        top: span.y + span.size * 0.8,
+        baseline: span.y,
+        size: span.size,
+      };
+      lines.push(line);
+    }
+  }
+
+  for (const line of lines) {
+    line.text = line.text.replace(/\s+/g, ' ').trim();
+  }
+  return lines.filter(line => line.text.length > 0);
+}
+
+// Find the widest gap between the projections of a set of intervals
+function widestGap(intervals: [number, number][]): { gap: number; at: number } | undefined {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  let end = sorted[0][1];
+  let best: { gap: number; at: number } | undefined;
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = sorted[i][0] - end;
+    if (gap > 0 && (!best || gap > best.gap)) {
+      best = { gap, at: end + gap / 2 };
+    }
+    end = Math.max(end, sorted[i][1]);
+  }
+  return best;
+}
+
+// Recursive XY-cut: split at whichever whitespace gap is wider, columns left to right and bands top to bottom
+function xyCut(lines: Line[]): Line[] {
+  if (lines.length <= 1) {
+    return lines;
+  }
+
+  const sizes = lines.map(line => line.size).sort((a, b) => a - b);
+  const medianSize = sizes[Math.floor(sizes.length / 2)];
+  const vertical = widestGap(lines.map(line => [line.left, line.right]));
+  const horizontal = widestGap(lines.map(line => [line.bottom, line.top]));
+
+  if (vertical && vertical.gap > medianSize * 0.5 && vertical.gap >= (horizontal?.gap ?? 0)) {
+    return [
+      ...xyCut(lines.filter(line => line.right <= vertical.at)),
+      ...xyCut(lines.filter(line => line.right > vertical.at)),
+    ];
+  }
+  if (horizontal) {
+    return [
+      ...xyCut(lines.filter(line => line.bottom >= horizontal.at)),
+      ...xyCut(lines.filter(line => line.bottom < horizontal.at)),
+    ];
+  }
+  return [...lines].sort((a, b) => b.baseline - a.baseline || a.left - b.left);
+}
+
+// Merge consecutive lines that are close, overlapping and set in the same size into blocks
+function buildBlocks(lines: Line[]): Line[] {
+  const blocks: Line[] = [];
+  let block: Line | undefined;
+  let previous: Line | undefined;
+
+  for (const line of lines) {
+    const continues =
+      block &&
+      previous &&
+      previous.baseline > line.baseline &&
+      previous.baseline - line.baseline <= Math.max(previous.size, line.size) * 1.6 &&
+      Math.abs(previous.size - line.size) <= Math.max(previous.size, line.size) * 0.15 &&
+      line.left < previous.right &&
+      line.right > previous.left;
+
+    if (block && continues) {
+      block.text = joinLines(block.text, line.text);
+      block.left = Math.min(block.left, line.left);
+      block.right = Math.max(block.right, line.right);
+      block.bottom = Math.min(block.bottom, line.bottom);
+      block.size = Math.max(block.size, line.size);
+    } else {
+      block = { ...line };
+      blocks.push(block);
+    }
+    previous = line;
+  }
+  return blocks;
+}
+
+// Join wrapped lines, undoing end-of-line hyphenation
+function joinLines(first: string, second: string): string {
+  if (/[a-z]-$/i.test(first) && /^[a-z]/.test(second)) {
+    return first.slice(0, -1) + second;
+  }
+  return `${first} ${second}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
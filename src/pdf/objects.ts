@@ -0,0 +1,347 @@
+// PDF object model and tokenizer (ISO 32000-1, section 7.3)
+
+export class PdfName {
+  constructor(public readonly name: string) {}
+}
+
+export class PdfRef {
+  constructor(public readonly num: number, public readonly gen: number) {}
+}
+
+// Content stream operator such as Tj or BT
+export class PdfOperator {
+  constructor(public readonly op: string) {}
+}
+
+export type PdfDict = Map<string, PdfValue>;
+
+export class PdfStream {
+  constructor(public readonly dict: PdfDict, public readonly raw: Uint8Array) {}
+}
+
+// Strings are kept as raw bytes because their meaning depends on the font that shows them
+export type PdfValue =
+  | null
+  | boolean
+  | number
+  | Uint8Array
+  | PdfName
+  | PdfRef
+  | PdfValue[]
+  | PdfDict
+  | PdfStream;
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+export function isWhitespace(byte: number): boolean {
+  return WHITESPACE.has(byte);
+}
+
+function isRegular(byte: number): boolean {
+  return !WHITESPACE.has(byte) && !DELIMITERS.has(byte);
+}
+
+// Marker tokens used internally by the parser
+const ARRAY_END = Symbol('array-end');
+const DICT_END = Symbol('dict-end');
+type Token = PdfValue | PdfOperator | typeof ARRAY_END | typeof DICT_END;
+
+export class PdfLexer {
+  pos: number;
+
+  constructor(public readonly bytes: Uint8Array, pos = 0) {
+    this.pos = pos;
+  }
+
+  get done(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.bytes.length;
+  }
+
+  skipWhitespace() {
+    const bytes = this.bytes;
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos];
+      if (WHITESPACE.has(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) {
+        // Comment runs to the end of the line
+        while (this.pos < bytes.length && bytes[this.pos] !== 0x0a && bytes[this.pos] !== 0x0d) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  // Parse the next complete object; operators are returned as PdfOperator
+  parseObject(): PdfValue | PdfOperator {
+    const token = this.nextToken();
+    if (token === ARRAY_END || token === DICT_END) {
+      return new PdfOperator(token === ARRAY_END ? ']' : '>>');
+    }
+    return token;
+  }
+
+  private nextToken(): Token {
+    this.skipWhitespace();
+    const bytes = this.bytes;
+    if (this.pos >= bytes.length) {
+      return new PdfOperator('');
+    }
+
+    const byte = bytes[this.pos];
+    switch (byte) {
+      case 0x28: // (
+        return this.readLiteralString();
+      case 0x2f: // /
+        return this.readName();
+      case 0x5b: // [
+        this.pos++;
+        return this.readArray();
+      case 0x5d: // ]
+        this.pos++;
+        return ARRAY_END;
+      case 0x3c: // < or <<
+        if (bytes[this.pos + 1] === 0x3c) {
+          this.pos += 2;
+          return this.readDict();
+        }
+        return this.readHexString();
+      case 0x3e: // >>
+        this.pos += bytes[this.pos + 1] === 0x3e ? 2 : 1;
+        return DICT_END;
+      case 0x7b: // { and } only appear in PostScript functions
+      case 0x7d:
+        this.pos++;
+        return new PdfOperator(String.fromCharCode(byte));
+    }
+
+    if ((byte >= 0x30 && byte <= 0x39) || byte === 0x2b || byte === 0x2d || byte === 0x2e) {
+      return this.readNumberOrRef();
+    }
+
+    const word = this.readWord();
+    switch (word) {
+      case 'true':
+        return true;
+      case 'false':
+        return false;
+      case 'null':
+        return null;
+      default:
+        return new PdfOperator(word);
+    }
+  }
+
+  private readWord(): string {
+    const start = this.pos;
+    while (this.pos < this.bytes.length && isRegular(this.bytes[this.pos])) {
+      this.pos++;
+    }
+    if (this.pos === start) {
+      // Stray delimiter; skip it so parsing always makes progress
+      this.pos++;
+    }
+    return latin1(this.bytes, start, this.pos);
+  }
+
+  private readNumber(): number {
+    const word = this.readWord();
+    const value = parseFloat(word);
+    return Number.isFinite(value) ? value : 0;
+  }
+
+  private readNumberOrRef(): number | PdfRef {
+    const value = this.readNumber();
+    if (!Number.isInteger(value) || value < 0) {
+      return value;
+    }
+
+    // Look ahead for "<gen> R"
+    const saved = this.pos;
+    this.skipWhitespace();
+    const genStart = this.pos;
+    while (this.pos < this.bytes.length && this.bytes[this.pos] >= 0x30 && this.bytes[this.pos] <= 0x39) {
+      this.pos++;
+    }
+    if (this.pos > genStart) {
+      const gen = parseInt(latin1(this.bytes, genStart, this.pos), 10);
+      this.skipWhitespace();
+      if (this.bytes[this.pos] === 0x52 && (this.pos + 1 >= this.bytes.length || !isRegular(this.bytes[this.pos + 1]))) {
+        this.pos++;
+        return new PdfRef(value, gen);
+      }
+    }
+    this.pos = saved;
+    return value;
+  }
+
+  private readName(): PdfName {
+    this.pos++;
+    const start = this.pos;
+    while (this.pos < this.bytes.length && isRegular(this.bytes[this.pos])) {
+      this.pos++;
+    }
+    const raw = latin1(this.bytes, start, this.pos);
+    return new PdfName(raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))));
+  }
+
+  private readLiteralString(): Uint8Array {
+    const bytes = this.bytes;
+    const out: number[] = [];
+    let depth = 1;
+    this.pos++;
+
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos++];
+      if (byte === 0x28) {
+        depth++;
+      } else if (byte === 0x29) {
+        depth--;
+        if (depth === 0) {
+          break;
+        }
+      } else if (byte === 0x5c) {
+        const next = bytes[this.pos++];
+        switch (next) {
+          case 0x6e: out.push(0x0a); continue; // \n
+          case 0x72: out.push(0x0d); continue; // \r
+          case 0x74: out.push(0x09); continue; // \t
+          case 0x62: out.push(0x08); continue; // \b
+          case 0x66: out.push(0x0c); continue; // \f
+          case 0x0d: // line continuation
+            if (bytes[this.pos] === 0x0a) {
+              this.pos++;
+            }
+            continue;
+          case 0x0a:
+            continue;
+        }
+        if (next >= 0x30 && next <= 0x37) {
+          let code = next - 0x30;
+          for (let i = 0; i < 2 && bytes[this.pos] >= 0x30 && bytes[this.pos] <= 0x37; i++) {
+            code = code * 8 + (bytes[this.pos++] - 0x30);
+          }
+          out.push(code & 0xff);
+          continue;
+        }
+        out.push(next);
+        continue;
+      }
+      out.push(byte);
+    }
+
+    return Uint8Array.from(out);
+  }
+
+  private readHexString(): Uint8Array {
+    const bytes = this.bytes;
+    const out: number[] = [];
+    let high = -1;
+    this.pos++;
+
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos++];
+      if (byte === 0x3e) {
+        break;
+      }
+      const digit = hexValue(byte);
+      if (digit < 0) {
+        continue;
+      }
+      if (high < 0) {
+        high = digit;
+      } else {
+        out.push((high << 4) | digit);
+        high = -1;
+      }
+    }
+    if (high >= 0) {
+      out.push(high << 4);
+    }
+
+    return Uint8Array.from(out);
+  }
+
+  private readArray(): PdfValue[] {
+    const items: PdfValue[] = [];
+    for (;;) {
+      const token = this.nextToken();
+      if (token === ARRAY_END || this.pos >= this.bytes.length) {
+        break;
+      }
+      if (token === DICT_END) {
+        continue;
+      }
+      if (token instanceof PdfOperator) {
+        if (token.op === '') {
+          break;
+        }
+        continue;
+      }
+      items.push(token);
+    }
+    return items;
+  }
+
+  private readDict(): PdfDict {
+    const dict: PdfDict = new Map();
+    for (;;) {
+      const key = this.nextToken();
+      if (key === DICT_END || this.pos >= this.bytes.length) {
+        break;
+      }
+      if (!(key instanceof PdfName)) {
+        if (key instanceof PdfOperator && key.op === '') {
+          break;
+        }
+        continue;
+      }
+      const value = this.nextToken();
+      if (value === DICT_END) {
+        break;
+      }
+      if (value === ARRAY_END || value instanceof PdfOperator) {
+        continue;
+      }
+      dict.set(key.name, value);
+    }
+    return dict;
+  }
+}
+
+function hexValue(byte: number): number {
+  if (byte >= 0x30 && byte <= 0x39) return byte - 0x30;
+  if (byte >= 0x41 && byte <= 0x46) return byte - 0x37;
+  if (byte >= 0x61 && byte <= 0x66) return byte - 0x57;
+  return -1;
+}
+
+export function latin1(bytes: Uint8Array, start = 0, end = bytes.length): string {
+  let result = '';
+  for (let i = start; i < end; i += 8192) {
+    result += String.fromCharCode(...bytes.subarray(i, Math.min(i + 8192, end)));
+  }
+  return result;
+}
+
+// Typed accessors used by the rest of the PDF code
+
+export function isDict(value: PdfValue | undefined): value is PdfDict {
+  return value instanceof Map;
+}
+
+export function asNumber(value: PdfValue | undefined, fallback = 0): number {
+  return typeof value === 'number' ? value : fallback;
+}
+
+export function asName(value: PdfValue | undefined): string | undefined {
+  return value instanceof PdfName ? value.name : undefined;
+}
+
+export function asArray(value: PdfValue | undefined): PdfValue[] {
+  return Array.isArray(value) ? value : [];
+}
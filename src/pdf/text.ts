@@ -0,0 +1,261 @@
+import { PdfFile } from './document';
+import { loadFont, PdfFont } from './fonts';
+import { asArray, asName, asNumber, PdfDict, PdfLexer, PdfOperator, PdfStream, PdfValue } from './objects';
+
+// A run of text on one baseline, in default user space (origin bottom-left)
+export interface TextSpan {
+  x0: number;
+  x1: number;
+  y: number;
+  size: number;
+  text: string;
+}
+
+export type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_FORM_DEPTH = 8;
+
+// Apply m1, then m2
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+  ];
+}
+
+function toMatrix(values: PdfValue[]): Matrix {
+  const numbers = values.map(value => asNumber(value));
+  return numbers.length >= 6 ? (numbers.slice(0, 6) as Matrix) : IDENTITY;
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  font?: PdfFont;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  rise: number;
+}
+
+// Interprets page content streams and collects the text they show (ISO 32000-1, section 9)
+export class TextCollector {
+  readonly spans: TextSpan[] = [];
+  private fonts = new Map<PdfDict, PdfFont>();
+  private current?: TextSpan;
+
+  constructor(private readonly file: PdfFile) {}
+
+  async run(content: Uint8Array, resources: PdfDict, ctm: Matrix = IDENTITY, depth = 0) {
+    const stack: GraphicsState[] = [];
+    let state: GraphicsState = {
+      ctm,
+      fontSize: 0,
+      charSpacing: 0,
+      wordSpacing: 0,
+      horizontalScale: 1,
+      leading: 0,
+      rise: 0,
+    };
+    let textMatrix: Matrix = IDENTITY;
+    let lineMatrix: Matrix = IDENTITY;
+
+    const moveLine = (tx: number, ty: number) => {
+      lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+      textMatrix = lineMatrix;
+    };
+
+    const show = (bytes: Uint8Array) => {
+      if (!state.font) {
+        return;
+      }
+      for (const glyph of state.font.decode(bytes)) {
+        const base = multiply(textMatrix, state.ctm);
+        const rendering = multiply([state.fontSize * state.horizontalScale, 0, 0, state.fontSize, 0, state.rise], base);
+        const advance =
+          ((glyph.width / 1000) * state.fontSize + state.charSpacing + (glyph.isSpace ? state.wordSpacing : 0)) *
+          state.horizontalScale;
+
+        const x = rendering[4];
+        const y = rendering[5];
+        const size = Math.hypot(rendering[2], rendering[3]);
+        this.addGlyph(glyph.text, x, x + advance * base[0], y, size);
+        textMatrix = multiply([1, 0, 0, 1, advance, 0], textMatrix);
+      }
+    };
+
+    const lexer = new PdfLexer(content);
+    let operands: PdfValue[] = [];
+    while (!lexer.done) {
+      const token = lexer.parseObject();
+      if (!(token instanceof PdfOperator)) {
+        operands.push(token);
+        continue;
+      }
+
+      switch (token.op) {
+        case 'q':
+          stack.push({ ...state });
+          break;
+        case 'Q':
+          state = stack.pop() || state;
+          break;
+        case 'cm':
+          state.ctm = multiply(toMatrix(operands), state.ctm);
+          break;
+        case 'BT':
+          textMatrix = IDENTITY;
+          lineMatrix = IDENTITY;
+          break;
+        case 'Tf': {
+          const fontDict = this.file.getDict(this.file.getDict(resources, 'Font'), asName(operands[0]) || '');
+          state.font = fontDict ? await this.loadFont(fontDict) : undefined;
+          state.fontSize = asNumber(operands[1]);
+          break;
+        }
+        case 'Tc':
+          state.charSpacing = asNumber(operands[0]);
+          break;
+        case 'Tw':
+          state.wordSpacing = asNumber(operands[0]);
+          break;
+        case 'Tz':
+          state.horizontalScale = asNumber(operands[0], 100) / 100;
+          break;
+        case 'TL':
+          state.leading = asNumber(operands[0]);
+          break;
+        case 'Ts':
+          state.rise = asNumber(operands[0]);
+          break;
+        case 'Td':
+          moveLine(asNumber(operands[0]), asNumber(operands[1]));
+          break;
+        case 'TD':
+          state.leading = -asNumber(operands[1]);
+          moveLine(asNumber(operands[0]), asNumber(operands[1]));
+          break;
+        case 'Tm':
+          lineMatrix = toMatrix(operands);
+          textMatrix = lineMatrix;
+          break;
+        case 'T*':
+          moveLine(0, -state.leading);
+          break;
+        case 'Tj':
+          if (operands[0] instanceof Uint8Array) {
+            show(operands[0]);
+          }
+          break;
+        case "'":
+          moveLine(0, -state.leading);
+          if (operands[0] instanceof Uint8Array) {
+            show(operands[0]);
+          }
+          break;
+        case '"':
+          state.wordSpacing = asNumber(operands[0]);
+          state.charSpacing = asNumber(operands[1]);
+          moveLine(0, -state.leading);
+          if (operands[2] instanceof Uint8Array) {
+            show(operands[2]);
+          }
+          break;
+        case 'TJ':
+          for (const item of asArray(operands[0])) {
+            if (item instanceof Uint8Array) {
+              show(item);
+            } else if (typeof item === 'number') {
+              const shift = (-item / 1000) * state.fontSize * state.horizontalScale;
+              textMatrix = multiply([1, 0, 0, 1, shift, 0], textMatrix);
+            }
+          }
+          break;
+        case 'Do':
+          if (depth < MAX_FORM_DEPTH) {
+            await this.runForm(asName(operands[0]) || '', resources, state.ctm, depth);
+          }
+          break;
+        case 'ID':
+          skipInlineImage(lexer);
+          break;
+      }
+      operands = [];
+    }
+  }
+
+  private async runForm(name: string, resources: PdfDict, ctm: Matrix, depth: number) {
+    const xobject = this.file.get(this.file.getDict(resources, 'XObject'), name);
+    if (!(xobject instanceof PdfStream) || asName(xobject.dict.get('Subtype')) !== 'Form') {
+      return;
+    }
+
+    const matrix = toMatrix(asArray(this.file.get(xobject.dict, 'Matrix')));
+    const formResources = this.file.getDict(xobject.dict, 'Resources') || resources;
+    const content = await this.file.decodeStream(xobject);
+    await this.run(content, formResources, multiply(matrix, ctm), depth + 1);
+  }
+
+  private async loadFont(fontDict: PdfDict): Promise<PdfFont> {
+    let font = this.fonts.get(fontDict);
+    if (!font) {
+      font = await loadFont(this.file, fontDict);
+      this.fonts.set(fontDict, font);
+    }
+    return font;
+  }
+
+  // Append a glyph to the current span, or start a new one when it doesn't continue the run
+  private addGlyph(text: string, x0: number, x1: number, y: number, size: number) {
+    if (size <= 0) {
+      return;
+    }
+
+    const span = this.current;
+    const gap = span ? x0 - span.x1 : 0;
+    if (span && Math.abs(span.y - y) < span.size * 0.3 && gap > -span.size * 0.5 && gap < span.size * 2) {
+      if (gap > span.size * 0.15 && !span.text.endsWith(' ') && text !== ' ') {
+        span.text += ' ';
+      }
+      span.text += text;
+      span.x1 = Math.max(span.x1, x1);
+      return;
+    }
+
+    if (!text.trim()) {
+      this.current = undefined;
+      return;
+    }
+    this.current = { x0, x1, y, size, text };
+    this.spans.push(this.current);
+  }
+}
+
+// Skip the binary data of an inline image up to its EI operator
+function skipInlineImage(lexer: PdfLexer) {
+  const bytes = lexer.bytes;
+  let pos = lexer.pos + 1;
+  while (pos < bytes.length - 1) {
+    if (
+      bytes[pos] === 0x45 &&
+      bytes[pos + 1] === 0x49 &&
+      isSeparator(bytes[pos - 1]) &&
+      (pos + 2 >= bytes.length || isSeparator(bytes[pos + 2]))
+    ) {
+      lexer.pos = pos + 2;
+      return;
+    }
+    pos++;
+  }
+  lexer.pos = bytes.length;
+}
+
+function isSeparator(byte: number): boolean {
+  return byte === 0x20 || byte === 0x0a || byte === 0x0d || byte === 0x09;
+}
@@ -0,0 +1,105 @@
+// Reverse glyph-to-Unicode lookup from an embedded TrueType font's cmap table.
+// Used for CID fonts that have no ToUnicode CMap, where the shown codes are glyph ids.
+export function readTrueTypeGlyphMap(font: Uint8Array): Map<number, string> {
+  const glyphs = new Map<number, string>();
+  const view = new DataView(font.buffer, font.byteOffset, font.byteLength);
+  if (font.length < 12) {
+    return glyphs;
+  }
+
+  try {
+    const numTables = view.getUint16(4);
+    let cmapOffset = -1;
+    for (let i = 0; i < numTables; i++) {
+      const record = 12 + i * 16;
+      const tag = String.fromCharCode(font[record], font[record + 1], font[record + 2], font[record + 3]);
+      if (tag === 'cmap') {
+        cmapOffset = view.getUint32(record + 8);
+        break;
+      }
+    }
+    if (cmapOffset < 0) {
+      return glyphs;
+    }
+
+    // Prefer Unicode subtables: Windows full repertoire, Windows BMP, then Unicode platform
+    const subtables: { score: number; offset: number }[] = [];
+    const count = view.getUint16(cmapOffset + 2);
+    for (let i = 0; i < count; i++) {
+      const record = cmapOffset + 4 + i * 8;
+      const platform = view.getUint16(record);
+      const encoding = view.getUint16(record + 2);
+      const offset = cmapOffset + view.getUint32(record + 4);
+      const score = platform === 3 && encoding === 10 ? 3 : platform === 3 && encoding === 1 ? 2 : platform === 0 ? 1 : 0;
+      if (score > 0) {
+        subtables.push({ score, offset });
+      }
+    }
+    subtables.sort((a, b) => b.score - a.score);
+
+    for (const { offset } of subtables) {
+      const format = view.getUint16(offset);
+      if (format === 4) {
+        readFormat4(view, offset, glyphs);
+      } else if (format === 12) {
+        readFormat12(view, offset, glyphs);
+      }
+      if (glyphs.size > 0) {
+        break;
+      }
+    }
+  } catch {
+    // Truncated or malformed font program; use whatever was read
+  }
+  return glyphs;
+}
+
+function setGlyph(glyphs: Map<number, string>, glyph: number, codePoint: number) {
+  // The first (lowest) code point wins, which favours plain forms over compatibility variants
+  if (glyph !== 0 && !glyphs.has(glyph)) {
+    glyphs.set(glyph, String.fromCodePoint(codePoint));
+  }
+}
+
+function readFormat4(view: DataView, offset: number, glyphs: Map<number, string>) {
+  const segCount = view.getUint16(offset + 6) / 2;
+  const endCodes = offset + 14;
+  const startCodes = endCodes + segCount * 2 + 2;
+  const idDeltas = startCodes + segCount * 2;
+  const idRangeOffsets = idDeltas + segCount * 2;
+
+  for (let segment = 0; segment < segCount; segment++) {
+    const end = view.getUint16(endCodes + segment * 2);
+    const start = view.getUint16(startCodes + segment * 2);
+    const delta = view.getInt16(idDeltas + segment * 2);
+    const rangeOffsetPosition = idRangeOffsets + segment * 2;
+    const rangeOffset = view.getUint16(rangeOffsetPosition);
+
+    for (let code = start; code <= end && code !== 0xffff; code++) {
+      let glyph: number;
+      if (rangeOffset === 0) {
+        glyph = (code + delta) & 0xffff;
+      } else {
+        const glyphPosition = rangeOffsetPosition + rangeOffset + (code - start) * 2;
+        glyph = view.getUint16(glyphPosition);
+        if (glyph !== 0) {
+          glyph = (glyph + delta) & 0xffff;
+        }
+      }
+      setGlyph(glyphs, glyph, code);
+    }
+  }
+}
+
+function readFormat12(view: DataView, offset: number, glyphs: Map<number, string>) {
+  const groups = view.getUint32(offset + 12);
+  for (let i = 0; i < groups; i++) {
+    const group = offset + 16 + i * 12;
+    const start = view.getUint32(group);
+    const end = view.getUint32(group + 4);
+    const startGlyph = view.getUint32(group + 8);
+    for (let code = start; code <= end && code - start < 0x10000; code++) {
+      setGlyph(glyphs, startGlyph + (code - start), code);
+    }
+  }
+}
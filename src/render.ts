@@ -0,0 +1,375 @@
+import {
+  DoclingDocument,
+  DocTextItem,
+  ExportContent,
+  GroupItem,
+  NodeItem,
+  OutputFormat,
+  PictureItem,
+  ProvenanceItem,
+  TableCell,
+  TableItem,
+} from './models';
+
+// Exporters that render a DoclingDocument in each output format
+
+type TreeItem = GroupItem | DocTextItem | TableItem | PictureItem;
+
+function resolveRef(document: DoclingDocument, ref: { $ref: string }): TreeItem | undefined {
+  const [, collection, index] = ref.$ref.split('/');
+  switch (collection) {
+    case 'groups':
+      return document.groups[Number(index)];
+    case 'texts':
+      return document.texts[Number(index)];
+    case 'tables':
+      return document.tables[Number(index)];
+    case 'pictures':
+      return document.pictures[Number(index)];
+    default:
+      return undefined;
+  }
+}
+
+function childItems(document: DoclingDocument, item: NodeItem): TreeItem[] {
+  return item.children.map(ref => resolveRef(document, ref)).filter((child): child is TreeItem => Boolean(child));
+}
+
+// Top-level content, leaving out page headers, footers and other furniture
+function bodyItems(document: DoclingDocument): TreeItem[] {
+  return childItems(document, document.body).filter(item => item.content_layer === 'body');
+}
+
+function captionText(document: DoclingDocument, item: TableItem | PictureItem): string {
+  return item.captions.map(ref => (resolveRef(document, ref) as DocTextItem | undefined)?.text).filter(Boolean).join(' ');
+}
+
+function isGroup(item: TreeItem): item is GroupItem {
+  return item.self_ref.startsWith('#/groups/');
+}
+
+// Inline group of a text item, if its text carries hyperlinks
+function inlineRuns(document: DoclingDocument, item: DocTextItem): DocTextItem[] {
+  const group = childItems(document, item).find((child): child is GroupItem => isGroup(child) && child.label === 'inline');
+  return group ? (childItems(document, group) as DocTextItem[]) : [item];
+}
+
+const SAFE_LINK_SCHEMES = ['http:', 'https:', 'mailto:'];
+
+// Link target of a run, if it is safe to render: http, https and mailto links, and relative
+// or fragment links. Others, such as javascript: links from the source, render as plain text.
+function safeHyperlink(run: DocTextItem): string | undefined {
+  if (!run.hyperlink) {
+    return undefined;
+  }
+  // Browsers ignore whitespace and control characters when reading the scheme
+  const scheme = run.hyperlink.replace(/[\x00-\x20\x7f]/g, '').match(/^([a-z][a-z0-9+.-]*:)/i)?.[1];
+  return !scheme || SAFE_LINK_SCHEMES.includes(scheme.toLowerCase()) ? run.hyperlink : undefined;
+}
+
+// Pages an item and its descendants appear on
+function itemPages(document: DoclingDocument, item: TreeItem, pages = new Set<number>()): Set<number> {
+  for (const prov of 'prov' in item ? item.prov : []) {
+    pages.add(prov.page_no);
+  }
+  for (const child of childItems(document, item)) {
+    itemPages(document, child, pages);
+  }
+  return pages;
+}
+
+function nestedLists(document: DoclingDocument, item: DocTextItem): GroupItem[] {
+  return childItems(document, item).filter((child): child is GroupItem => isGroup(child) && child.label !== 'inline');
+}
+
+// Render every requested format; JSON is returned as an object, the others as strings
+export function renderOutputs(document: DoclingDocument, formats: OutputFormat[]): ExportContent {
+  const outputs: ExportContent = {};
+  for (const format of formats) {
+    switch (format) {
+      case OutputFormat.MARKDOWN:
+        outputs[format] = renderMarkdown(document);
+        break;
+      case OutputFormat.TEXT:
+        outputs[format] = renderText(document);
+        break;
+      case OutputFormat.HTML:
+        outputs[format] = renderHtml(document);
+        break;
+      case OutputFormat.DOCTAGS:
+        outputs[format] = renderDoctags(document);
+        break;
+      case OutputFormat.JSON:
+        outputs[format] = document;
+        break;
+    }
+  }
+  return outputs;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown and plain text
+// ---------------------------------------------------------------------------
+
+export function renderMarkdown(document: DoclingDocument): string {
+  return renderLines(document, true);
+}
+
+// Text without Markdown markup
+export function renderText(document: DoclingDocument): string {
+  return renderLines(document, false);
+}
+
+function renderLines(document: DoclingDocument, markup: boolean): string {
+  return renderBlocks(document, markup).map(block => block.text).join('\n\n');
+}
+
+// One top-level body item rendered as Markdown or plain text, with the pages it came from.
+// Headings carry their section level, with 0 for the document title.
+export interface RenderedBlock {
+  kind: 'heading' | 'list' | 'table' | 'picture' | 'code' | 'text';
+  text: string;
+  pages: number[];
+  level?: number;
+}
+
+export function renderBlocks(document: DoclingDocument, markup = true): RenderedBlock[] {
+  const blocks: RenderedBlock[] = [];
+  let item: TreeItem;
+  const push = (kind: RenderedBlock['kind'], text: string, level?: number) => {
+    if (text) {
+      const pages = [...itemPages(document, item)].sort((a, b) => a - b);
+      blocks.push(level === undefined ? { kind, text, pages } : { kind, text, pages, level });
+    }
+  };
+
+  const inline = (item: DocTextItem) => {
+    if (!markup) {
+      return item.text;
+    }
+    return inlineRuns(document, item).map(run => {
+      const href = safeHyperlink(run);
+      return href ? `[${run.text}](${href})` : run.text;
+    }).join('');
+  };
+
+  const list = (group: GroupItem, depth: number, lines: string[]) => {
+    for (const item of childItems(document, group)) {
+      if (isGroup(item)) {
+        list(item, depth + 1, lines);
+      } else if (item.label === 'list_item') {
+        const marker = markup ? `${item.enumerated ? item.marker : '-'} ` : '';
+        lines.push(`${(markup ? '    ' : '  ').repeat(depth)}${marker}${inline(item)}`);
+        for (const nested of nestedLists(document, item)) {
+          list(nested, depth + 1, lines);
+        }
+      }
+    }
+  };
+
+  for (item of bodyItems(document)) {
+    if (isGroup(item)) {
+      const lines: string[] = [];
+      list(item, 0, lines);
+      push('list', lines.join('\n'));
+    } else if (item.label === 'table') {
+      const caption = captionText(document, item);
+      if (caption) {
+        push('text', caption);
+      }
+      push('table', markup ? tableMarkdown(item) : item.data.grid.map(row => row.map(cell => cell.text).join('\t')).join('\n'));
+    } else if (item.label === 'picture') {
+      const caption = captionText(document, item);
+      if (markup) {
+        push('picture', `![${caption}](${item.image?.uri || ''})`);
+      } else if (caption) {
+        push('picture', caption);
+      }
+    } else if (item.label === 'title') {
+      push('heading', markup ? `# ${inline(item)}` : item.text, 0);
+    } else if (item.label === 'section_header') {
+      push('heading', markup ? `${'#'.repeat(Math.min(item.level + 1, 6))} ${inline(item)}` : item.text, item.level);
+    } else if (item.label === 'code') {
+      push('code', markup ? `\`\`\`${item.code_language || ''}\n${item.text}\n\`\`\`` : item.text);
+    } else {
+      push('text', inline(item));
+    }
+  }
+
+  return blocks;
+}
+
+function tableMarkdown(table: TableItem): string {
+  const { grid, num_cols: width } = table.data;
+  if (grid.length === 0) {
+    return '';
+  }
+  const line = (cells: TableCell[]) => `| ${cells.map(cell => cell.text.replace(/\|/g, '\\|')).join(' | ')} |`;
+  return [line(grid[0]), `|${' --- |'.repeat(width)}`, ...grid.slice(1).map(line)].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function renderHtml(document: DoclingDocument): string {
+  const inline = (item: DocTextItem) =>
+    inlineRuns(document, item)
+      .map(run => {
+        const href = safeHyperlink(run);
+        return href ? `<a href="${escapeHtml(href)}">${escapeHtml(run.text)}</a>` : escapeHtml(run.text);
+      })
+      .join('');
+
+  const list = (group: GroupItem): string => {
+    const tag = group.label === 'ordered_list' ? 'ol' : 'ul';
+    const items = childItems(document, group).map(item => {
+      if (isGroup(item)) {
+        return `<li>${list(item)}</li>`;
+      }
+      return `<li>${inline(item as DocTextItem)}${nestedLists(document, item as DocTextItem).map(list).join('')}</li>`;
+    });
+    return `<${tag}>\n${items.join('\n')}\n</${tag}>`;
+  };
+
+  const table = (item: TableItem) => {
+    const rows = item.data.grid.map((row, r) => {
+      // Spanning cells are emitted once, at their top-left grid position
+      const cells = row
+        .filter((cell, c) => cell.start_row_offset_idx === r && cell.start_col_offset_idx === c)
+        .map(cell => {
+          const tag = cell.column_header || cell.row_header ? 'th' : 'td';
+          const spans = (cell.col_span > 1 ? ` colspan="${cell.col_span}"` : '') + (cell.row_span > 1 ? ` rowspan="${cell.row_span}"` : '');
+          return `<${tag}${spans}>${escapeHtml(cell.text)}</${tag}>`;
+        });
+      return `<tr>${cells.join('')}</tr>`;
+    });
+    const caption = captionText(document, item);
+    return `<table>\n${caption ? `<caption>${escapeHtml(caption)}</caption>\n` : ''}${rows.join('\n')}\n</table>`;
+  };
+
+  const body = bodyItems(document).map(item => {
+    if (isGroup(item)) {
+      return list(item);
+    }
+    switch (item.label) {
+      case 'table':
+        return table(item);
+      case 'picture': {
+        const caption = captionText(document, item);
+        return `<figure><img src="${escapeHtml(item.image?.uri || '')}" alt="${escapeHtml(caption)}">` +
+          (caption ? `<figcaption>${escapeHtml(caption)}</figcaption>` : '') + '</figure>';
+      }
+      case 'title':
+        return `<h1>${inline(item)}</h1>`;
+      case 'section_header': {
+        const level = Math.min(item.level + 1, 6);
+        return `<h${level}>${inline(item)}</h${level}>`;
+      }
+      case 'code': {
+        const language = item.code_language ? ` class="language-${escapeHtml(item.code_language)}"` : '';
+        return `<pre><code${language}>${escapeHtml(item.text)}</code></pre>`;
+      }
+      case 'footnote':
+        return `<p class="footnote">${inline(item)}</p>`;
+      default:
+        return `<p>${inline(item)}</p>`;
+    }
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="UTF-8">',
+    `<title>${escapeHtml(document.name)}</title>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// DocTags
+// ---------------------------------------------------------------------------
+
+export function renderDoctags(document: DoclingDocument): string {
+  // Locations are quantized to a 500 x 500 grid over the page
+  const location = (prov: ProvenanceItem[]) => {
+    const page = prov[0] && document.pages[String(prov[0].page_no)];
+    if (!page || !page.size.width || !page.size.height) {
+      return '';
+    }
+    const { bbox } = prov[0];
+    const top = bbox.coord_origin === 'TOPLEFT' ? bbox.t : page.size.height - bbox.t;
+    const bottom = bbox.coord_origin === 'TOPLEFT' ? bbox.b : page.size.height - bbox.b;
+    const x = (value: number) => Math.max(0, Math.min(500, Math.round((value / page.size.width) * 500)));
+    const y = (value: number) => Math.max(0, Math.min(500, Math.round((value / page.size.height) * 500)));
+    return `<loc_${x(bbox.l)}><loc_${y(top)}><loc_${x(bbox.r)}><loc_${y(bottom)}>`;
+  };
+
+  const list = (group: GroupItem): string => {
+    const tag = group.label === 'ordered_list' ? 'ordered_list' : 'unordered_list';
+    const items = childItems(document, group).map(item => {
+      if (isGroup(item)) {
+        return list(item);
+      }
+      const listItem = item as DocTextItem;
+      return `<list_item>${location(listItem.prov)}${listItem.text}</list_item>` + nestedLists(document, listItem).map(list).join('');
+    });
+    return `<${tag}>${items.join('')}</${tag}>`;
+  };
+
+  // OTSL: one token per grid cell, <nl> after each row
+  const table = (item: TableItem) => {
+    const rows = item.data.grid.map((row, r) =>
+      row.map((cell, c) => {
+        const spannedLeft = cell.start_col_offset_idx < c;
+        const spannedUp = cell.start_row_offset_idx < r;
+        if (spannedLeft && spannedUp) {
+          return '<xcel>';
+        }
+        if (spannedLeft) {
+          return '<lcel>';
+        }
+        if (spannedUp) {
+          return '<ucel>';
+        }
+        if (!cell.text) {
+          return '<ecel>';
+        }
+        return `${cell.column_header ? '<ched>' : cell.row_header ? '<rhed>' : '<fcel>'}${cell.text}`;
+      }).join('') + '<nl>'
+    );
+    const caption = captionText(document, item);
+    return `<otsl>${location(item.prov)}${rows.join('')}${caption ? `<caption>${caption}</caption>` : ''}</otsl>`;
+  };
+
+  const body = bodyItems(document).map(item => {
+    if (isGroup(item)) {
+      return list(item);
+    }
+    switch (item.label) {
+      case 'table':
+        return table(item);
+      case 'picture': {
+        const caption = captionText(document, item);
+        return `<picture>${location(item.prov)}${caption ? `<caption>${caption}</caption>` : ''}</picture>`;
+      }
+      case 'section_header':
+        return `<section_header_level_${item.level}>${location(item.prov)}${item.text}</section_header_level_${item.level}>`;
+      case 'code':
+        return `<code>${location(item.prov)}${item.code_language ? `<_${item.code_language}_>` : ''}${item.text}</code>`;
+      default:
+        return `<${item.label}>${location(item.prov)}${item.text}</${item.label}>`;
+    }
+  });
+
+  return `<doctag>${body.join('\n')}\n</doctag>`;
+}
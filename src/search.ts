@@ -0,0 +1,183 @@
+import { ConversionError } from './convert';
+import { SearchMode, SearchRequest, SearchResult } from './models';
+
+// Query parsing and scoring for /v1alpha/search
+
+// Document filters shared by /v1alpha/search and /v1alpha/documents
+export interface DocumentFilters {
+  // Set by the routes from the request's API key, not parsed from the request
+  tenantId?: string;
+  documentIds?: string[];
+  formats?: string[];
+  // SQLite timestamps (YYYY-MM-DD HH:MM:SS, UTC) compared with documents.created_at
+  createdAfter?: string;
+  createdBefore?: string;
+}
+
+export interface SearchQuery extends DocumentFilters {
+  query: string;
+  topK: number;
+  vectorizerId?: string;
+}
+
+export const DEFAULT_TOP_K = 10;
+export const MAX_TOP_K = 100;
+const MAX_QUERY_LENGTH = 8000;
+// Keeps filtered queries within D1's limit of 100 bound parameters
+const MAX_FILTER_VALUES = 20;
+// Reciprocal rank fusion constant; larger values flatten the advantage of top ranks
+const RRF_K = 60;
+const SEARCH_MODES: SearchMode[] = ['vector', 'keyword', 'hybrid'];
+
+export function parseSearchMode(value: string | null): SearchMode {
+  if (!value) {
+    return 'vector';
+  }
+  if (!SEARCH_MODES.includes(value as SearchMode)) {
+    throw new ConversionError(`mode must be one of ${SEARCH_MODES.join(', ')}`, 400);
+  }
+  return value as SearchMode;
+}
+
+export function parseSearchRequest(body: SearchRequest): SearchQuery {
+  const query = typeof body?.query === 'string' ? body.query.trim() : '';
+  if (!query) {
+    throw new ConversionError('query must be a non-empty string', 400);
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    throw new ConversionError(`query must be at most ${MAX_QUERY_LENGTH} characters`, 400);
+  }
+
+  const topK = body.top_k ?? DEFAULT_TOP_K;
+  if (!Number.isInteger(topK) || topK < 1 || topK > MAX_TOP_K) {
+    throw new ConversionError(`top_k must be an integer between 1 and ${MAX_TOP_K}`, 400);
+  }
+
+  return {
+    query,
+    topK,
+    vectorizerId: optionalString(body.vectorizer_id, 'vectorizer_id'),
+    ...parseDocumentFilters(body.filters || {}, 'filters.'),
+  };
+}
+
+// Parse filters given in the shape of SearchRequest.filters; prefix qualifies the field
+// names in error messages
+export function parseDocumentFilters(filters: NonNullable<SearchRequest['filters']>, prefix = ''): DocumentFilters {
+  return {
+    documentIds: stringList(filters.document_ids, `${prefix}document_ids`),
+    formats: stringList(filters.formats, `${prefix}formats`)?.map(format => format.toLowerCase()),
+    createdAfter: sqliteTimestamp(filters.created_after, `${prefix}created_after`),
+    createdBefore: sqliteTimestamp(filters.created_before, `${prefix}created_before`),
+  };
+}
+
+// SQL conditions on the documents table (aliased `d`) for the query's filters
+export function documentFilters(query: DocumentFilters): { sql: string; params: (string | number)[] } {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (query.tenantId) {
+    conditions.push('d.tenant_id = ?');
+    params.push(query.tenantId);
+  }
+  if (query.documentIds) {
+    conditions.push(`d.id IN (${query.documentIds.map(() => '?').join(', ')})`);
+    params.push(...query.documentIds);
+  }
+  if (query.formats) {
+    // source_format lists the formats of multi-source documents separated by commas
+    conditions.push(`(${query.formats.map(() => "instr(',' || d.source_format || ',', ',' || ? || ',') > 0").join(' OR ')})`);
+    params.push(...query.formats);
+  }
+  if (query.createdAfter) {
+    conditions.push('d.created_at >= ?');
+    params.push(query.createdAfter);
+  }
+  if (query.createdBefore) {
+    conditions.push('d.created_at <= ?');
+    params.push(query.createdBefore);
+  }
+  return { sql: conditions.map(condition => ` AND ${condition}`).join(''), params };
+}
+
+// The same filters, checked on a document row
+export function matchesFilters(
+  query: DocumentFilters,
+  document: { id: string; tenant_id: string; source_format: string | null; created_at: string }
+): boolean {
+  const formats = (document.source_format || '').split(',');
+  return (!query.tenantId || document.tenant_id === query.tenantId) &&
+    (!query.documentIds || query.documentIds.includes(document.id)) &&
+    (!query.formats || query.formats.some(format => formats.includes(format))) &&
+    (!query.createdAfter || document.created_at >= query.createdAfter) &&
+    (!query.createdBefore || document.created_at <= query.createdBefore);
+}
+
+// FTS5 MATCH expression for free text: each word becomes a quoted term, so that operators and
+// punctuation in part numbers are taken literally ("AB-1234" matches the adjacent tokens ab and
+// 1234), and chunks matching any term are ranked by BM25. Empty when nothing is searchable.
+export function keywordExpression(query: string): string {
+  const terms = query.split(/\s+/).filter(term => /[\p{L}\p{N}]/u.test(term));
+  return [...new Set(terms)].map(term => `"${term.replace(/"/g, '""')}"`).join(' OR ');
+}
+
+// Merge ranked result lists by reciprocal rank fusion: each result scores the sum of
+// 1 / (RRF_K + rank) over the lists it appears in
+export function fuseRankings(lists: SearchResult[][], topK: number): SearchResult[] {
+  const fused = new Map<string, SearchResult>();
+  for (const list of lists) {
+    for (const [rank, result] of list.entries()) {
+      const key = `${result.document_id}:${result.chunk_index}`;
+      const score = 1 / (RRF_K + rank + 1);
+      const existing = fused.get(key);
+      fused.set(key, { ...result, score: (existing?.score || 0) + score });
+    }
+  }
+  return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, topK);
+}
+
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function optionalString(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !value) {
+    throw new ConversionError(`${name} must be a non-empty string`, 400);
+  }
+  return value;
+}
+
+function stringList(value: unknown, name: string): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_FILTER_VALUES || !value.every(item => typeof item === 'string' && item)) {
+    throw new ConversionError(`${name} must be a list of 1 to ${MAX_FILTER_VALUES} strings`, 400);
+  }
+  return value;
+}
+
+function sqliteTimestamp(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const date = typeof value === 'string' ? new Date(value) : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new ConversionError(`${name} must be an ISO 8601 date`, 400);
+  }
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
@@ -0,0 +1,85 @@
+import { EmbeddedImage } from './document';
+import { OutputFormat } from './models';
+
+// R2 object layout for a document:
+//   documents/<document id>/original/<index>/<file name>   uploaded or fetched source files
+//   documents/<document id>/output/document.<extension>   rendered output formats
+//   documents/<document id>/images/<index>.<extension>     images extracted from the sources
+
+export type StoredFileKind = 'original' | 'output' | 'image';
+
+// A stored object, as recorded in the files table
+export interface StoredFile {
+  key: string;
+  kind: StoredFileKind;
+  content_type: string;
+  size: number;
+}
+
+// URL path under which stored files are served
+export const FILES_PATH = '/v1alpha/files/';
+
+const OUTPUT_FILES: Record<OutputFormat, { extension: string; contentType: string }> = {
+  [OutputFormat.MARKDOWN]: { extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+  [OutputFormat.JSON]: { extension: 'json', contentType: 'application/json' },
+  [OutputFormat.HTML]: { extension: 'html', contentType: 'text/html; charset=utf-8' },
+  [OutputFormat.TEXT]: { extension: 'txt', contentType: 'text/plain; charset=utf-8' },
+  [OutputFormat.DOCTAGS]: { extension: 'doctags', contentType: 'text/plain; charset=utf-8' },
+};
+
+// Prefix of every object stored for a document
+export function documentPrefix(documentId: string): string {
+  return `documents/${documentId}/`;
+}
+
+export function originalKey(documentId: string, index: number, name: string): string {
+  // Keep keys to one path segment per level and free of control characters
+  const fileName = name.replace(/[\/\\\x00-\x1f]/g, '_').slice(0, 200) || 'document';
+  return `${documentPrefix(documentId)}original/${index}/${fileName}`;
+}
+
+export function outputKey(documentId: string, format: OutputFormat): string {
+  return `${documentPrefix(documentId)}output/document.${OUTPUT_FILES[format].extension}`;
+}
+
+export function outputContentType(format: OutputFormat): string {
+  return OUTPUT_FILES[format].contentType;
+}
+
+export async function putFile(
+  bucket: R2Bucket,
+  key: string,
+  kind: StoredFileKind,
+  data: ArrayBuffer | Uint8Array | string,
+  contentType: string
+): Promise<StoredFile> {
+  const object = await bucket.put(key, data, { httpMetadata: { contentType } });
+  return { key, kind, content_type: contentType, size: object?.size ?? 0 };
+}
+
+export async function putOutput(bucket: R2Bucket, documentId: string, format: OutputFormat, content: string): Promise<StoredFile> {
+  return putFile(bucket, outputKey(documentId, format), 'output', content, OUTPUT_FILES[format].contentType);
+}
+
+// Store embedded images and point their pictures at the stored copies
+export async function putImages(bucket: R2Bucket, documentId: string, images: EmbeddedImage[]): Promise<StoredFile[]> {
+  const stored: StoredFile[] = [];
+  for (const [index, image] of images.entries()) {
+    const extension = image.mimetype.split('/').pop()?.replace(/^x-/, '').replace(/\+.*$/, '') || 'bin';
+    const key = `${documentPrefix(documentId)}images/${index}.${extension}`;
+    stored.push(await putFile(bucket, key, 'image', image.data, image.mimetype));
+    image.picture.image = { mimetype: image.mimetype, dpi: 72, size: { width: 0, height: 0 }, uri: `${FILES_PATH}${key}` };
+  }
+  return stored;
+}
+
+// Content-Disposition that downloads an object under the last segment of its key
+export function attachmentDisposition(key: string): string {
+  const name = key.split('/').pop() || 'file';
+  return `attachment; filename*=UTF-8''${encodeURIComponent(name)}`;
+}
+
+export async function readText(bucket: R2Bucket, key: string): Promise<string | undefined> {
+  const object = await bucket.get(key);
+  return object ? object.text() : undefined;
+}
@@ -0,0 +1,131 @@
+import { MIN_CHUNK_SIZE } from './chunking';
+import { ConversionError } from './convert';
+import { Vectorizer, VectorizerRequest } from './models';
+
+// Vectorizer rows and validation of the settings accepted by /v1alpha/vectorizers
+
+export interface VectorizerRow {
+  id: string;
+  model_name: string;
+  engine_type: string;
+  chunk_size: number;
+  ocr_engine: string | null;
+  parameters: string | null;
+  is_default: number;
+  tenant_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Settings read from the JSON parameters column of vectorizers
+export interface VectorizerParameters {
+  chunk_overlap?: number;
+  token_encoding?: string;
+  // Model sent to the embeddings endpoint; VECTOR_MODEL when unset
+  embedding_model?: string;
+  dimensions?: number;
+  batch_size?: number;
+  [name: string]: unknown;
+}
+
+// Validated columns of a vectorizer to be inserted or updated
+export interface VectorizerSettings {
+  model_name: string;
+  engine_type: string;
+  chunk_size: number;
+  ocr_engine: string | null;
+  parameters: VectorizerParameters;
+}
+
+// 'openai' embeds chunks through an OpenAI-compatible endpoint; 'none' only chunks documents
+export const ENGINE_TYPES = ['openai', 'none'];
+// OCR engines of docling-serve, recorded for compatibility since the Worker does not run OCR
+export const OCR_ENGINES = ['easyocr', 'tesseract', 'tesserocr', 'ocrmac', 'rapidocr'];
+// Input limit of the OpenAI embedding models
+const MAX_CHUNK_SIZE = 8191;
+const MAX_BATCH_SIZE = 2048;
+
+export function vectorizerParameters(vectorizer: Pick<VectorizerRow, 'id' | 'parameters'> | null): VectorizerParameters {
+  try {
+    return JSON.parse(vectorizer?.parameters || '{}');
+  } catch {
+    console.error(`Ignoring invalid parameters of vectorizer ${vectorizer?.id}`);
+    return {};
+  }
+}
+
+export function formatVectorizer(row: VectorizerRow): Vectorizer {
+  return {
+    id: row.id,
+    model_name: row.model_name,
+    engine_type: row.engine_type,
+    chunk_size: row.chunk_size,
+    ocr_engine: row.ocr_engine,
+    parameters: vectorizerParameters(row),
+    is_default: Boolean(row.is_default),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+// Apply a create or update request to the current settings (the defaults, for new vectorizers).
+// Parameters are merged key by key; a top-level chunk_overlap is stored with them.
+export function validateVectorizer(request: VectorizerRequest, current: VectorizerSettings): VectorizerSettings {
+  if (!request || typeof request !== 'object') {
+    throw new ConversionError('Request body must be a JSON object', 400);
+  }
+  if (request.is_default !== undefined && typeof request.is_default !== 'boolean') {
+    throw new ConversionError('is_default must be a boolean', 400);
+  }
+  if (request.parameters !== undefined && (!request.parameters || typeof request.parameters !== 'object' || Array.isArray(request.parameters))) {
+    throw new ConversionError('parameters must be an object', 400);
+  }
+
+  const settings: VectorizerSettings = {
+    model_name: request.model_name ?? current.model_name,
+    engine_type: request.engine_type ?? current.engine_type,
+    chunk_size: request.chunk_size ?? current.chunk_size,
+    ocr_engine: request.ocr_engine === undefined ? current.ocr_engine : request.ocr_engine,
+    parameters: {
+      ...current.parameters,
+      ...request.parameters,
+      ...(request.chunk_overlap !== undefined ? { chunk_overlap: request.chunk_overlap } : {}),
+    },
+  };
+
+  if (typeof settings.model_name !== 'string' || !settings.model_name.trim() || settings.model_name.length > 200) {
+    throw new ConversionError('model_name must be a non-empty string of at most 200 characters', 400);
+  }
+  if (!ENGINE_TYPES.includes(settings.engine_type)) {
+    throw new ConversionError(`engine_type must be one of ${ENGINE_TYPES.join(', ')}`, 400);
+  }
+  if (!isInteger(settings.chunk_size, MIN_CHUNK_SIZE, MAX_CHUNK_SIZE)) {
+    throw new ConversionError(`chunk_size must be an integer between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE}`, 400);
+  }
+  if (settings.ocr_engine !== null && !OCR_ENGINES.includes(settings.ocr_engine)) {
+    throw new ConversionError(`ocr_engine must be null or one of ${OCR_ENGINES.join(', ')}`, 400);
+  }
+
+  const { chunk_overlap, token_encoding, embedding_model, dimensions, batch_size } = settings.parameters;
+  const maxOverlap = Math.floor(settings.chunk_size / 2);
+  if (chunk_overlap !== undefined && !isInteger(chunk_overlap, 0, maxOverlap)) {
+    throw new ConversionError(`chunk_overlap must be an integer between 0 and half of chunk_size (${maxOverlap})`, 400);
+  }
+  if (token_encoding !== undefined && (typeof token_encoding !== 'string' || !token_encoding)) {
+    throw new ConversionError('parameters.token_encoding must be a non-empty string', 400);
+  }
+  if (embedding_model !== undefined && (typeof embedding_model !== 'string' || !embedding_model)) {
+    throw new ConversionError('parameters.embedding_model must be a non-empty string', 400);
+  }
+  if (dimensions !== undefined && !isInteger(dimensions, 1, Number.MAX_SAFE_INTEGER)) {
+    throw new ConversionError('parameters.dimensions must be a positive integer', 400);
+  }
+  if (batch_size !== undefined && !isInteger(batch_size, 1, MAX_BATCH_SIZE)) {
+    throw new ConversionError(`parameters.batch_size must be an integer between 1 and ${MAX_BATCH_SIZE}`, 400);
+  }
+  return { ...settings, model_name: settings.model_name.trim() };
+}
+
+function isInteger(value: unknown, min: number, max: number): boolean {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
@@ -0,0 +1,95 @@
+import { ConversionError } from './convert';
+
+// Signed task notifications POSTed to the callback_url given with a conversion request
+
+export type WebhookEvent = 'task.completed' | 'task.failed';
+
+// Queued delivery of one notification; retried with backoff until delivered or out of attempts
+export interface WebhookJob {
+  delivery_id: string;
+  task_id: string;
+  url: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+}
+
+export interface WebhookPayload {
+  event: WebhookEvent;
+  task_id: string;
+  document_id?: string;
+  status: 'completed' | 'failed';
+  message?: string;
+  error?: string;
+  timestamp: string;
+}
+
+export interface WebhookAttempt {
+  delivered: boolean;
+  // Whether a failed attempt is worth repeating
+  retryable: boolean;
+  status_code?: number;
+  error?: string;
+}
+
+export const WEBHOOK_MAX_ATTEMPTS = 5;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Reject callback URLs that could not be delivered to
+export function validateCallbackUrl(url: string | undefined, secret: string | undefined): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+  if (!secret) {
+    throw new ConversionError('callback_url is not available: WEBHOOK_SECRET is not configured', 400);
+  }
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ConversionError(`Invalid callback_url: ${url}`, 400);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new ConversionError(`Unsupported callback_url protocol: ${parsed.protocol}`, 400);
+  }
+  return parsed.toString();
+}
+
+// Hex HMAC-SHA256 of the request body, sent as `X-Docling-Signature: sha256=<hex>`
+export async function signWebhook(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body)));
+  return Array.from(signature, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function sendWebhook(job: WebhookJob, secret: string): Promise<WebhookAttempt> {
+  const body = JSON.stringify(job.payload);
+  let response: Response;
+  try {
+    response = await fetch(job.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'docling-serve-worker',
+        'X-Docling-Event': job.event,
+        'X-Docling-Delivery': job.delivery_id,
+        'X-Docling-Signature': `sha256=${await signWebhook(secret, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+  } catch (error) {
+    return { delivered: false, retryable: true, error: (error as Error).message };
+  }
+
+  if (response.ok) {
+    return { delivered: true, retryable: false, status_code: response.status };
+  }
+  // Client errors other than rate limiting will not fix themselves
+  const retryable = response.status >= 500 || response.status === 429 || response.status === 408;
+  return { delivered: false, retryable, status_code: response.status, error: `HTTP ${response.status}` };
+}
+
+// Seconds to wait before the next attempt: 30s, 1m, 2m, 4m, ... capped at one hour
+export function webhookBackoff(attempt: number): number {
+  return Math.min(30 * 2 ** (attempt - 1), 3600);
+}
@@ -0,0 +1,169 @@
+// Small non-validating XML parser for the package parts of Office documents
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+export function decodeXmlEntities(text: string, named: Record<string, string> = XML_ENTITIES): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const codePoint = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return named[body] ?? named[body.toLowerCase()] ?? entity;
+  });
+}
+
+// Parse a document into a synthetic root element whose children are the top-level nodes
+export function parseXml(text: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let pos = 0;
+
+  while (pos < text.length) {
+    const open = text.indexOf('<', pos);
+    if (open < 0) {
+      appendText(stack[stack.length - 1], text.slice(pos));
+      break;
+    }
+    if (open > pos) {
+      appendText(stack[stack.length - 1], text.slice(pos, open));
+    }
+
+    if (text.startsWith('<!--', open)) {
+      const end = text.indexOf('-->', open + 4);
+      pos = end < 0 ? text.length : end + 3;
+    } else if (text.startsWith('<![CDATA[', open)) {
+      const end = text.indexOf(']]>', open + 9);
+      stack[stack.length - 1].children.push(text.slice(open + 9, end < 0 ? text.length : end));
+      pos = end < 0 ? text.length : end + 3;
+    } else if (text[open + 1] === '?' || text[open + 1] === '!') {
+      const end = text.indexOf('>', open);
+      pos = end < 0 ? text.length : end + 1;
+    } else if (text[open + 1] === '/') {
+      const end = text.indexOf('>', open);
+      const name = text.slice(open + 2, end < 0 ? text.length : end).trim();
+      // Pop to the matching element; ignore stray end tags
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (index > 0) {
+        stack.length = index;
+      }
+      pos = end < 0 ? text.length : end + 1;
+    } else {
+      const end = findTagEnd(text, open);
+      const body = text.slice(open + 1, end);
+      const selfClosing = body.endsWith('/');
+      const tag = selfClosing ? body.slice(0, -1) : body;
+      const nameMatch = tag.match(/^[^\s/>]+/);
+      if (!nameMatch) {
+        appendText(stack[stack.length - 1], '<');
+        pos = open + 1;
+        continue;
+      }
+
+      const element: XmlElement = { name: nameMatch[0], attributes: parseAttributes(tag.slice(nameMatch[0].length)), children: [] };
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+      pos = end + 1;
+    }
+  }
+
+  return root;
+}
+
+// Find the closing '>' of a start tag, skipping quoted attribute values
+function findTagEnd(text: string, start: number): number {
+  let quote = '';
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) {
+        quote = '';
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return text.length;
+}
+
+export function parseAttributes(source: string, entities: Record<string, string> = XML_ENTITIES): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? match[4] ?? '', entities);
+  }
+  return attributes;
+}
+
+function appendText(parent: XmlElement, text: string) {
+  parent.children.push(decodeXmlEntities(text));
+}
+
+export function isElement(node: XmlNode | undefined): node is XmlElement {
+  return typeof node === 'object' && node !== null;
+}
+
+// Direct child elements, optionally filtered by qualified name
+export function childElements(element: XmlElement | undefined, name?: string): XmlElement[] {
+  if (!element) {
+    return [];
+  }
+  return element.children.filter(
+    (node): node is XmlElement => isElement(node) && (name === undefined || node.name === name)
+  );
+}
+
+export function childElement(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return childElements(element, name)[0];
+}
+
+// All descendant elements with the given name, in document order
+export function findElements(element: XmlElement | undefined, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  const visit = (node: XmlElement) => {
+    for (const child of node.children) {
+      if (isElement(child)) {
+        if (child.name === name) {
+          found.push(child);
+        }
+        visit(child);
+      }
+    }
+  };
+  if (element) {
+    visit(element);
+  }
+  return found;
+}
+
+export function findElement(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return findElements(element, name)[0];
+}
+
+export function textContent(node: XmlNode | undefined): string {
+  if (node === undefined) {
+    return '';
+  }
+  if (typeof node === 'string') {
+    return node;
+  }
+  return node.children.map(textContent).join('');
+}
@@ -0,0 +1,81 @@
+import { inflate } from './inflate';
+
+// Minimal reader for zip archives such as Office Open XML packages (no ZIP64, no encryption)
+export class ZipArchive {
+  private entries = new Map<string, { method: number; offset: number; compressedSize: number }>();
+
+  constructor(private readonly bytes: Uint8Array) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    // The end of central directory record sits in the last 64 KB (comment included)
+    let eocd = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+      if (view.getUint32(i, true) === 0x06054b50) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) {
+      throw new Error('Not a zip archive');
+    }
+
+    const count = view.getUint16(eocd + 10, true);
+    let pos = view.getUint32(eocd + 16, true);
+    const decoder = new TextDecoder();
+    for (let i = 0; i < count && pos + 46 <= bytes.length; i++) {
+      if (view.getUint32(pos, true) !== 0x02014b50) {
+        break;
+      }
+      const method = view.getUint16(pos + 10, true);
+      const compressedSize = view.getUint32(pos + 20, true);
+      const nameLength = view.getUint16(pos + 28, true);
+      const extraLength = view.getUint16(pos + 30, true);
+      const commentLength = view.getUint16(pos + 32, true);
+      const offset = view.getUint32(pos + 42, true);
+      const name = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+      this.entries.set(name, { method, offset, compressedSize });
+      pos += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+
+  static isZip(data: ArrayBuffer): boolean {
+    const bytes = new Uint8Array(data, 0, Math.min(4, data.byteLength));
+    return bytes.length === 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  get names(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  async read(name: string): Promise<Uint8Array | undefined> {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      return undefined;
+    }
+
+    // Sizes in the local header may be zero when a data descriptor is used, so take them from the central directory
+    const view = new DataView(this.bytes.buffer, this.bytes.byteOffset, this.bytes.byteLength);
+    const nameLength = view.getUint16(entry.offset + 26, true);
+    const extraLength = view.getUint16(entry.offset + 28, true);
+    const start = entry.offset + 30 + nameLength + extraLength;
+    const data = this.bytes.subarray(start, start + entry.compressedSize);
+
+    switch (entry.method) {
+      case 0:
+        return data;
+      case 8:
+        return inflate(data, 'deflate-raw');
+      default:
+        throw new Error(`Unsupported zip compression method ${entry.method} for ${name}`);
+    }
+  }
+
+  async readText(name: string): Promise<string | undefined> {
+    const data = await this.read(name);
+    return data ? new TextDecoder().decode(data) : undefined;
+  }
+}
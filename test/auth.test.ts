@@ -0,0 +1,81 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createTaskToken, TaskTokenClaims, verifyTaskToken } from '../src/auth';
+import { createTestWorker, TestWorker } from './worker';
+
+const ROOT_KEY = 'root-key';
+
+const claims: TaskTokenClaims = { task_id: 'task-1', tenant_id: 'tenant-a', client_id: 'key:a', exp: 1_700_000_300 };
+const now = new Date(1_700_000_000_000);
+
+describe('task tokens', () => {
+  it('verifies a token for its task until it expires', async () => {
+    const token = await createTaskToken(ROOT_KEY, claims);
+    expect(await verifyTaskToken(ROOT_KEY, token, 'task-1', now)).toEqual(claims);
+    expect(await verifyTaskToken(ROOT_KEY, token, 'task-2', now)).toBeNull();
+    expect(await verifyTaskToken(ROOT_KEY, token, 'task-1', new Date(1_700_000_300_000))).toBeNull();
+  });
+
+  it('rejects tokens signed with another secret or altered', async () => {
+    const token = await createTaskToken(ROOT_KEY, claims);
+    expect(await verifyTaskToken('other-key', token, 'task-1', now)).toBeNull();
+
+    const [, signature] = token.split('.');
+    const altered = btoa(JSON.stringify({ ...claims, tenant_id: 'tenant-b' })).replace(/=+$/, '');
+    expect(await verifyTaskToken(ROOT_KEY, `${altered}.${signature}`, 'task-1', now)).toBeNull();
+    expect(await verifyTaskToken(ROOT_KEY, 'not-a-token', 'task-1', now)).toBeNull();
+    expect(await verifyTaskToken(ROOT_KEY, `${token}.extra`, 'task-1', now)).toBeNull();
+  });
+});
+
+describe('task status WebSocket', () => {
+  let w: TestWorker;
+  let keyA: string;
+  let keyB: string;
+
+  const authorized = (key: string, init: RequestInit = {}): RequestInit => ({ ...init, headers: { Authorization: `Bearer ${key}` } });
+  const upgrade = { headers: { Upgrade: 'websocket' } };
+
+  async function createKey(tenantId: string): Promise<string> {
+    const response = await w.fetch('/v1alpha/api-keys', authorized(ROOT_KEY, {
+      method: 'POST',
+      body: JSON.stringify({ name: tenantId, tenant_id: tenantId, scopes: ['read'] }),
+    }));
+    return (await response.json() as { key: string }).key;
+  }
+
+  async function taskToken(key: string, taskId: string) {
+    return w.fetch(`/v1alpha/status/ws/${taskId}/token`, authorized(key, { method: 'POST' }));
+  }
+
+  beforeAll(async () => {
+    w = await createTestWorker({ DOCLING_SERVE_API_KEY: ROOT_KEY });
+    keyA = await createKey('tenant-a');
+    keyB = await createKey('tenant-b');
+    w.db.prepare("INSERT INTO tasks (id, status, tenant_id) VALUES ('task-a', 'pending', 'tenant-a'), ('task-a2', 'pending', 'tenant-a')").run();
+  });
+
+  it('needs an API key or a task token', async () => {
+    expect((await w.fetch('/v1alpha/status/ws/task-a', upgrade)).status).toBe(401);
+    expect((await w.fetch('/v1alpha/status/ws/task-a?token=forged', upgrade)).status).toBe(401);
+  });
+
+  it("connects with a token for the tenant's task", async () => {
+    const response = await taskToken(keyA, 'task-a');
+    expect(response.status).toBe(200);
+    const { token, expires_at } = await response.json() as { token: string; expires_at: string };
+    expect(Date.parse(expires_at) - Date.now()).toBeLessThanOrEqual(300_000);
+
+    // The fake task status object answers 204 in place of the upgrade
+    expect((await w.fetch(`/v1alpha/status/ws/task-a?token=${token}`, upgrade)).status).toBe(204);
+  });
+
+  it('only opens the task the token was issued for', async () => {
+    const { token } = await (await taskToken(keyA, 'task-a')).json() as { token: string };
+    expect((await w.fetch(`/v1alpha/status/ws/task-a2?token=${token}`, upgrade)).status).toBe(401);
+    expect((await w.fetch(`/v1alpha/status/poll/task-a?token=${token}`)).status).toBe(401);
+  });
+
+  it("does not issue tokens for another tenant's task", async () => {
+    expect((await taskToken(keyB, 'task-a')).status).toBe(404);
+  });
+});
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ConversionError, fetchSource } from '../src/convert';
+
+function stubFetch(response: () => Response) {
+  vi.stubGlobal('fetch', vi.fn(async () => response()));
+}
+
+describe('fetchSource', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('names the document from Content-Disposition', async () => {
+    stubFetch(() => new Response('# Title', {
+      headers: { 'Content-Disposition': "attachment; filename*=UTF-8''r%C3%A9sum%C3%A9.md" },
+    }));
+    const source = await fetchSource('https://example.com/download', {}, 0);
+    expect(source.name).toBe('résumé.md');
+  });
+
+  it('keeps a malformed filename as sent', async () => {
+    stubFetch(() => new Response('# Title', {
+      headers: { 'Content-Disposition': "attachment; filename*=UTF-8''report%E0%A4%A.md" },
+    }));
+    const source = await fetchSource('https://example.com/download', {}, 0);
+    expect(source.name).toBe('report%E0%A4%A.md');
+  });
+
+  it('reports a body download that times out as 504', async () => {
+    stubFetch(() => new Response(new ReadableStream({
+      pull(controller) {
+        controller.error(new DOMException('The operation timed out', 'TimeoutError'));
+      },
+    })));
+    const error = await fetchSource('https://example.com/a.md', { timeout: 1 }, 0).catch(error => error);
+    expect(error).toBeInstanceOf(ConversionError);
+    expect(error.status).toBe(504);
+  });
+
+  it('reports a body download that fails as 502', async () => {
+    stubFetch(() => new Response(new ReadableStream({
+      pull(controller) {
+        controller.error(new TypeError('Network connection lost'));
+      },
+    })));
+    const error = await fetchSource('https://example.com/a.md', {}, 0).catch(error => error);
+    expect(error).toBeInstanceOf(ConversionError);
+    expect(error.status).toBe(502);
+  });
+});
@@ -0,0 +1,8 @@
+import { describe, expect, it } from 'vitest';
+import { embeddingBackoff } from '../src/embeddings';
+
+describe('embeddingBackoff', () => {
+  it('doubles from a minute up to an hour', () => {
+    expect([1, 2, 3, 7, 20].map(embeddingBackoff)).toEqual([60, 120, 240, 3600, 3600]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { createTestWorker, TestWorker } from './worker';
+
+function convertFile(w: TestWorker, file?: File) {
+  const form = new FormData();
+  if (file) {
+    form.append('file', file);
+  }
+  return w.fetch('/v1alpha/convert/file', { method: 'POST', body: form });
+}
+
+function tasksToday(w: TestWorker): number {
+  const usage = w.db.prepare('SELECT tasks FROM usage').get() as { tasks: number } | undefined;
+  return usage?.tasks ?? 0;
+}
+
+describe('daily task quota', () => {
+  it('counts accepted conversions', async () => {
+    const w = await createTestWorker({ DAILY_TASK_QUOTA: '5' });
+    expect((await convertFile(w, new File(['# Report'], 'report.md'))).status).toBe(200);
+    expect(tasksToday(w)).toBe(1);
+  });
+
+  it('does not count requests rejected as invalid', async () => {
+    const w = await createTestWorker({ DAILY_TASK_QUOTA: '1' });
+    expect((await convertFile(w)).status).toBe(400);
+    expect((await convertFile(w)).status).toBe(400);
+    expect(tasksToday(w)).toBe(0);
+
+    expect((await convertFile(w, new File(['# Report'], 'report.md'))).status).toBe(200);
+  });
+
+  it('rejects conversions once the quota is used', async () => {
+    const w = await createTestWorker({ DAILY_TASK_QUOTA: '1' });
+    expect((await convertFile(w, new File(['# Report'], 'report.md'))).status).toBe(200);
+
+    const response = await convertFile(w, new File(['# Report'], 'report.md'));
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toMatch(/^\d+$/);
+    expect(tasksToday(w)).toBe(1);
+  });
+});
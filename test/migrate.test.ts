@@ -0,0 +1,110 @@
+import Database from 'better-sqlite3';
+import { readFileSync } from 'node:fs';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { appliedMigrations, migrate, Migration } from '../src/migrate';
+import { MIGRATIONS } from '../src/migrations';
+import { indexNames, sqliteMigrationDatabase, tableColumns } from './sqlite';
+
+const latestVersion = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+}
+
+// Schema built by every migration on an empty database
+function migratedSchema() {
+  const db = new Database(':memory:');
+  return migrate(sqliteMigrationDatabase(db), MIGRATIONS).then(() => db);
+}
+
+describe('migrate', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  it('applies every migration to an empty database, once', async () => {
+    const applied = await migrate(sqliteMigrationDatabase(db), MIGRATIONS);
+    expect(applied.map(migration => migration.version)).toEqual(MIGRATIONS.map(migration => migration.version));
+
+    expect(await migrate(sqliteMigrationDatabase(db), MIGRATIONS)).toEqual([]);
+    const recorded = await appliedMigrations(sqliteMigrationDatabase(db));
+    expect(recorded.map(migration => migration.version)).toEqual(MIGRATIONS.map(migration => migration.version));
+
+    const columns = tableColumns(db);
+    expect(columns.documents).toContain('tenant_id');
+    expect(columns.api_keys).toContain('limits');
+    expect(columns.upload_chunks).toBeUndefined();
+    expect(indexNames(db)).toContain('vectorizers_tenant_default');
+    expect(indexNames(db)).not.toContain('vectorizers_default');
+  });
+
+  it('upgrades a database created from the baseline schema.sql and keeps its rows', async () => {
+    db.exec(fixture('schema-baseline.sql'));
+    db.prepare("INSERT INTO documents (id, name, format, pages) VALUES ('doc-1', 'a.pdf', 'md', 2)").run();
+    db.prepare("INSERT INTO vectorizers (id, model_name, engine_type, chunk_size) VALUES ('vec-1', 'm', 'openai', 1000)").run();
+
+    const applied = await migrate(sqliteMigrationDatabase(db), MIGRATIONS);
+    expect(applied).toHaveLength(MIGRATIONS.length);
+    expect(tableColumns(db)).toEqual(tableColumns(await migratedSchema()));
+
+    expect(db.prepare('SELECT tenant_id, document_json FROM documents').get()).toEqual({ tenant_id: 'default', document_json: null });
+    expect(db.prepare('SELECT is_default, tenant_id FROM vectorizers').get()).toEqual({ is_default: 0, tenant_id: 'default' });
+  });
+
+  it('records a database created from the last schema.sql without changing it', async () => {
+    db.exec(fixture('schema-before-migrations.sql'));
+    db.prepare("INSERT INTO vectorizers (id, model_name, engine_type, chunk_size, is_default, tenant_id) VALUES ('a', 'm', 'openai', 1000, 1, 'one')").run();
+    db.prepare("INSERT INTO vectorizers (id, model_name, engine_type, chunk_size, is_default, tenant_id) VALUES ('b', 'm', 'openai', 1000, 1, 'two')").run();
+    const before = tableColumns(db);
+
+    await migrate(sqliteMigrationDatabase(db), MIGRATIONS);
+    expect((await appliedMigrations(sqliteMigrationDatabase(db))).at(-1)?.version).toBe(latestVersion);
+    expect(tableColumns(db)).toEqual({ ...before, schema_migrations: ['applied_at', 'name', 'version'] });
+    expect(tableColumns(db)).toEqual(tableColumns(await migratedSchema()));
+  });
+
+  it('indexes chunks stored before keyword search', async () => {
+    await migrate(sqliteMigrationDatabase(db), MIGRATIONS.filter(migration => migration.version < 10));
+    db.prepare("INSERT INTO documents (id, name, format, pages) VALUES ('doc-1', 'Report', 'md', 1)").run();
+    db.prepare("INSERT INTO document_chunks (document_id, chunk_index, content, headings, token_count) VALUES ('doc-1', 0, 'quarterly revenue', '[]', 2)").run();
+
+    await migrate(sqliteMigrationDatabase(db), MIGRATIONS);
+    expect(db.prepare("SELECT document_name FROM document_chunks_fts WHERE document_chunks_fts MATCH 'revenue'").all())
+      .toEqual([{ document_name: 'Report' }]);
+  });
+
+  it('rolls back a failed migration and leaves it pending', async () => {
+    const broken: Migration[] = [
+      ...MIGRATIONS,
+      {
+        version: latestVersion + 1,
+        name: 'broken',
+        statements: ['CREATE TABLE extra (id TEXT)', 'ALTER TABLE missing ADD COLUMN x TEXT'],
+      },
+    ];
+
+    await expect(migrate(sqliteMigrationDatabase(db), broken)).rejects.toThrow(/Migration \d+ \(broken\) failed/);
+    expect(tableColumns(db).extra).toBeUndefined();
+    expect((await appliedMigrations(sqliteMigrationDatabase(db))).at(-1)?.version).toBe(latestVersion);
+  });
+
+  it('treats a migration applied concurrently as done', async () => {
+    await migrate(sqliteMigrationDatabase(db), MIGRATIONS);
+    const database = sqliteMigrationDatabase(db);
+    // Another runner recorded the versions after this runner's first read
+    let reads = 0;
+    const stale = {
+      ...database,
+      all: async <T>(sql: string) => sql.includes('FROM schema_migrations') && reads++ === 0 ? [] as T[] : database.all<T>(sql),
+    };
+
+    await expect(migrate(stale, MIGRATIONS)).resolves.toHaveLength(MIGRATIONS.length);
+  });
+
+  it('rejects versions out of order', async () => {
+    const unordered = [MIGRATIONS[1], MIGRATIONS[0]];
+    await expect(migrate(sqliteMigrationDatabase(db), unordered)).rejects.toThrow(/invalid version/);
+  });
+});
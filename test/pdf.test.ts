@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionError, extractContent } from '../src/convert';
+import { DocumentBuilder } from '../src/document';
+import { extractPdf, labelBlocks, PdfFormatError, PdfPageLimitError } from '../src/pdf';
+import { buildPdf } from './pdf';
+
+// A report over two pages: a 24pt title, 16pt headings and 11pt body text, with a TJ array
+// whose small offset is kerning and whose large one is a word gap
+const REPORT = [
+  `BT /F1 24 Tf 72 720 Td (Quarterly Report) Tj ET
+BT /F1 16 Tf 72 670 Td (Revenue) Tj ET
+BT /F1 11 Tf 72 645 Td [(Rev) -20 (enue) -400 (grew in every region this quarter)] TJ ET
+BT /F1 11 Tf 72 631 Td (and operating costs stayed flat against the previous year) Tj ET`,
+  `BT /F1 16 Tf 72 720 Td (Outlook) Tj ET
+BT /F1 11 Tf 72 695 Td (Next quarter is expected to continue the same trend) Tj ET
+BT /F1 11 Tf 72 681 Td (with new customers in both of the largest markets) Tj ET`,
+];
+
+function pdfSource(data: ArrayBuffer) {
+  return { name: 'report.pdf', contentType: 'application/pdf', data };
+}
+
+describe('extractPdf', () => {
+  it.each([
+    ['a compressed PDF with object and cross-reference streams', true],
+    ['an uncompressed PDF', false],
+  ])('reads the pages of %s', async (_, compress) => {
+    const pdf = await extractPdf(buildPdf(REPORT, { compress }));
+
+    expect(pdf.pageCount).toBe(2);
+    expect(pdf.pages.map(page => [page.page_no, page.width, page.height])).toEqual([[1, 612, 792], [2, 612, 792]]);
+    expect(pdf.pages[0].blocks[0]).toMatchObject({ text: 'Quarterly Report', fontSize: 24 });
+    expect(pdf.pages[0].text).toContain('Revenue grew in every region this quarter');
+    expect(pdf.pages[1].text).toContain('Next quarter is expected to continue the same trend');
+  });
+
+  it('labels the title and section headings from font sizes', async () => {
+    const pdf = await extractPdf(buildPdf(REPORT, { compress: true }));
+    const labels = labelBlocks(pdf.pages);
+
+    const labelled = pdf.pages.flatMap((page, index) => page.blocks.map((block, i) => [block.text.slice(0, 16), labels[index][i]]));
+    expect(labelled).toEqual([
+      ['Quarterly Report', { label: 'title' }],
+      ['Revenue', { label: 'section_header', level: 1 }],
+      ['Revenue grew in ', { label: 'text' }],
+      ['Outlook', { label: 'section_header', level: 1 }],
+      ['Next quarter is ', { label: 'text' }],
+    ]);
+  });
+
+  it('rejects a PDF over the page limit before reading its pages', async () => {
+    const error = await extractPdf(buildPdf(REPORT, { compress: true }), 1).catch(error => error);
+    expect(error).toBeInstanceOf(PdfPageLimitError);
+    expect(error).toMatchObject({ pageCount: 2, maxPages: 1 });
+  });
+
+  it('rejects a file without a page tree', async () => {
+    const data = new TextEncoder().encode('%PDF-1.4\n1 0 obj\n<< /Type /Catalog >>\nendobj\n%%EOF\n');
+    await expect(extractPdf(data.buffer)).rejects.toBeInstanceOf(PdfFormatError);
+  });
+});
+
+describe('PDF conversion', () => {
+  it('builds a document with the title, headings and text of every page', async () => {
+    const builder = new DocumentBuilder('report.pdf');
+    const content = await extractContent(pdfSource(buildPdf(REPORT, { compress: true })), builder, 0);
+    const document = builder.build();
+
+    expect(content.pages).toBe(2);
+    expect(document.texts.map(text => [text.label, text.text.slice(0, 16), text.prov[0]?.page_no])).toEqual([
+      ['title', 'Quarterly Report', 1],
+      ['section_header', 'Revenue', 1],
+      ['text', 'Revenue grew in ', 1],
+      ['section_header', 'Outlook', 2],
+      ['text', 'Next quarter is ', 2],
+    ]);
+  });
+
+  it('reports a PDF over the page limit as 413', async () => {
+    const error = await extractContent(pdfSource(buildPdf(REPORT)), new DocumentBuilder('report.pdf'), 1).catch(error => error);
+    expect(error).toBeInstanceOf(ConversionError);
+    expect(error.status).toBe(413);
+    expect(error.message).toBe('report.pdf: PDF has 2 pages, which exceeds the limit of 1');
+  });
+});
@@ -0,0 +1,131 @@
+import { deflateSync } from 'node:zlib';
+
+// Writer for PDF fixtures: one Helvetica font and a page per content stream. Compressed files
+// store the content streams with FlateDecode, the other objects in an object stream and the
+// cross-reference table as a stream (PDF 1.5); the others use plain objects and a classic table.
+
+export function buildPdf(pages: string[], { compress = false } = {}): ArrayBuffer {
+  const pageNums = pages.map((_, index) => 4 + index * 2);
+  const dicts = new Map<number, string>([
+    [1, '<< /Type /Catalog /Pages 2 0 R >>'],
+    [2, `<< /Type /Pages /Kids [${pageNums.map(num => `${num} 0 R`).join(' ')}] /Count ${pages.length} /MediaBox [0 0 612 792] >>`],
+    [3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'],
+  ]);
+  const streams = new Map<number, Uint8Array>();
+  pages.forEach((content, index) => {
+    const num = pageNums[index];
+    dicts.set(num, `<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 3 0 R >> >> /Contents ${num + 1} 0 R >>`);
+    streams.set(num + 1, new TextEncoder().encode(content));
+  });
+
+  const writer = new PdfWriter(compress ? '1.5' : '1.4');
+  for (const [num, data] of streams) {
+    writer.stream(num, compress ? '/Filter /FlateDecode' : '', compress ? deflateSync(data) : data);
+  }
+
+  if (!compress) {
+    for (const [num, dict] of dicts) {
+      writer.object(num, dict);
+    }
+    return writer.finishWithTable('<< /Size ' + writer.size + ' /Root 1 0 R >>');
+  }
+
+  // Every dictionary goes into one object stream, itself object objStmNum
+  const objStmNum = writer.size;
+  let header = '';
+  let body = '';
+  for (const [num, dict] of dicts) {
+    header += `${num} ${body.length} `;
+    body += `${dict}\n`;
+  }
+  const packed = new TextEncoder().encode(header + body);
+  writer.stream(objStmNum, `/Type /ObjStm /N ${dicts.size} /First ${header.length} /Filter /FlateDecode`, deflateSync(packed));
+  [...dicts.keys()].forEach((num, index) => writer.compressed(num, objStmNum, index));
+  return writer.finishWithStream();
+}
+
+class PdfWriter {
+  private parts: Uint8Array[] = [];
+  private length = 0;
+  // Cross-reference entries by object number: a byte offset, or a place in an object stream
+  private entries = new Map<number, { offset: number } | { objStm: number; index: number }>();
+
+  constructor(version: string) {
+    this.write(`%PDF-${version}\n%\xe2\xe3\xcf\xd3\n`);
+  }
+
+  get size(): number {
+    return Math.max(0, ...this.entries.keys()) + 1;
+  }
+
+  object(num: number, value: string) {
+    this.entries.set(num, { offset: this.length });
+    this.write(`${num} 0 obj\n${value}\nendobj\n`);
+  }
+
+  stream(num: number, entries: string, data: Uint8Array) {
+    this.entries.set(num, { offset: this.length });
+    this.write(`${num} 0 obj\n<< ${entries} /Length ${data.length} >>\nstream\n`);
+    this.write(data);
+    this.write('\nendstream\nendobj\n');
+  }
+
+  compressed(num: number, objStm: number, index: number) {
+    this.entries.set(num, { objStm, index });
+  }
+
+  finishWithTable(trailer: string): ArrayBuffer {
+    const start = this.length;
+    let table = `xref\n0 ${this.size}\n0000000000 65535 f \n`;
+    for (let num = 1; num < this.size; num++) {
+      const entry = this.entries.get(num);
+      table += entry && 'offset' in entry ? `${String(entry.offset).padStart(10, '0')} 00000 n \n` : '0000000000 00000 f \n';
+    }
+    this.write(`${table}trailer\n${trailer}\nstartxref\n${start}\n%%EOF\n`);
+    return this.bytes();
+  }
+
+  // Cross-reference stream with 1-byte types, 4-byte offsets or object stream numbers, and 2-byte indexes
+  finishWithStream(): ArrayBuffer {
+    const num = this.size;
+    this.entries.set(num, { offset: this.length });
+    const rows = new Uint8Array((num + 1) * 7);
+    const view = new DataView(rows.buffer);
+    for (let i = 0; i <= num; i++) {
+      const entry = this.entries.get(i);
+      if (!entry) {
+        view.setUint16(i * 7 + 5, i === 0 ? 65535 : 0);
+      } else if ('offset' in entry) {
+        rows[i * 7] = 1;
+        view.setUint32(i * 7 + 1, entry.offset);
+      } else {
+        rows[i * 7] = 2;
+        view.setUint32(i * 7 + 1, entry.objStm);
+        view.setUint16(i * 7 + 5, entry.index);
+      }
+    }
+    const start = this.length;
+    const data = deflateSync(rows);
+    this.write(`${num} 0 obj\n<< /Type /XRef /Size ${num + 1} /W [1 4 2] /Root 1 0 R /Filter /FlateDecode /Length ${data.length} >>\nstream\n`);
+    this.write(data);
+    this.write(`\nendstream\nendobj\nstartxref\n${start}\n%%EOF\n`);
+    return this.bytes();
+  }
+
+  private write(data: string | Uint8Array) {
+    // Strings are written as Latin-1, one byte per character
+    const bytes = typeof data === 'string' ? Uint8Array.from(data, char => char.charCodeAt(0)) : data;
+    this.parts.push(bytes);
+    this.length += bytes.length;
+  }
+
+  private bytes(): ArrayBuffer {
+    const result = new Uint8Array(this.length);
+    let offset = 0;
+    for (const part of this.parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result.buffer;
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ConversionError } from '../src/convert';
+import { createTestWorker, deliver, queueMessage, TestWorker } from './worker';
+
+// Queue an async conversion of a Markdown upload and return its task and job
+async function queueConversion(w: TestWorker) {
+  const form = new FormData();
+  form.append('file', new File(['# Report\n\nQuarterly revenue.'], 'report.md', { type: 'text/markdown' }));
+  const response = await w.fetch('/v1alpha/convert/file/async', { method: 'POST', body: form });
+  const { task_id } = await response.json() as { task_id: string };
+  return { taskId: task_id, job: w.sent.CONVERSION_QUEUE.at(-1) };
+}
+
+function task(w: TestWorker, taskId: string) {
+  return w.db.prepare('SELECT status, message, error FROM tasks WHERE id = ?').get(taskId) as { status: string; message: string; error: string | null };
+}
+
+describe('async file conversion', () => {
+  it('fails the task when the upload cannot be stored', async () => {
+    const w = await createTestWorker();
+    vi.spyOn(w.env.FILES, 'put').mockRejectedValue(new Error('R2 unavailable'));
+
+    const form = new FormData();
+    form.append('file', new File(['# Report'], 'report.md', { type: 'text/markdown' }));
+    const response = await w.fetch('/v1alpha/convert/file/async', { method: 'POST', body: form });
+    expect(response.status).toBe(500);
+    expect(w.sent.CONVERSION_QUEUE).toEqual([]);
+    expect(w.db.prepare('SELECT status, error FROM tasks').all()).toEqual([{ status: 'failed', error: 'R2 unavailable' }]);
+  });
+});
+
+describe('conversion queue', () => {
+  it('completes a queued conversion', async () => {
+    const w = await createTestWorker();
+    const { taskId, job } = await queueConversion(w);
+
+    const message = queueMessage(job);
+    await deliver(w.env, message);
+    expect(message.ack).toHaveBeenCalled();
+    expect(task(w, taskId).status).toBe('completed');
+  });
+
+  it('retries a job that failed for a transient reason', async () => {
+    const w = await createTestWorker();
+    const { taskId, job } = await queueConversion(w);
+    // Storing the converted document fails
+    vi.spyOn(w.env.FILES, 'put').mockRejectedValue(new Error('R2 unavailable'));
+
+    const message = queueMessage(job, 1);
+    await deliver(w.env, message);
+    expect(message.retry).toHaveBeenCalled();
+    expect(message.ack).not.toHaveBeenCalled();
+    expect(task(w, taskId)).toMatchObject({ status: 'pending', message: 'Document conversion will be retried' });
+  });
+
+  it('fails the task once the job is out of attempts', async () => {
+    const w = await createTestWorker();
+    const { taskId, job } = await queueConversion(w);
+    vi.spyOn(w.env.FILES, 'put').mockRejectedValue(new Error('R2 unavailable'));
+
+    const message = queueMessage(job, 3);
+    await deliver(w.env, message);
+    expect(message.ack).toHaveBeenCalled();
+    expect(message.retry).not.toHaveBeenCalled();
+    expect(task(w, taskId)).toEqual({ status: 'failed', message: 'Document conversion failed', error: 'R2 unavailable' });
+  });
+
+  it('fails the task straight away on a conversion error', async () => {
+    const w = await createTestWorker();
+    const { taskId, job } = await queueConversion(w);
+    vi.spyOn(w.env.FILES, 'put').mockRejectedValue(new ConversionError('Unsupported document', 415));
+
+    const message = queueMessage(job, 1);
+    await deliver(w.env, message);
+    expect(message.ack).toHaveBeenCalled();
+    expect(message.retry).not.toHaveBeenCalled();
+    expect(task(w, taskId)).toMatchObject({ status: 'failed', error: 'Unsupported document' });
+  });
+});
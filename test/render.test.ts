@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentBuilder } from '../src/document';
+import { convertHtml } from '../src/html';
+import { renderHtml, renderMarkdown } from '../src/render';
+
+function convert(html: string) {
+  const builder = new DocumentBuilder('page.html');
+  convertHtml(html, builder);
+  return builder.build();
+}
+
+describe('links', () => {
+  it('keeps http, https, mailto and relative links', () => {
+    const document = convert(`<p>
+      <a href="https://example.com/a?b=1&amp;c=2">web</a>
+      <a href="mailto:team@example.com">mail</a>
+      <a href="../reports/q3.html">relative</a>
+    </p>`);
+
+    const html = renderHtml(document);
+    expect(html).toContain('<a href="https://example.com/a?b=1&amp;c=2">web</a>');
+    expect(html).toContain('<a href="mailto:team@example.com">mail</a>');
+    expect(html).toContain('<a href="../reports/q3.html">relative</a>');
+    expect(renderMarkdown(document)).toContain('[mail](mailto:team@example.com)');
+  });
+
+  it.each([
+    'javascript:alert(document.cookie)',
+    'JavaScript:alert(1)',
+    ' java\tscript:alert(1)',
+    'data:text/html,<script>alert(1)</script>',
+    'vbscript:msgbox(1)',
+  ])('renders a %s link as plain text', href => {
+    const document = convert(`<p>Read the <a href="${href.replace(/</g, '&lt;').replace(/>/g, '&gt;')}">report</a> now.</p>`);
+
+    const html = renderHtml(document);
+    expect(html).not.toContain('<a ');
+    expect(html).toContain('report');
+    expect(renderMarkdown(document)).not.toContain('](');
+  });
+});
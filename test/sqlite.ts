@@ -0,0 +1,94 @@
+import Database from 'better-sqlite3';
+import { MigrationDatabase } from '../src/migrate';
+
+// In-memory SQLite databases standing in for D1 in tests
+
+export function sqliteMigrationDatabase(db: Database.Database): MigrationDatabase {
+  return {
+    all: async <T>(sql: string) => db.prepare(sql).all() as T[],
+    transaction: async statements => {
+      // prepare() rejects SQL holding more than one statement, like D1
+      db.transaction(() => {
+        for (const { sql, params } of statements) {
+          db.prepare(sql).run(...params);
+        }
+      })();
+    },
+  };
+}
+
+// Column names of each table, to compare schemas
+export function tableColumns(db: Database.Database): Record<string, string[]> {
+  const tables = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE 'document_chunks_fts_%' ORDER BY name"
+  ).all() as { name: string }[];
+  return Object.fromEntries(tables.map(({ name }) => [
+    name,
+    (db.prepare(`SELECT name FROM pragma_table_info('${name}')`).all() as { name: string }[]).map(column => column.name).sort(),
+  ]));
+}
+
+export function indexNames(db: Database.Database): string[] {
+  return (db.prepare("SELECT name FROM sqlite_master WHERE type IN ('index', 'trigger') AND sql IS NOT NULL ORDER BY name").all() as { name: string }[])
+    .map(index => index.name);
+}
+
+// The parts of D1 the Worker uses, on a SQLite database
+export function sqliteD1(db: Database.Database): D1Database {
+  const statement = (sql: string, params: unknown[] = []) => {
+    const prepared = () => db.prepare(sql);
+    const bound = () => params.map(bindValue);
+    const all = () => {
+      const query = prepared();
+      if (!query.reader) {
+        const result = query.run(...bound());
+        return { results: [], success: true, meta: { changes: result.changes, last_row_id: Number(result.lastInsertRowid) } };
+      }
+      return { results: query.all(...bound()).map(readRow), success: true, meta: { changes: 0 } };
+    };
+    return {
+      bind: (...values: unknown[]) => statement(sql, values),
+      first: async (column?: string) => {
+        const row = all().results[0] as Record<string, unknown> | undefined;
+        return row === undefined ? null : column ? row[column] : row;
+      },
+      all: async () => all(),
+      run: async () => all(),
+      raw: async () => all().results.map(row => Object.values(row as object)),
+      execute: all,
+    };
+  };
+  return {
+    prepare: (sql: string) => statement(sql),
+    // D1 runs a batch as a transaction
+    batch: async (statements: { execute: () => unknown }[]) => db.transaction(() => statements.map(query => query.execute()))(),
+    exec: async (sql: string) => {
+      db.exec(sql);
+      return { count: 0, duration: 0 };
+    },
+  } as unknown as D1Database;
+}
+
+function bindValue(value: unknown): unknown {
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (value instanceof ArrayBuffer) {
+    return Buffer.from(value);
+  }
+  if (ArrayBuffer.isView(value)) {
+    return Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+  }
+  if (value === undefined) {
+    throw new TypeError('D1_TYPE_ERROR: Type \'undefined\' not supported');
+  }
+  return value;
+}
+
+// D1 returns BLOB columns as arrays of byte values
+function readRow(row: unknown): unknown {
+  return Object.fromEntries(Object.entries(row as object).map(([column, value]) => [
+    column,
+    Buffer.isBuffer(value) ? Array.from(value) : value,
+  ]));
+}
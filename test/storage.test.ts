@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { OutputFormat } from '../src/models';
+import { originalKey, outputKey } from '../src/storage';
+import { createTestWorker, TestWorker } from './worker';
+
+// Markdown followed by bytes that are not valid UTF-8
+const upload = new Uint8Array([...new TextEncoder().encode('# Report\n\nQuarterly revenue.\n'), 0x00, 0xff, 0xfe]);
+
+async function convertFile(w: TestWorker) {
+  const form = new FormData();
+  form.append('file', new File([upload], 'q3/report.md', { type: 'text/markdown' }));
+  form.append('to_formats', 'md');
+  form.append('to_formats', 'json');
+  const response = await w.fetch('/v1alpha/convert/file', { method: 'POST', body: form });
+  expect(response.status).toBe(200);
+  return (await response.json() as { result: { document_id: string; file_keys: string[] } }).result;
+}
+
+describe('object keys', () => {
+  it('keeps file names to one path segment', () => {
+    expect(originalKey('doc-1', 0, 'q3/report\n.md')).toBe('documents/doc-1/original/0/q3_report_.md');
+    expect(originalKey('doc-1', 1, '')).toBe('documents/doc-1/original/1/document');
+    expect(outputKey('doc-1', OutputFormat.MARKDOWN)).toBe('documents/doc-1/output/document.md');
+  });
+});
+
+describe('document files', () => {
+  it('stores the original and outputs in R2 and lists their keys', async () => {
+    const w = await createTestWorker();
+    const { document_id, file_keys } = await convertFile(w);
+
+    expect(file_keys.sort()).toEqual([
+      originalKey(document_id, 0, 'q3/report.md'),
+      outputKey(document_id, OutputFormat.JSON),
+      outputKey(document_id, OutputFormat.MARKDOWN),
+    ].sort());
+    expect([...w.files.keys()].sort()).toEqual(file_keys);
+    expect(w.files.get(originalKey(document_id, 0, 'q3/report.md'))?.data).toEqual(upload);
+    expect(w.db.prepare('SELECT COUNT(*) AS count FROM file_chunks').get()).toEqual({ count: 0 });
+  });
+
+  it('serves stored files byte for byte', async () => {
+    const w = await createTestWorker();
+    const { document_id } = await convertFile(w);
+
+    const original = await w.fetch(`/v1alpha/files/${originalKey(document_id, 0, 'q3/report.md')}`);
+    expect(original.status).toBe(200);
+    expect(original.headers.get('Content-Type')).toBe('text/markdown');
+    expect(new Uint8Array(await original.arrayBuffer())).toEqual(upload);
+
+    const markdown = await w.fetch(`/v1alpha/files/${outputKey(document_id, OutputFormat.MARKDOWN)}`);
+    expect(markdown.headers.get('Content-Type')).toBe('text/markdown; charset=utf-8');
+    expect(await markdown.text()).toContain('# Report');
+  });
+
+  it('sends uploaded HTML as an attachment, not inline', async () => {
+    const w = await createTestWorker();
+    const form = new FormData();
+    form.append('file', new File(['<p>Report</p><script>alert(document.cookie)</script>'], 'report.html', { type: 'text/html' }));
+    form.append('to_formats', 'html');
+    const { result } = await (await w.fetch('/v1alpha/convert/file', { method: 'POST', body: form })).json() as { result: { document_id: string } };
+
+    for (const key of [originalKey(result.document_id, 0, 'report.html'), outputKey(result.document_id, OutputFormat.HTML)]) {
+      const response = await w.fetch(`/v1alpha/files/${key}`);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Disposition')).toMatch(/^attachment; filename\*=UTF-8''/);
+      expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff');
+    }
+  });
+
+  it('only serves keys recorded for a document', async () => {
+    const w = await createTestWorker();
+    await w.env.FILES.put('documents/unknown/original/0/secret.md', 'secret');
+    expect((await w.fetch('/v1alpha/files/documents/unknown/original/0/secret.md')).status).toBe(404);
+  });
+
+  it("deletes a document's files with it", async () => {
+    const w = await createTestWorker();
+    const { document_id } = await convertFile(w);
+
+    expect((await w.fetch(`/v1alpha/documents/${document_id}`, { method: 'DELETE' })).status).toBe(200);
+    expect(w.files.size).toBe(0);
+    expect(w.db.prepare('SELECT COUNT(*) AS count FROM files').get()).toEqual({ count: 0 });
+  });
+});
@@ -0,0 +1,91 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createTestWorker, deliver, queueMessage, TestWorker } from './worker';
+
+const ROOT_KEY = 'root-key';
+
+function authorized(key: string, init: RequestInit = {}): RequestInit {
+  return { ...init, headers: { ...init.headers, Authorization: `Bearer ${key}` } };
+}
+
+async function createKey(w: TestWorker, tenantId: string, scopes = ['convert', 'read']): Promise<string> {
+  const response = await w.fetch('/v1alpha/api-keys', authorized(ROOT_KEY, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: tenantId, tenant_id: tenantId, scopes }),
+  }));
+  expect(response.status).toBe(201);
+  return (await response.json() as { key: string }).key;
+}
+
+// Convert a Markdown upload through the queue and return its task and document
+async function convert(w: TestWorker, key: string, text: string) {
+  const form = new FormData();
+  form.append('file', new File([text], 'report.md', { type: 'text/markdown' }));
+  const response = await w.fetch('/v1alpha/convert/file/async', authorized(key, { method: 'POST', body: form }));
+  const { task_id } = await response.json() as { task_id: string };
+  await deliver(w.env, queueMessage(w.sent.CONVERSION_QUEUE.at(-1)));
+  const { document_id } = w.db.prepare('SELECT document_id FROM tasks WHERE id = ?').get(task_id) as { document_id: string };
+  return { taskId: task_id, documentId: document_id };
+}
+
+describe('tenant scoping', () => {
+  let w: TestWorker;
+  let keyA: string;
+  let keyB: string;
+  let converted: { taskId: string; documentId: string };
+
+  beforeAll(async () => {
+    w = await createTestWorker({ DOCLING_SERVE_API_KEY: ROOT_KEY });
+    keyA = await createKey(w, 'tenant-a');
+    keyB = await createKey(w, 'tenant-b', ['convert', 'read', 'admin']);
+    converted = await convert(w, keyA, '# Report\n\nQuarterly revenue grew.');
+  });
+
+  it('requires an API key', async () => {
+    expect((await w.fetch('/v1alpha/documents')).status).toBe(401);
+  });
+
+  it("serves a tenant's own task, result and document", async () => {
+    expect((await w.fetch(`/v1alpha/status/poll/${converted.taskId}`, authorized(keyA))).status).toBe(200);
+    expect((await w.fetch(`/v1alpha/result/${converted.taskId}`, authorized(keyA))).status).toBe(200);
+    expect((await w.fetch(`/v1alpha/documents/${converted.documentId}`, authorized(keyA))).status).toBe(200);
+  });
+
+  it("hides another tenant's task, result and document", async () => {
+    expect((await w.fetch(`/v1alpha/status/poll/${converted.taskId}`, authorized(keyB))).status).toBe(404);
+    expect((await w.fetch(`/v1alpha/result/${converted.taskId}`, authorized(keyB))).status).toBe(404);
+    expect((await w.fetch(`/v1alpha/documents/${converted.documentId}`, authorized(keyB))).status).toBe(404);
+    expect((await w.fetch(`/v1alpha/documents/${converted.documentId}/content`, authorized(keyB))).status).toBe(404);
+    expect((await w.fetch(`/v1alpha/documents/${converted.documentId}/chunks`, authorized(keyB))).status).toBe(404);
+  });
+
+  it("hides another tenant's files", async () => {
+    const { key } = w.db.prepare('SELECT key FROM files WHERE document_id = ?').get(converted.documentId) as { key: string };
+    expect((await w.fetch(`/v1alpha/files/${encodeURIComponent(key)}`, authorized(keyA))).status).toBe(200);
+    expect((await w.fetch(`/v1alpha/files/${encodeURIComponent(key)}`, authorized(keyB))).status).toBe(404);
+  });
+
+  it("leaves another tenant's documents out of listings and search", async () => {
+    const listed = async (key: string) => (await (await w.fetch('/v1alpha/documents', authorized(key))).json() as { documents: { id: string }[] })
+      .documents.map(document => document.id);
+    expect(await listed(keyA)).toEqual([converted.documentId]);
+    expect(await listed(keyB)).toEqual([]);
+
+    const searched = async (key: string) => {
+      const response = await w.fetch('/v1alpha/search?mode=keyword', authorized(key, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: 'revenue' }),
+      }));
+      return (await response.json() as { results: { document_id: string }[] }).results.map(result => result.document_id);
+    };
+    expect(await searched(keyA)).toContain(converted.documentId);
+    expect(await searched(keyB)).toEqual([]);
+  });
+
+  it("does not let a tenant delete another tenant's document", async () => {
+    const response = await w.fetch(`/v1alpha/documents/${converted.documentId}`, authorized(keyB, { method: 'DELETE' }));
+    expect(response.status).toBe(404);
+    expect(w.db.prepare('SELECT id FROM documents WHERE id = ?').get(converted.documentId)).toBeDefined();
+  });
+});
@@ -0,0 +1,137 @@
+import { createHmac } from 'node:crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { sendWebhook, signWebhook, WEBHOOK_MAX_ATTEMPTS, webhookBackoff, WebhookJob } from '../src/webhooks';
+import { createTestWorker, deliver, queueMessage } from './worker';
+
+const SECRET = 'webhook-secret';
+
+const job: WebhookJob = {
+  delivery_id: 'delivery-1',
+  task_id: 'task-1',
+  url: 'https://hooks.example.com/docling',
+  event: 'task.completed',
+  payload: { event: 'task.completed', task_id: 'task-1', status: 'completed', timestamp: '2024-01-01T00:00:00.000Z' },
+};
+
+// Worker with the task that job notifies about
+async function webhookWorker() {
+  const w = await createTestWorker({ WEBHOOK_SECRET: SECRET });
+  w.db.prepare("INSERT INTO tasks (id, status, callback_url) VALUES ('task-1', 'completed', ?)").run(job.url);
+  return w;
+}
+
+function stubFetch(response: () => Response | Promise<Response>) {
+  const fetch = vi.fn<(url: string, init?: RequestInit) => Promise<Response>>(async () => response());
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+describe('signWebhook', () => {
+  it('signs the body with HMAC-SHA256 of the secret', async () => {
+    const body = JSON.stringify(job.payload);
+    expect(await signWebhook(SECRET, body)).toBe(createHmac('sha256', SECRET).update(body).digest('hex'));
+  });
+});
+
+describe('sendWebhook', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts the payload with its event, delivery id and signature', async () => {
+    const fetch = stubFetch(() => new Response(null, { status: 204 }));
+    expect(await sendWebhook(job, SECRET)).toEqual({ delivered: true, retryable: false, status_code: 204 });
+
+    const [url, init] = fetch.mock.calls[0];
+    const headers = new Headers(init?.headers);
+    expect(url).toBe(job.url);
+    expect(init?.body).toBe(JSON.stringify(job.payload));
+    expect(headers.get('X-Docling-Event')).toBe('task.completed');
+    expect(headers.get('X-Docling-Delivery')).toBe('delivery-1');
+    expect(headers.get('X-Docling-Signature')).toBe(`sha256=${createHmac('sha256', SECRET).update(init?.body as string).digest('hex')}`);
+  });
+
+  it.each([
+    [500, true],
+    [503, true],
+    [429, true],
+    [408, true],
+    [400, false],
+    [404, false],
+  ])('treats HTTP %i as retryable: %s', async (status, retryable) => {
+    stubFetch(() => new Response(null, { status }));
+    expect(await sendWebhook(job, SECRET)).toEqual({ delivered: false, retryable, status_code: status, error: `HTTP ${status}` });
+  });
+
+  it('retries a request that could not be sent', async () => {
+    stubFetch(() => Promise.reject(new TypeError('Network connection lost')));
+    expect(await sendWebhook(job, SECRET)).toEqual({ delivered: false, retryable: true, error: 'Network connection lost' });
+  });
+});
+
+describe('webhookBackoff', () => {
+  it('doubles from 30 seconds up to an hour', () => {
+    expect([1, 2, 3, 4, 8, 20].map(webhookBackoff)).toEqual([30, 60, 120, 240, 3600, 3600]);
+  });
+});
+
+describe('webhook delivery', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('retries a failed delivery with backoff and records each attempt', async () => {
+    const w = await webhookWorker();
+    stubFetch(() => new Response(null, { status: 503 }));
+
+    const first = queueMessage(job, 1);
+    const second = queueMessage(job, 2);
+    await deliver(w.env, first, second);
+    expect(first.retry).toHaveBeenCalledWith({ delaySeconds: 30 });
+    expect(second.retry).toHaveBeenCalledWith({ delaySeconds: 60 });
+    expect(first.ack).not.toHaveBeenCalled();
+
+    expect(w.db.prepare('SELECT attempt, delivered, status_code, error FROM webhook_deliveries ORDER BY attempt').all()).toEqual([
+      { attempt: 1, delivered: 0, status_code: 503, error: 'HTTP 503' },
+      { attempt: 2, delivered: 0, status_code: 503, error: 'HTTP 503' },
+    ]);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const w = await webhookWorker();
+    stubFetch(() => new Response(null, { status: 503 }));
+
+    const message = queueMessage(job, WEBHOOK_MAX_ATTEMPTS);
+    await deliver(w.env, message);
+    expect(message.ack).toHaveBeenCalled();
+    expect(message.retry).not.toHaveBeenCalled();
+  });
+
+  it('does not retry a rejected delivery', async () => {
+    const w = await webhookWorker();
+    stubFetch(() => new Response(null, { status: 410 }));
+
+    const message = queueMessage(job, 1);
+    await deliver(w.env, message);
+    expect(message.ack).toHaveBeenCalled();
+    expect(message.retry).not.toHaveBeenCalled();
+  });
+
+  it('notifies the callback_url when an async conversion completes', async () => {
+    const w = await createTestWorker({ WEBHOOK_SECRET: SECRET });
+    const form = new FormData();
+    form.append('file', new File(['# Report\n\nQuarterly revenue.'], 'report.md', { type: 'text/markdown' }));
+    form.append('callback_url', job.url);
+    const { task_id } = await (await w.fetch('/v1alpha/convert/file/async', { method: 'POST', body: form })).json() as { task_id: string };
+
+    await deliver(w.env, queueMessage(w.sent.CONVERSION_QUEUE[0]));
+    expect(w.sent.WEBHOOK_QUEUE).toEqual([
+      expect.objectContaining({
+        task_id,
+        url: job.url,
+        event: 'task.completed',
+        payload: expect.objectContaining({ task_id, status: 'completed' }),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import Database from 'better-sqlite3';
+import { vi } from 'vitest';
+import worker from '../src/index';
+import { migrate } from '../src/migrate';
+import { MIGRATIONS } from '../src/migrations';
+import { sqliteD1, sqliteMigrationDatabase } from './sqlite';
+
+// Worker bindings backed by an in-memory SQLite database, an in-memory bucket and queues that
+// record what is sent to them
+
+type Env = Parameters<typeof worker.fetch>[1];
+
+export interface TestWorker {
+  env: Env;
+  db: Database.Database;
+  files: Map<string, { data: Uint8Array; contentType?: string }>;
+  // Bodies sent to each queue binding
+  sent: Record<'CONVERSION_QUEUE' | 'EMBEDDING_QUEUE' | 'WEBHOOK_QUEUE', unknown[]>;
+  fetch(path: string, init?: RequestInit): Promise<Response>;
+}
+
+export async function createTestWorker(vars: Partial<Record<string, string>> = {}): Promise<TestWorker> {
+  const db = new Database(':memory:');
+  await migrate(sqliteMigrationDatabase(db), MIGRATIONS);
+  const files: TestWorker['files'] = new Map();
+  const sent: TestWorker['sent'] = { CONVERSION_QUEUE: [], EMBEDDING_QUEUE: [], WEBHOOK_QUEUE: [] };
+  const queue = (name: keyof TestWorker['sent']) => ({
+    send: async (body: unknown) => {
+      sent[name].push(body);
+    },
+    sendBatch: async (messages: { body: unknown }[]) => {
+      sent[name].push(...messages.map(message => message.body));
+    },
+  });
+
+  const env = {
+    DB: sqliteD1(db),
+    FILES: memoryBucket(files),
+    CONVERSION_QUEUE: queue('CONVERSION_QUEUE'),
+    EMBEDDING_QUEUE: queue('EMBEDDING_QUEUE'),
+    WEBHOOK_QUEUE: queue('WEBHOOK_QUEUE'),
+    // Status pushes have no listeners in tests
+    TASK_STATUS: {
+      idFromName: (name: string) => name,
+      get: () => ({ fetch: async () => new Response(null, { status: 204 }) }),
+    },
+    __STATIC_CONTENT: { get: async () => null },
+    DEFAULT_MODEL: 'gpt-4o-mini',
+    DOCLING_SERVE_AUTO_MIGRATE: 'false',
+    ...vars,
+  } as unknown as Env;
+
+  return {
+    env,
+    db,
+    files,
+    sent,
+    fetch: async (path, init) => {
+      const waits: Promise<unknown>[] = [];
+      const ctx = { waitUntil: (promise: Promise<unknown>) => waits.push(promise), passThroughOnException: () => {} };
+      const response = await worker.fetch(new Request(`https://worker.test${path}`, init), env, ctx as unknown as ExecutionContext);
+      await Promise.all(waits);
+      return response;
+    },
+  };
+}
+
+// Queue message whose ack() and retry() calls can be inspected
+export function queueMessage<T>(body: T, attempts = 1) {
+  return {
+    id: crypto.randomUUID(),
+    timestamp: new Date(),
+    body,
+    attempts,
+    ack: vi.fn(),
+    retry: vi.fn(),
+  };
+}
+
+export async function deliver(env: Env, ...messages: ReturnType<typeof queueMessage>[]) {
+  await worker.queue({ queue: 'test', messages, ackAll: () => {}, retryAll: () => {} } as never, env);
+}
+
+function memoryBucket(files: TestWorker['files']): R2Bucket {
+  const object = (key: string) => {
+    const file = files.get(key)!;
+    return {
+      key,
+      size: file.data.byteLength,
+      httpEtag: `"${key}"`,
+      httpMetadata: { contentType: file.contentType },
+      body: new Response(file.data).body,
+      arrayBuffer: async () => file.data.slice().buffer,
+      text: async () => new TextDecoder().decode(file.data),
+    };
+  };
+  return {
+    put: async (key: string, data: ArrayBuffer | Uint8Array | string, options?: { httpMetadata?: { contentType?: string } }) => {
+      const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data instanceof ArrayBuffer ? data.slice(0) : data.slice());
+      files.set(key, { data: bytes, contentType: options?.httpMetadata?.contentType });
+      return object(key);
+    },
+    get: async (key: string) => files.has(key) ? object(key) : null,
+    head: async (key: string) => files.has(key) ? object(key) : null,
+    list: async ({ prefix = '' }: { prefix?: string } = {}) => ({
+      objects: [...files.keys()].filter(key => key.startsWith(prefix)).map(key => object(key)),
+      truncated: false,
+    }),
+    delete: async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        files.delete(key);
+      }
+    },
+  } as unknown as R2Bucket;
+}